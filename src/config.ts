@@ -25,6 +25,12 @@ export const config = {
   content: {
     dir: process.env.CONTENT_DIR || path.join(process.cwd(), 'content'),
     maxUploadSize: process.env.UPLOAD_MAX_SIZE || '100mb',
+    // Lifetime of the signed /content URLs handed to the player
+    urlTtlSeconds: parseInt(process.env.CONTENT_URL_TTL_SECONDS || '14400', 10), // 4 hours
+    // Limits on uploaded packages, enforced while they're extracted
+    maxPackageBytes: parseInt(process.env.PACKAGE_MAX_UNCOMPRESSED_BYTES || '2147483648', 10), // 2 GiB
+    maxPackageFiles: parseInt(process.env.PACKAGE_MAX_FILES || '10000', 10),
+    maxCompressionRatio: parseInt(process.env.PACKAGE_MAX_COMPRESSION_RATIO || '100', 10),
   },
 
   xapi: {
@@ -39,10 +45,28 @@ export const config = {
     },
   },
 
+  lti: {
+    // Accepted clock difference for oauth_timestamp on OAuth1-signed requests
+    oauthMaxSkewSeconds: parseInt(process.env.LTI_OAUTH_MAX_SKEW_SECONDS || '300', 10),
+  },
+
+  passback: {
+    maxAttempts: parseInt(process.env.PASSBACK_MAX_ATTEMPTS || '8', 10),
+    baseDelaySeconds: parseInt(process.env.PASSBACK_BASE_DELAY_SECONDS || '30', 10),
+    maxDelaySeconds: parseInt(process.env.PASSBACK_MAX_DELAY_SECONDS || '21600', 10), // 6 hours
+    pollIntervalMs: parseInt(process.env.PASSBACK_POLL_INTERVAL_MS || '15000', 10),
+  },
+
   session: {
     secret: process.env.SESSION_SECRET || 'dev-secret-change-in-production',
   },
 
+  attemptToken: {
+    // Signs the player's attempt tokens; falls back to the session secret
+    secret: process.env.ATTEMPT_TOKEN_SECRET || process.env.SESSION_SECRET || 'dev-secret-change-in-production',
+    ttlSeconds: parseInt(process.env.ATTEMPT_TOKEN_TTL_SECONDS || '1800', 10), // 30 minutes
+  },
+
   admin: {
     username: process.env.ADMIN_USERNAME || 'admin',
     password: process.env.ADMIN_PASSWORD || 'admin123',
@@ -25,20 +25,44 @@ export async function initDatabase(): Promise<void> {
         xapi_lrs_endpoint VARCHAR(500),
         xapi_lrs_key VARCHAR(255),
         xapi_lrs_secret VARCHAR(255),
+        privacy_level VARCHAR(20) DEFAULT 'public',
         active BOOLEAN DEFAULT true,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      -- Learners (one per consumer and LMS user id)
+      CREATE TABLE IF NOT EXISTS learners (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        consumer_id UUID REFERENCES consumers(id),
+        user_id VARCHAR(255) NOT NULL,
+        given_name VARCHAR(255),
+        family_name VARCHAR(255),
+        full_name VARCHAR(255),
+        email VARCHAR(255),
+        roles JSONB,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (consumer_id, user_id)
+      );
+
       -- Courses (SCORM Content)
       CREATE TABLE IF NOT EXISTS courses (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         title VARCHAR(255) NOT NULL,
         description TEXT,
         scorm_version VARCHAR(20) NOT NULL,
+        scorm_edition VARCHAR(20),
         launch_path VARCHAR(500) NOT NULL,
         manifest_data JSONB,
         content_path VARCHAR(500) NOT NULL,
+        sco_rollup_method VARCHAR(20) DEFAULT 'average',
+        sco_rollup_weights JSONB DEFAULT '{}',
+        max_attempts INTEGER DEFAULT 0,
+        new_attempt_on_completion BOOLEAN DEFAULT false,
+        grade_selection VARCHAR(20) DEFAULT 'latest',
+        review_on_completion BOOLEAN DEFAULT false,
+        attempt_scope VARCHAR(20) DEFAULT 'resource_link',
         active BOOLEAN DEFAULT true,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -49,6 +73,7 @@ export async function initDatabase(): Promise<void> {
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         consumer_id UUID REFERENCES consumers(id),
         course_id UUID REFERENCES courses(id),
+        learner_id UUID REFERENCES learners(id),
         user_id VARCHAR(255) NOT NULL,
         context_id VARCHAR(255),
         resource_link_id VARCHAR(255),
@@ -62,11 +87,17 @@ export async function initDatabase(): Promise<void> {
       CREATE TABLE IF NOT EXISTS attempts (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         launch_id UUID REFERENCES launches(id),
+        attempt_number INTEGER DEFAULT 1,
         cmi_data JSONB DEFAULT '{}',
         score DECIMAL(5,2),
         completion_status VARCHAR(50) DEFAULT 'not attempted',
         success_status VARCHAR(50),
         total_time VARCHAR(50),
+        time_spent INTERVAL DEFAULT INTERVAL '0 seconds',
+        lesson_mode VARCHAR(10) DEFAULT 'normal',
+        credit VARCHAR(10) DEFAULT 'credit',
+        review_of UUID REFERENCES attempts(id) ON DELETE CASCADE,
+        preview BOOLEAN DEFAULT false,
         started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         finished_at TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -109,11 +140,217 @@ export async function initDatabase(): Promise<void> {
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      -- LTI 1.3 Platform Registrations (per consumer)
+      CREATE TABLE IF NOT EXISTS lti_platforms (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        consumer_id UUID REFERENCES consumers(id),
+        issuer VARCHAR(500) NOT NULL,
+        client_id VARCHAR(255) NOT NULL,
+        deployment_id VARCHAR(255),
+        auth_login_url VARCHAR(500) NOT NULL,
+        auth_token_url VARCHAR(500),
+        jwks_url VARCHAR(500) NOT NULL,
+        active BOOLEAN DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- LTI 1.3 Tool Keys (published via JWKS)
+      CREATE TABLE IF NOT EXISTS lti_keys (
+        kid VARCHAR(255) PRIMARY KEY,
+        public_key TEXT NOT NULL,
+        private_key TEXT NOT NULL,
+        active BOOLEAN DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- LTI 1.3 OIDC Login State (single-use, short-lived)
+      CREATE TABLE IF NOT EXISTS lti_oidc_states (
+        state VARCHAR(255) PRIMARY KEY,
+        nonce VARCHAR(255) NOT NULL,
+        platform_id UUID REFERENCES lti_platforms(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- LTI AGS Line Items (created or looked up per platform context and course)
+      CREATE TABLE IF NOT EXISTS lti_line_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        platform_id UUID REFERENCES lti_platforms(id) ON DELETE CASCADE,
+        context_id VARCHAR(255) NOT NULL DEFAULT '',
+        course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+        lineitem_url VARCHAR(1000) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(platform_id, context_id, course_id)
+      );
+
+      -- Pending Deep Linking / Content-Item picker requests
+      CREATE TABLE IF NOT EXISTS deep_link_requests (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        consumer_id UUID REFERENCES consumers(id),
+        platform_id UUID REFERENCES lti_platforms(id) ON DELETE CASCADE,
+        lti_version VARCHAR(10) NOT NULL,
+        return_url VARCHAR(1000) NOT NULL,
+        accept_multiple BOOLEAN DEFAULT true,
+        data TEXT,
+        deployment_id VARCHAR(255),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Instructor report sessions (short-lived, one per instructor launch)
+      CREATE TABLE IF NOT EXISTS instructor_sessions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        launch_id UUID REFERENCES launches(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Grade passback / xAPI delivery outbox (retried with backoff)
+      CREATE TABLE IF NOT EXISTS passback_outbox (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        attempt_id UUID REFERENCES attempts(id) ON DELETE CASCADE,
+        kind VARCHAR(20) NOT NULL,
+        payload JSONB NOT NULL,
+        status VARCHAR(20) DEFAULT 'pending',
+        attempts INTEGER DEFAULT 0,
+        next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_error TEXT,
+        delivered_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Per-activity (SCO) tracking state within an attempt
+      CREATE TABLE IF NOT EXISTS attempt_activities (
+        attempt_id UUID REFERENCES attempts(id) ON DELETE CASCADE,
+        activity_id VARCHAR(255) NOT NULL,
+        attempt_count INTEGER DEFAULT 0,
+        completion_status VARCHAR(20) DEFAULT 'unknown',
+        success_status VARCHAR(20) DEFAULT 'unknown',
+        score_scaled DECIMAL(6,5),
+        progress_measure DECIMAL(5,4),
+        active BOOLEAN DEFAULT false,
+        suspended BOOLEAN DEFAULT false,
+        objectives JSONB DEFAULT '{}',
+        cmi_data JSONB DEFAULT '{}',
+        time_spent INTERVAL DEFAULT INTERVAL '0 seconds',
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (attempt_id, activity_id)
+      );
+
+      -- cmi.interactions records reported by each SCO within an attempt
+      CREATE TABLE IF NOT EXISTS attempt_interactions (
+        attempt_id UUID REFERENCES attempts(id) ON DELETE CASCADE,
+        activity_id VARCHAR(255) NOT NULL,
+        interaction_index INTEGER NOT NULL,
+        interaction_id TEXT NOT NULL,
+        type VARCHAR(20),
+        description TEXT,
+        objective_ids JSONB DEFAULT '[]',
+        correct_responses JSONB DEFAULT '[]',
+        learner_response TEXT,
+        result VARCHAR(50),
+        weighting DECIMAL,
+        latency INTERVAL,
+        timestamp TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (attempt_id, activity_id, interaction_index)
+      );
+
+      -- cmi.objectives records reported by each SCO within an attempt
+      CREATE TABLE IF NOT EXISTS attempt_objectives (
+        attempt_id UUID REFERENCES attempts(id) ON DELETE CASCADE,
+        activity_id VARCHAR(255) NOT NULL,
+        objective_index INTEGER NOT NULL,
+        objective_id TEXT NOT NULL,
+        score_scaled DECIMAL(6,5),
+        score_raw DECIMAL,
+        score_min DECIMAL,
+        score_max DECIMAL,
+        success_status VARCHAR(20) DEFAULT 'unknown',
+        completion_status VARCHAR(20) DEFAULT 'unknown',
+        progress_measure DECIMAL(5,4),
+        description TEXT,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (attempt_id, activity_id, objective_index)
+      );
+
+      -- Attempt policy overrides for one consumer's resource link to a course
+      -- (NULL columns inherit the course setting)
+      CREATE TABLE IF NOT EXISTS resource_link_policies (
+        consumer_id UUID REFERENCES consumers(id) ON DELETE CASCADE,
+        resource_link_id VARCHAR(255) NOT NULL,
+        course_id UUID REFERENCES courses(id) ON DELETE CASCADE,
+        max_attempts INTEGER,
+        new_attempt_on_completion BOOLEAN,
+        grade_selection VARCHAR(20),
+        review_on_completion BOOLEAN,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (consumer_id, resource_link_id, course_id)
+      );
+
+      -- OAuth 1.0a nonces seen from LTI consumers (replay protection)
+      CREATE TABLE IF NOT EXISTS oauth_nonces (
+        consumer_key VARCHAR(255) NOT NULL,
+        nonce VARCHAR(255) NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (consumer_key, nonce)
+      );
+
+      -- Schema upgrades for existing installs
+      ALTER TABLE launches ADD COLUMN IF NOT EXISTS platform_id UUID REFERENCES lti_platforms(id);
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS progress_measure DECIMAL(5,4);
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS location TEXT;
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS exit_mode VARCHAR(20);
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS session_time VARCHAR(50);
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS current_activity VARCHAR(255);
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS suspended_activity VARCHAR(255);
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS global_objectives JSONB DEFAULT '{}';
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS sco_rollup_method VARCHAR(20) DEFAULT 'average';
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS sco_rollup_weights JSONB DEFAULT '{}';
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS time_spent INTERVAL DEFAULT INTERVAL '0 seconds';
+      ALTER TABLE attempt_activities ADD COLUMN IF NOT EXISTS time_spent INTERVAL DEFAULT INTERVAL '0 seconds';
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS max_attempts INTEGER DEFAULT 0;
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS new_attempt_on_completion BOOLEAN DEFAULT false;
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS grade_selection VARCHAR(20) DEFAULT 'latest';
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS attempt_number INTEGER DEFAULT 1;
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS attempt_scope VARCHAR(20) DEFAULT 'resource_link';
+      ALTER TABLE launches ADD COLUMN IF NOT EXISTS learner_id UUID REFERENCES learners(id);
+      ALTER TABLE consumers ADD COLUMN IF NOT EXISTS privacy_level VARCHAR(20) DEFAULT 'public';
+      ALTER TABLE learners ADD COLUMN IF NOT EXISTS given_name VARCHAR(255);
+      ALTER TABLE learners ADD COLUMN IF NOT EXISTS family_name VARCHAR(255);
+      ALTER TABLE learners ADD COLUMN IF NOT EXISTS full_name VARCHAR(255);
+      ALTER TABLE learners ADD COLUMN IF NOT EXISTS email VARCHAR(255);
+      ALTER TABLE learners ADD COLUMN IF NOT EXISTS roles JSONB;
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS lesson_mode VARCHAR(10) DEFAULT 'normal';
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS credit VARCHAR(10) DEFAULT 'credit';
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS review_of UUID REFERENCES attempts(id) ON DELETE CASCADE;
+      ALTER TABLE attempts ADD COLUMN IF NOT EXISTS preview BOOLEAN DEFAULT false;
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS review_on_completion BOOLEAN DEFAULT false;
+      ALTER TABLE resource_link_policies ADD COLUMN IF NOT EXISTS review_on_completion BOOLEAN;
+      ALTER TABLE courses ADD COLUMN IF NOT EXISTS scorm_edition VARCHAR(20);
+
+      -- Learners for launches recorded before learners were tracked
+      INSERT INTO learners (consumer_id, user_id)
+        SELECT DISTINCT consumer_id, user_id FROM launches
+        WHERE learner_id IS NULL AND consumer_id IS NOT NULL
+        ON CONFLICT (consumer_id, user_id) DO NOTHING;
+      UPDATE launches l SET learner_id = lr.id
+        FROM learners lr
+        WHERE l.learner_id IS NULL AND lr.consumer_id = l.consumer_id AND lr.user_id = l.user_id;
+
       -- Indexes
       CREATE INDEX IF NOT EXISTS idx_launches_user ON launches(user_id, course_id);
+      CREATE INDEX IF NOT EXISTS idx_launches_learner ON launches(learner_id, course_id);
       CREATE INDEX IF NOT EXISTS idx_attempts_launch ON attempts(launch_id);
       CREATE INDEX IF NOT EXISTS idx_dispatch_tokens_token ON dispatch_tokens(token);
       CREATE INDEX IF NOT EXISTS idx_suite_courses_suite ON suite_courses(suite_id);
+      CREATE INDEX IF NOT EXISTS idx_oauth_nonces_expires ON oauth_nonces(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_passback_outbox_due ON passback_outbox(status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_passback_outbox_attempt ON passback_outbox(attempt_id);
+      CREATE INDEX IF NOT EXISTS idx_attempt_interactions_id ON attempt_interactions(interaction_id);
+      CREATE INDEX IF NOT EXISTS idx_attempt_objectives_id ON attempt_objectives(objective_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_lti_platforms_registration
+        ON lti_platforms(issuer, client_id, COALESCE(deployment_id, '')) WHERE active = true;
     `);
 
     console.log('Database tables initialized');
@@ -7,7 +7,10 @@ import { ltiRouter } from './routes/lti.js';
 import { dispatchRouter } from './routes/dispatch.js';
 import { scormApiRouter } from './routes/scorm-api.js';
 import { adminRouter } from './routes/admin.js';
+import { contentRouter } from './routes/content.js';
 import { initDatabase, loadSettings } from './db/index.js';
+import { startPassbackWorker } from './services/passback-outbox.js';
+import { startNonceCleanup } from './services/oauth-verifier.js';
 
 const app = express();
 
@@ -31,9 +34,11 @@ app.use(session({
   },
 }));
 
-// Serve static files (SCORM player, extracted content)
+// Serve static files (SCORM player)
 app.use('/static', express.static(path.join(process.cwd(), 'src', 'public')));
-app.use('/content', express.static(config.content.dir));
+
+// Extracted content, behind signed URLs or an admin session
+app.use('/content', contentRouter);
 
 // Routes (public)
 app.use('/lti', ltiRouter);
@@ -63,6 +68,8 @@ async function start() {
   try {
     await initDatabase();
     await loadSettings();
+    startPassbackWorker();
+    startNonceCleanup();
     app.listen(config.port, () => {
       console.log(`SCORM-LTI Proxy server running on port ${config.port}`);
       console.log(`Base URL: ${config.baseUrl}`);
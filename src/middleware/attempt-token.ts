@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyAttemptToken } from '../services/attempt-token.js';
+
+/**
+ * Middleware for the SCORM runtime API. Requires a valid attempt token as a
+ * Bearer token, issued for the route's :attemptId or :courseId, and leaves
+ * its claims in res.locals.attemptToken.
+ */
+export function requireAttemptToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+
+  if (!match) {
+    return res.status(401).json({ error: 'Attempt token required' });
+  }
+
+  let claims;
+  try {
+    claims = verifyAttemptToken(match[1]);
+  } catch (error) {
+    return res.status(401).json({ error: error instanceof Error ? error.message : 'Invalid attempt token' });
+  }
+
+  const { attemptId, courseId } = req.params;
+  if ((attemptId && attemptId !== claims.attemptId) || (courseId && courseId !== claims.courseId)) {
+    return res.status(403).json({ error: 'Attempt token is not valid for this attempt' });
+  }
+
+  res.locals.attemptToken = claims;
+  next();
+}
@@ -4,9 +4,23 @@ import path from 'path';
 import fs from 'fs/promises';
 import { config, updateRuntimeConfig } from '../config.js';
 import { query } from '../db/index.js';
-import { extractScormPackage, parseManifest } from '../services/content-manager.js';
+import { extractScormPackage, parseManifest, ExtractionReport } from '../services/content-manager.js';
+import { validatePackage, ValidationReport } from '../services/package-validator.js';
 import { generateDispatchPackage } from '../services/dispatch-generator.js';
 import { generateIMSCC } from '../services/imscc-generator.js';
+import { enqueueAttemptPassback, retryDelivery, processOutbox } from '../services/passback-outbox.js';
+import { ScoRollupMethod, SCO_ROLLUP_METHODS } from '../services/sequencing.js';
+import { getItemAnalysis, itemAnalysisToCsv } from '../services/item-analysis.js';
+import { startReviewAttempt } from '../services/attempt-modes.js';
+import { startCoursePreview, PreviewMode, PREVIEW_MODES } from '../services/course-preview.js';
+import { getPlayerUrl } from '../services/attempt-token.js';
+import { applyPrivacyLevel, formatLearnerName, PrivacyLevel, PRIVACY_LEVELS } from '../services/learners.js';
+import {
+  AttemptScopeLevel,
+  ATTEMPT_SCOPE_LEVELS,
+  GradeSelection,
+  GRADE_SELECTIONS,
+} from '../services/attempt-policy.js';
 import { requireAuth, handleLogin, handleLogout, checkAuthStatus } from '../middleware/auth.js';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -56,8 +70,9 @@ adminRouter.get('/api/stats', requireAuth, async (_req: Request, res: Response)
       SELECT
         (SELECT COUNT(*) FROM consumers WHERE active = true) as total_consumers,
         (SELECT COUNT(*) FROM courses WHERE active = true) as total_courses,
-        (SELECT COUNT(*) FROM launches) as total_launches,
-        (SELECT COUNT(*) FROM attempts WHERE completion_status = 'completed') as total_completions
+        (SELECT COUNT(*) FROM launches WHERE consumer_id IS NOT NULL) as total_launches,
+        (SELECT COUNT(*) FROM attempts
+         WHERE completion_status = 'completed' AND credit = 'credit' AND NOT preview) as total_completions
     `);
 
     res.json(stats.rows[0]);
@@ -76,10 +91,11 @@ adminRouter.get('/api/consumers', requireAuth, async (_req: Request, res: Respon
       id: string;
       name: string;
       lti_consumer_key: string;
+      privacy_level: PrivacyLevel;
       active: boolean;
       created_at: Date;
     }>(
-      'SELECT id, name, lti_consumer_key, active, created_at FROM consumers ORDER BY created_at DESC'
+      'SELECT id, name, lti_consumer_key, privacy_level, active, created_at FROM consumers ORDER BY created_at DESC'
     );
     res.json(result.rows);
   } catch (error) {
@@ -132,11 +148,12 @@ adminRouter.get('/api/consumers/:id', requireAuth, async (req: Request, res: Res
       lti_consumer_key: string;
       lti_consumer_secret: string;
       xapi_lrs_endpoint: string | null;
+      privacy_level: PrivacyLevel;
       active: boolean;
       created_at: Date;
     }>(
       `SELECT id, name, lti_consumer_key, lti_consumer_secret,
-              xapi_lrs_endpoint, active, created_at
+              xapi_lrs_endpoint, privacy_level, active, created_at
        FROM consumers WHERE id = $1`,
       [id]
     );
@@ -149,6 +166,9 @@ adminRouter.get('/api/consumers/:id', requireAuth, async (req: Request, res: Res
     res.json({
       ...consumer,
       lti_launch_url: `${config.baseUrl}/lti/launch`,
+      lti13_login_url: `${config.baseUrl}/lti/1.3/login`,
+      lti13_launch_url: `${config.baseUrl}/lti/1.3/launch`,
+      lti13_jwks_url: `${config.baseUrl}/lti/1.3/jwks`,
     });
   } catch (error) {
     console.error('Get consumer error:', error);
@@ -156,6 +176,34 @@ adminRouter.get('/api/consumers/:id', requireAuth, async (req: Request, res: Res
   }
 });
 
+// Set how much learner information is kept from a consumer's launches.
+// Lowering the level clears names and email already stored.
+adminRouter.put('/api/consumers/:id/privacy', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const { privacyLevel } = req.body as { privacyLevel?: PrivacyLevel };
+
+    if (!privacyLevel || !PRIVACY_LEVELS.includes(privacyLevel)) {
+      return res.status(400).json({ error: `privacyLevel must be one of: ${PRIVACY_LEVELS.join(', ')}` });
+    }
+
+    const result = await query(
+      'UPDATE consumers SET privacy_level = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [privacyLevel, id]
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      return res.status(404).json({ error: 'Consumer not found' });
+    }
+
+    await applyPrivacyLevel(id, privacyLevel);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Update privacy level error:', error);
+    res.status(500).json({ error: 'Failed to update privacy level' });
+  }
+});
+
 // Delete consumer
 adminRouter.delete('/api/consumers/:id', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -168,6 +216,106 @@ adminRouter.delete('/api/consumers/:id', requireAuth, async (req: Request, res:
   }
 });
 
+// === LTI 1.3 Platform Registrations ===
+
+// List platform registrations for a consumer
+adminRouter.get('/api/consumers/:id/platforms', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const result = await query<{
+      id: string;
+      issuer: string;
+      client_id: string;
+      deployment_id: string | null;
+      auth_login_url: string;
+      auth_token_url: string | null;
+      jwks_url: string;
+      created_at: Date;
+    }>(
+      `SELECT id, issuer, client_id, deployment_id, auth_login_url, auth_token_url,
+              jwks_url, created_at
+       FROM lti_platforms
+       WHERE consumer_id = $1 AND active = true
+       ORDER BY created_at DESC`,
+      [id]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('List platforms error:', error);
+    res.status(500).json({ error: 'Failed to list platforms' });
+  }
+});
+
+// Register an LTI 1.3 platform for a consumer
+adminRouter.post('/api/consumers/:id/platforms', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { issuer, client_id, deployment_id, auth_login_url, auth_token_url, jwks_url } = req.body;
+
+    if (!issuer || !client_id || !auth_login_url || !jwks_url) {
+      return res.status(400).json({
+        error: 'issuer, client_id, auth_login_url and jwks_url are required',
+      });
+    }
+
+    for (const url of [auth_login_url, jwks_url, auth_token_url].filter(Boolean)) {
+      try {
+        new URL(url);
+      } catch {
+        return res.status(400).json({ error: `Invalid URL: ${url}` });
+      }
+    }
+
+    const consumerResult = await query<{ id: string }>(
+      'SELECT id FROM consumers WHERE id = $1 AND active = true',
+      [id]
+    );
+
+    if (consumerResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Consumer not found' });
+    }
+
+    const platformId = uuidv4();
+    await query(
+      `INSERT INTO lti_platforms (id, consumer_id, issuer, client_id, deployment_id,
+        auth_login_url, auth_token_url, jwks_url)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        platformId,
+        id,
+        issuer,
+        client_id,
+        deployment_id || null,
+        auth_login_url,
+        auth_token_url || null,
+        jwks_url,
+      ]
+    );
+
+    res.status(201).json({ id: platformId, issuer, client_id, deployment_id: deployment_id || null });
+  } catch (error) {
+    console.error('Create platform error:', error);
+    res.status(500).json({ error: 'Failed to register platform' });
+  }
+});
+
+// Remove a platform registration
+adminRouter.delete('/api/platforms/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    await query(
+      'UPDATE lti_platforms SET active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete platform error:', error);
+    res.status(500).json({ error: 'Failed to delete platform' });
+  }
+});
+
 // === Course Management ===
 
 // List courses (only active/non-deleted courses)
@@ -177,10 +325,12 @@ adminRouter.get('/api/courses', requireAuth, async (_req: Request, res: Response
       id: string;
       title: string;
       scorm_version: string;
+      scorm_edition: string | null;
       active: boolean;
       created_at: Date;
     }>(
-      'SELECT id, title, scorm_version, active, created_at FROM courses WHERE active = true ORDER BY created_at DESC'
+      `SELECT id, title, scorm_version, scorm_edition, active, created_at
+       FROM courses WHERE active = true ORDER BY created_at DESC`
     );
     res.json(result.rows);
   } catch (error) {
@@ -201,7 +351,18 @@ adminRouter.post('/api/courses', requireAuth, upload.single('package'), async (r
     const contentPath = path.join(config.content.dir, courseId);
 
     // Extract SCORM package
-    await extractScormPackage(req.file.path, contentPath);
+    const extraction = await extractScormPackage(req.file.path, contentPath);
+    if (!extraction.accepted) {
+      await fs.unlink(req.file.path).catch(() => {});
+      return res.status(400).json(rejectionResponse(extraction));
+    }
+
+    const validation = await validatePackage(contentPath);
+    if (!validation.valid) {
+      await fs.rm(contentPath, { recursive: true, force: true });
+      await fs.unlink(req.file.path).catch(() => {});
+      return res.status(400).json(validationResponse(validation));
+    }
 
     // Parse manifest
     const manifestPath = path.join(contentPath, 'imsmanifest.xml');
@@ -209,12 +370,13 @@ adminRouter.post('/api/courses', requireAuth, upload.single('package'), async (r
 
     // Create course record
     await query(
-      `INSERT INTO courses (id, title, scorm_version, launch_path, manifest_data, content_path)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
+      `INSERT INTO courses (id, title, scorm_version, scorm_edition, launch_path, manifest_data, content_path)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
       [
         courseId,
         title || manifest.title || 'Untitled Course',
         manifest.scormVersion,
+        manifest.edition,
         manifest.launchPath,
         JSON.stringify(manifest),
         contentPath,
@@ -228,7 +390,9 @@ adminRouter.post('/api/courses', requireAuth, upload.single('package'), async (r
       id: courseId,
       title: title || manifest.title,
       scorm_version: manifest.scormVersion,
+      scorm_edition: manifest.edition,
       launch_path: manifest.launchPath,
+      validation,
     });
   } catch (error) {
     console.error('Upload course error:', error);
@@ -252,13 +416,23 @@ adminRouter.get('/api/courses/:id', requireAuth, async (req: Request, res: Respo
       title: string;
       description: string | null;
       scorm_version: string;
+      scorm_edition: string | null;
       launch_path: string;
       manifest_data: Record<string, unknown>;
+      sco_rollup_method: ScoRollupMethod;
+      sco_rollup_weights: Record<string, number>;
+      max_attempts: number;
+      new_attempt_on_completion: boolean;
+      review_on_completion: boolean;
+      grade_selection: GradeSelection;
+      attempt_scope: AttemptScopeLevel;
       active: boolean;
       created_at: Date;
     }>(
-      `SELECT id, title, description, scorm_version, launch_path,
-              manifest_data, active, created_at
+      `SELECT id, title, description, scorm_version, scorm_edition, launch_path,
+              manifest_data, sco_rollup_method, sco_rollup_weights, max_attempts,
+              new_attempt_on_completion, review_on_completion, grade_selection, attempt_scope,
+              active, created_at
        FROM courses WHERE id = $1`,
       [id]
     );
@@ -274,6 +448,196 @@ adminRouter.get('/api/courses/:id', requireAuth, async (req: Request, res: Respo
   }
 });
 
+// Set how a SCORM 1.2 course's SCO results roll up into the attempt score
+adminRouter.put('/api/courses/:id/rollup', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { method, weights } = req.body as {
+      method?: ScoRollupMethod;
+      weights?: Record<string, unknown>;
+    };
+
+    if (!method || !SCO_ROLLUP_METHODS.includes(method)) {
+      return res.status(400).json({ error: `method must be one of: ${SCO_ROLLUP_METHODS.join(', ')}` });
+    }
+
+    const cleanWeights: Record<string, number> = {};
+    for (const [activityId, weight] of Object.entries(weights || {})) {
+      const value = Number(weight);
+      if (!Number.isFinite(value) || value < 0) {
+        return res.status(400).json({ error: `Invalid weight for ${activityId}` });
+      }
+      cleanWeights[activityId] = value;
+    }
+
+    const result = await query(
+      `UPDATE courses SET sco_rollup_method = $1, sco_rollup_weights = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3`,
+      [method, JSON.stringify(cleanWeights), id]
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Update rollup error:', error);
+    res.status(500).json({ error: 'Failed to update roll-up' });
+  }
+});
+
+// Set a course's attempt policy. attemptScope and reviewOnCompletion are
+// optional and left unchanged when omitted.
+adminRouter.put('/api/courses/:id/attempt-policy', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const policy = parsePolicyFields(req.body, false);
+    if ('error' in policy) {
+      return res.status(400).json({ error: policy.error });
+    }
+
+    const { attemptScope } = req.body as { attemptScope?: AttemptScopeLevel };
+    if (attemptScope !== undefined && !ATTEMPT_SCOPE_LEVELS.includes(attemptScope)) {
+      return res.status(400).json({ error: `attemptScope must be one of: ${ATTEMPT_SCOPE_LEVELS.join(', ')}` });
+    }
+
+    const result = await query(
+      `UPDATE courses SET max_attempts = $1, new_attempt_on_completion = $2, grade_selection = $3,
+         attempt_scope = COALESCE($4, attempt_scope),
+         review_on_completion = COALESCE($5, review_on_completion), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $6`,
+      [
+        policy.maxAttempts,
+        policy.newAttemptOnCompletion,
+        policy.gradeSelection,
+        attemptScope || null,
+        policy.reviewOnCompletion,
+        req.params.id,
+      ]
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Update attempt policy error:', error);
+    res.status(500).json({ error: 'Failed to update attempt policy' });
+  }
+});
+
+// Preview a course as a sandbox learner, without an LMS. mode is 'normal'
+// (default, commits are scored) or 'browse'. The player shows the debug console.
+adminRouter.post('/api/courses/:id/preview', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const courseId = req.params.id as string;
+    const mode = (req.body?.mode ?? 'normal') as PreviewMode;
+
+    if (!PREVIEW_MODES.includes(mode)) {
+      return res.status(400).json({ error: `mode must be one of: ${PREVIEW_MODES.join(', ')}` });
+    }
+
+    const attemptId = await startCoursePreview(courseId, mode);
+    if (!attemptId) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    res.json({ attemptId, url: await getPlayerUrl(attemptId) });
+  } catch (error) {
+    console.error('Preview course error:', error);
+    res.status(500).json({ error: 'Failed to start preview' });
+  }
+});
+
+// Resource links that have launched a course, with any attempt policy overrides
+adminRouter.get('/api/courses/:id/resource-links', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = await query<{
+      consumer_id: string;
+      consumer_name: string | null;
+      context_id: string | null;
+      resource_link_id: string;
+      learners: number;
+      last_launch_at: Date;
+      max_attempts: number | null;
+      new_attempt_on_completion: boolean | null;
+      review_on_completion: boolean | null;
+      grade_selection: GradeSelection | null;
+    }>(
+      `SELECT l.consumer_id, con.name as consumer_name, MAX(l.context_id) as context_id,
+              l.resource_link_id, COUNT(DISTINCT l.learner_id)::int as learners,
+              MAX(l.created_at) as last_launch_at,
+              p.max_attempts, p.new_attempt_on_completion, p.review_on_completion, p.grade_selection
+       FROM launches l
+       LEFT JOIN consumers con ON l.consumer_id = con.id
+       LEFT JOIN resource_link_policies p
+         ON p.consumer_id = l.consumer_id AND p.resource_link_id = l.resource_link_id
+         AND p.course_id = l.course_id
+       WHERE l.course_id = $1 AND l.resource_link_id IS NOT NULL
+       GROUP BY l.consumer_id, con.name, l.resource_link_id,
+                p.max_attempts, p.new_attempt_on_completion, p.review_on_completion, p.grade_selection
+       ORDER BY MAX(l.created_at) DESC`,
+      [req.params.id]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('List resource links error:', error);
+    res.status(500).json({ error: 'Failed to list resource links' });
+  }
+});
+
+// Override the attempt policy for one resource link. Fields left null
+// inherit the course setting; clearing every field removes the override.
+adminRouter.put('/api/courses/:id/resource-links/policy', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { consumerId, resourceLinkId } = req.body as { consumerId?: string; resourceLinkId?: string };
+    if (!consumerId || !resourceLinkId) {
+      return res.status(400).json({ error: 'consumerId and resourceLinkId are required' });
+    }
+
+    const policy = parsePolicyFields(req.body, true);
+    if ('error' in policy) {
+      return res.status(400).json({ error: policy.error });
+    }
+
+    if (Object.values(policy).every((value) => value === null)) {
+      await query(
+        'DELETE FROM resource_link_policies WHERE consumer_id = $1 AND resource_link_id = $2 AND course_id = $3',
+        [consumerId, resourceLinkId, req.params.id]
+      );
+      return res.json({ success: true });
+    }
+
+    await query(
+      `INSERT INTO resource_link_policies (consumer_id, resource_link_id, course_id, max_attempts,
+         new_attempt_on_completion, review_on_completion, grade_selection)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (consumer_id, resource_link_id, course_id) DO UPDATE SET
+         max_attempts = EXCLUDED.max_attempts,
+         new_attempt_on_completion = EXCLUDED.new_attempt_on_completion,
+         review_on_completion = EXCLUDED.review_on_completion,
+         grade_selection = EXCLUDED.grade_selection,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        consumerId,
+        resourceLinkId,
+        req.params.id,
+        policy.maxAttempts,
+        policy.newAttemptOnCompletion,
+        policy.reviewOnCompletion,
+        policy.gradeSelection,
+      ]
+    );
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Update resource link policy error:', error);
+    res.status(500).json({ error: 'Failed to update resource link policy' });
+  }
+});
+
 // Delete course (full deletion - removes database records and content files)
 adminRouter.delete('/api/courses/:id', requireAuth, async (req: Request, res: Response) => {
   try {
@@ -326,7 +690,15 @@ adminRouter.delete('/api/courses/:id', requireAuth, async (req: Request, res: Re
 // Bulk upload SCORM packages
 adminRouter.post('/api/courses/bulk', requireAuth, upload.array('packages', 50), async (req: Request, res: Response) => {
   const files = req.files as Express.Multer.File[];
-  const results: { filename: string; success: boolean; id?: string; title?: string; error?: string }[] = [];
+  const results: {
+    filename: string;
+    success: boolean;
+    id?: string;
+    title?: string;
+    error?: string;
+    report?: ExtractionReport;
+    validation?: ValidationReport;
+  }[] = [];
 
   if (!files || files.length === 0) {
     return res.status(400).json({ error: 'No files uploaded' });
@@ -338,7 +710,20 @@ adminRouter.post('/api/courses/bulk', requireAuth, upload.array('packages', 50),
       const contentPath = path.join(config.content.dir, courseId);
 
       // Extract SCORM package
-      await extractScormPackage(file.path, contentPath);
+      const extraction = await extractScormPackage(file.path, contentPath);
+      if (!extraction.accepted) {
+        await fs.unlink(file.path).catch(() => {});
+        results.push({ filename: file.originalname, success: false, ...rejectionResponse(extraction) });
+        continue;
+      }
+
+      const validation = await validatePackage(contentPath);
+      if (!validation.valid) {
+        await fs.rm(contentPath, { recursive: true, force: true });
+        await fs.unlink(file.path).catch(() => {});
+        results.push({ filename: file.originalname, success: false, ...validationResponse(validation) });
+        continue;
+      }
 
       // Parse manifest
       const manifestPath = path.join(contentPath, 'imsmanifest.xml');
@@ -346,12 +731,13 @@ adminRouter.post('/api/courses/bulk', requireAuth, upload.array('packages', 50),
 
       // Create course record
       await query(
-        `INSERT INTO courses (id, title, scorm_version, launch_path, manifest_data, content_path)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
+        `INSERT INTO courses (id, title, scorm_version, scorm_edition, launch_path, manifest_data, content_path)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
         [
           courseId,
           manifest.title || file.originalname.replace(/\.zip$/i, ''),
           manifest.scormVersion,
+          manifest.edition,
           manifest.launchPath,
           JSON.stringify(manifest),
           contentPath,
@@ -366,6 +752,7 @@ adminRouter.post('/api/courses/bulk', requireAuth, upload.array('packages', 50),
         success: true,
         id: courseId,
         title: manifest.title,
+        validation,
       });
     } catch (error) {
       console.error(`Bulk upload error for ${file.originalname}:`, error);
@@ -392,6 +779,32 @@ adminRouter.post('/api/courses/bulk', requireAuth, upload.array('packages', 50),
   });
 });
 
+// Validate a SCORM package without creating a course
+adminRouter.post('/api/courses/validate', requireAuth, upload.single('package'), async (req: Request, res: Response) => {
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+
+  const contentPath = `${req.file.path}-contents`;
+
+  try {
+    const extraction = await extractScormPackage(req.file.path, contentPath);
+    const validation = extraction.accepted ? await validatePackage(contentPath) : null;
+
+    res.json({
+      valid: extraction.accepted && !!validation?.valid,
+      extraction,
+      validation,
+    });
+  } catch (error) {
+    console.error('Validate package error:', error);
+    res.status(500).json({ error: 'Failed to validate package' });
+  } finally {
+    await fs.rm(contentPath, { recursive: true, force: true }).catch(() => {});
+    await fs.unlink(req.file.path).catch(() => {});
+  }
+});
+
 // Replace SCORM package for existing course
 adminRouter.put('/api/courses/:id/replace', requireAuth, upload.single('package'), async (req: Request, res: Response) => {
   try {
@@ -419,7 +832,18 @@ adminRouter.put('/api/courses/:id/replace', requireAuth, upload.single('package'
     const newContentPath = path.join(config.content.dir, `${id}_${Date.now()}`);
 
     // Extract new SCORM package
-    await extractScormPackage(req.file.path, newContentPath);
+    const extraction = await extractScormPackage(req.file.path, newContentPath);
+    if (!extraction.accepted) {
+      await fs.unlink(req.file.path).catch(() => {});
+      return res.status(400).json(rejectionResponse(extraction));
+    }
+
+    const validation = await validatePackage(newContentPath);
+    if (!validation.valid) {
+      await fs.rm(newContentPath, { recursive: true, force: true });
+      await fs.unlink(req.file.path).catch(() => {});
+      return res.status(400).json(validationResponse(validation));
+    }
 
     // Parse manifest
     const manifestPath = path.join(newContentPath, 'imsmanifest.xml');
@@ -429,13 +853,15 @@ adminRouter.put('/api/courses/:id/replace', requireAuth, upload.single('package'
     await query(
       `UPDATE courses SET
          scorm_version = $1,
-         launch_path = $2,
-         manifest_data = $3,
-         content_path = $4,
+         scorm_edition = $2,
+         launch_path = $3,
+         manifest_data = $4,
+         content_path = $5,
          updated_at = CURRENT_TIMESTAMP
-       WHERE id = $5`,
+       WHERE id = $6`,
       [
         manifest.scormVersion,
+        manifest.edition,
         manifest.launchPath,
         JSON.stringify(manifest),
         newContentPath,
@@ -456,7 +882,9 @@ adminRouter.put('/api/courses/:id/replace', requireAuth, upload.single('package'
       id,
       title: existingCourse.title,
       scorm_version: manifest.scormVersion,
+      scorm_edition: manifest.edition,
       launch_path: manifest.launchPath,
+      validation,
     });
   } catch (error) {
     console.error('Replace course error:', error);
@@ -540,120 +968,456 @@ adminRouter.get('/api/launches', requireAuth, async (req: Request, res: Response
     const result = await query<{
       id: string;
       user_id: string;
+      given_name: string | null;
+      family_name: string | null;
+      full_name: string | null;
+      email: string | null;
       course_title: string;
       consumer_name: string;
       created_at: Date;
+      attempt_id: string | null;
+      lesson_mode: string | null;
+      preview: boolean | null;
       completion_status: string;
       score: number | null;
     }>(
-      `SELECT l.id, l.user_id, c.title as course_title, con.name as consumer_name,
-              l.created_at, a.completion_status, a.score
+      `SELECT l.id, l.user_id, lr.given_name, lr.family_name, lr.full_name, lr.email,
+              c.title as course_title, con.name as consumer_name,
+              l.created_at, a.id as attempt_id, a.lesson_mode, a.preview, a.completion_status, a.score
        FROM launches l
        JOIN courses c ON l.course_id = c.id
        LEFT JOIN consumers con ON l.consumer_id = con.id
+       LEFT JOIN learners lr ON l.learner_id = lr.id
        LEFT JOIN attempts a ON a.launch_id = l.id
        ORDER BY l.created_at DESC
        LIMIT $1`,
       [limit]
     );
 
-    res.json(result.rows);
+    res.json(
+      result.rows.map(({ given_name, family_name, full_name, ...launch }) => ({
+        ...launch,
+        learner_name: formatLearnerName(given_name, family_name, full_name),
+      }))
+    );
   } catch (error) {
     console.error('Launches error:', error);
     res.status(500).json({ error: 'Failed to get launches' });
   }
 });
 
-// === Suite Management ===
+// === Learners ===
 
-// List suites
-adminRouter.get('/api/suites', requireAuth, async (_req: Request, res: Response) => {
+// Learner roster: what each consumer's privacy level lets us keep from launches.
+// Sandbox learners from admin previews have no consumer and aren't listed.
+adminRouter.get('/api/learners', requireAuth, async (req: Request, res: Response) => {
   try {
+    const limit = parseInt(req.query.limit as string) || 100;
+    const consumerId = typeof req.query.consumerId === 'string' && req.query.consumerId ? req.query.consumerId : null;
+
     const result = await query<{
       id: string;
-      title: string;
-      description: string | null;
-      active: boolean;
+      user_id: string;
+      given_name: string | null;
+      family_name: string | null;
+      full_name: string | null;
+      email: string | null;
+      roles: string[] | null;
+      consumer_id: string;
+      consumer_name: string | null;
+      launches: number;
       created_at: Date;
-      course_count: string;
+      last_seen_at: Date;
     }>(
-      `SELECT s.id, s.title, s.description, s.active, s.created_at,
-              COUNT(sc.course_id) as course_count
-       FROM suites s
-       LEFT JOIN suite_courses sc ON s.id = sc.suite_id
-       WHERE s.active = true
-       GROUP BY s.id
-       ORDER BY s.created_at DESC`
+      `SELECT lr.id, lr.user_id, lr.given_name, lr.family_name, lr.full_name, lr.email, lr.roles,
+              lr.consumer_id, con.name as consumer_name, COUNT(l.id)::int as launches,
+              lr.created_at, lr.last_seen_at
+       FROM learners lr
+       LEFT JOIN consumers con ON lr.consumer_id = con.id
+       LEFT JOIN launches l ON l.learner_id = lr.id
+       WHERE lr.consumer_id IS NOT NULL AND ($1::text IS NULL OR lr.consumer_id::text = $1)
+       GROUP BY lr.id, con.name
+       ORDER BY lr.last_seen_at DESC
+       LIMIT $2`,
+      [consumerId, limit]
+    );
+
+    res.json(
+      result.rows.map((learner) => ({
+        ...learner,
+        name: formatLearnerName(learner.given_name, learner.family_name, learner.full_name),
+      }))
     );
-    res.json(result.rows);
   } catch (error) {
-    console.error('List suites error:', error);
-    res.status(500).json({ error: 'Failed to list suites' });
+    console.error('List learners error:', error);
+    res.status(500).json({ error: 'Failed to list learners' });
   }
 });
 
-// Create suite
-adminRouter.post('/api/suites', requireAuth, async (req: Request, res: Response) => {
-  try {
-    const { title, description } = req.body;
-
-    if (!title) {
-      return res.status(400).json({ error: 'title is required' });
-    }
+// === Interactions and Objectives ===
 
-    const id = uuidv4();
-    await query(
-      'INSERT INTO suites (id, title, description) VALUES ($1, $2, $3)',
-      [id, title, description || null]
+// Per-question summary of a course's interactions across all learners
+adminRouter.get('/api/courses/:id/interactions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = await query<{
+      activity_id: string;
+      interaction_id: string;
+      type: string | null;
+      description: string | null;
+      responses: number;
+      learners: number;
+      correct: number;
+      incorrect: number;
+      avg_latency_seconds: number | null;
+    }>(
+      `SELECT i.activity_id, i.interaction_id, MAX(i.type) as type, MAX(i.description) as description,
+              COUNT(*)::int as responses,
+              COUNT(DISTINCT l.learner_id)::int as learners,
+              COUNT(*) FILTER (WHERE i.result = 'correct')::int as correct,
+              COUNT(*) FILTER (WHERE i.result = 'incorrect')::int as incorrect,
+              AVG(EXTRACT(EPOCH FROM i.latency))::float8 as avg_latency_seconds
+       FROM attempt_interactions i
+       JOIN attempts a ON i.attempt_id = a.id
+       JOIN launches l ON a.launch_id = l.id
+       WHERE l.course_id = $1 AND NOT a.preview
+       GROUP BY i.activity_id, i.interaction_id
+       ORDER BY i.activity_id, MIN(i.interaction_index)`,
+      [req.params.id]
     );
 
-    res.status(201).json({ id, title, description });
+    res.json(result.rows);
   } catch (error) {
-    console.error('Create suite error:', error);
-    res.status(500).json({ error: 'Failed to create suite' });
+    console.error('Interactions summary error:', error);
+    res.status(500).json({ error: 'Failed to get interactions' });
   }
 });
 
-// Get suite details with courses
-adminRouter.get('/api/suites/:id', requireAuth, async (req: Request, res: Response) => {
+// Every learner's response to one interaction (optionally within one SCO)
+adminRouter.get('/api/courses/:id/interactions/:interactionId', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const activityId = typeof req.query.activityId === 'string' ? req.query.activityId : null;
 
-    const suiteResult = await query<{
-      id: string;
-      title: string;
-      description: string | null;
-      active: boolean;
-      created_at: Date;
+    const result = await query<{
+      attempt_id: string;
+      activity_id: string;
+      user_id: string;
+      consumer_name: string | null;
+      type: string | null;
+      correct_responses: string[];
+      learner_response: string | null;
+      result: string | null;
+      weighting: number | null;
+      latency_seconds: number | null;
+      timestamp: Date | null;
     }>(
-      'SELECT id, title, description, active, created_at FROM suites WHERE id = $1',
-      [id]
+      `SELECT i.attempt_id, i.activity_id, l.user_id, con.name as consumer_name, i.type,
+              i.correct_responses, i.learner_response, i.result, i.weighting,
+              EXTRACT(EPOCH FROM i.latency)::float8 as latency_seconds, i.timestamp
+       FROM attempt_interactions i
+       JOIN attempts a ON i.attempt_id = a.id
+       JOIN launches l ON a.launch_id = l.id
+       LEFT JOIN consumers con ON l.consumer_id = con.id
+       WHERE l.course_id = $1 AND i.interaction_id = $2 AND NOT a.preview
+         AND ($3::text IS NULL OR i.activity_id = $3)
+       ORDER BY i.timestamp DESC NULLS LAST, i.updated_at DESC`,
+      [req.params.id, req.params.interactionId, activityId]
     );
 
-    if (suiteResult.rows.length === 0) {
-      return res.status(404).json({ error: 'Suite not found' });
-    }
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Interaction responses error:', error);
+    res.status(500).json({ error: 'Failed to get interaction responses' });
+  }
+});
 
-    const coursesResult = await query<{
-      id: string;
-      title: string;
-      scorm_version: string;
-      sort_order: number;
+// Per-objective summary of a course's objective records across all learners
+adminRouter.get('/api/courses/:id/objectives', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const result = await query<{
+      activity_id: string;
+      objective_id: string;
+      learners: number;
+      completed: number;
+      passed: number;
+      failed: number;
+      avg_score_scaled: number | null;
     }>(
-      `SELECT c.id, c.title, c.scorm_version, sc.sort_order
-       FROM courses c
-       JOIN suite_courses sc ON c.id = sc.course_id
-       WHERE sc.suite_id = $1 AND c.active = true
-       ORDER BY sc.sort_order`,
-      [id]
+      `SELECT o.activity_id, o.objective_id,
+              COUNT(DISTINCT l.learner_id)::int as learners,
+              COUNT(*) FILTER (WHERE o.completion_status = 'completed')::int as completed,
+              COUNT(*) FILTER (WHERE o.success_status = 'passed')::int as passed,
+              COUNT(*) FILTER (WHERE o.success_status = 'failed')::int as failed,
+              AVG(o.score_scaled)::float8 as avg_score_scaled
+       FROM attempt_objectives o
+       JOIN attempts a ON o.attempt_id = a.id
+       JOIN launches l ON a.launch_id = l.id
+       WHERE l.course_id = $1 AND NOT a.preview
+       GROUP BY o.activity_id, o.objective_id
+       ORDER BY o.activity_id, MIN(o.objective_index)`,
+      [req.params.id]
     );
 
-    res.json({
-      ...suiteResult.rows[0],
-      courses: coursesResult.rows,
-    });
+    res.json(result.rows);
   } catch (error) {
-    console.error('Get suite error:', error);
+    console.error('Objectives summary error:', error);
+    res.status(500).json({ error: 'Failed to get objectives' });
+  }
+});
+
+// Item analysis for a course (?consumerId=, ?from= and ?to= dates, ?format=csv)
+adminRouter.get('/api/courses/:id/item-analysis', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const courseId = req.params.id as string;
+    const consumerId = typeof req.query.consumerId === 'string' && req.query.consumerId ? req.query.consumerId : undefined;
+
+    const from = parseDateFilter(req.query.from, false);
+    const to = parseDateFilter(req.query.to, true);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps' });
+    }
+
+    const courseResult = await query<{ title: string }>('SELECT title FROM courses WHERE id = $1', [courseId]);
+    if (courseResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    const items = await getItemAnalysis(courseId, { consumerId, from, to });
+
+    if (req.query.format === 'csv') {
+      const filename = `${courseResult.rows[0].title.replace(/[^a-z0-9]/gi, '_')}_item_analysis.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(itemAnalysisToCsv(items));
+    }
+
+    res.json(items);
+  } catch (error) {
+    console.error('Item analysis error:', error);
+    res.status(500).json({ error: 'Failed to build item analysis' });
+  }
+});
+
+// === Grade Passback ===
+
+// List passback deliveries (default: failed ones still retrying or dead-lettered)
+adminRouter.get('/api/passback', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as string) || 'failed';
+    const limit = parseInt(req.query.limit as string) || 100;
+
+    const statusFilter: Record<string, string> = {
+      failed: `(o.status = 'dead' OR (o.status = 'pending' AND o.last_error IS NOT NULL))`,
+      pending: `o.status = 'pending'`,
+      dead: `o.status = 'dead'`,
+      delivered: `o.status = 'delivered'`,
+    };
+
+    if (!statusFilter[status]) {
+      return res.status(400).json({ error: 'status must be one of failed, pending, dead, delivered' });
+    }
+
+    const result = await query<{
+      id: string;
+      attempt_id: string;
+      kind: string;
+      status: string;
+      attempts: number;
+      last_error: string | null;
+      next_attempt_at: Date;
+      updated_at: Date;
+      user_id: string;
+      course_title: string;
+      consumer_name: string | null;
+    }>(
+      `SELECT o.id, o.attempt_id, o.kind, o.status, o.attempts, o.last_error,
+              o.next_attempt_at, o.updated_at, l.user_id, c.title as course_title,
+              con.name as consumer_name
+       FROM passback_outbox o
+       JOIN attempts a ON o.attempt_id = a.id
+       JOIN launches l ON a.launch_id = l.id
+       JOIN courses c ON l.course_id = c.id
+       LEFT JOIN consumers con ON l.consumer_id = con.id
+       WHERE ${statusFilter[status]}
+       ORDER BY o.updated_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('List passback error:', error);
+    res.status(500).json({ error: 'Failed to list deliveries' });
+  }
+});
+
+// Retry a single delivery now
+adminRouter.post('/api/passback/:id/retry', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const retried = await retryDelivery(req.params.id as string);
+    if (!retried) {
+      return res.status(404).json({ error: 'Delivery not found or already delivered' });
+    }
+
+    processOutbox();
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Retry passback error:', error);
+    res.status(500).json({ error: 'Failed to retry delivery' });
+  }
+});
+
+// Retry every dead-lettered delivery
+adminRouter.post('/api/passback/retry-dead', requireAuth, async (_req: Request, res: Response) => {
+  try {
+    const result = await query(
+      `UPDATE passback_outbox SET
+         status = 'pending',
+         attempts = 0,
+         next_attempt_at = CURRENT_TIMESTAMP,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE status = 'dead'`
+    );
+
+    processOutbox();
+    res.json({ success: true, retried: result.rowCount ?? 0 });
+  } catch (error) {
+    console.error('Retry dead passback error:', error);
+    res.status(500).json({ error: 'Failed to retry deliveries' });
+  }
+});
+
+// Force a resync of an attempt's current grade to the LMS
+adminRouter.post('/api/attempts/:id/resync', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const attemptResult = await query<{ id: string }>(
+      'SELECT id FROM attempts WHERE id = $1',
+      [id]
+    );
+
+    if (attemptResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+
+    const queued = await enqueueAttemptPassback(id as string);
+    if (queued > 0) {
+      processOutbox();
+    }
+
+    res.json({ success: true, queued });
+  } catch (error) {
+    console.error('Resync attempt error:', error);
+    res.status(500).json({ error: 'Failed to resync attempt' });
+  }
+});
+
+// Open an attempt read-only in review mode. The review copy stays on the
+// learner's launch so the player shows their name.
+adminRouter.post('/api/attempts/:id/review', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const attemptId = await startReviewAttempt(req.params.id as string);
+    if (!attemptId) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+
+    res.json({ attemptId, url: await getPlayerUrl(attemptId) });
+  } catch (error) {
+    console.error('Review attempt error:', error);
+    res.status(500).json({ error: 'Failed to open attempt for review' });
+  }
+});
+
+// === Suite Management ===
+
+// List suites
+adminRouter.get('/api/suites', requireAuth, async (_req: Request, res: Response) => {
+  try {
+    const result = await query<{
+      id: string;
+      title: string;
+      description: string | null;
+      active: boolean;
+      created_at: Date;
+      course_count: string;
+    }>(
+      `SELECT s.id, s.title, s.description, s.active, s.created_at,
+              COUNT(sc.course_id) as course_count
+       FROM suites s
+       LEFT JOIN suite_courses sc ON s.id = sc.suite_id
+       WHERE s.active = true
+       GROUP BY s.id
+       ORDER BY s.created_at DESC`
+    );
+    res.json(result.rows);
+  } catch (error) {
+    console.error('List suites error:', error);
+    res.status(500).json({ error: 'Failed to list suites' });
+  }
+});
+
+// Create suite
+adminRouter.post('/api/suites', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { title, description } = req.body;
+
+    if (!title) {
+      return res.status(400).json({ error: 'title is required' });
+    }
+
+    const id = uuidv4();
+    await query(
+      'INSERT INTO suites (id, title, description) VALUES ($1, $2, $3)',
+      [id, title, description || null]
+    );
+
+    res.status(201).json({ id, title, description });
+  } catch (error) {
+    console.error('Create suite error:', error);
+    res.status(500).json({ error: 'Failed to create suite' });
+  }
+});
+
+// Get suite details with courses
+adminRouter.get('/api/suites/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const suiteResult = await query<{
+      id: string;
+      title: string;
+      description: string | null;
+      active: boolean;
+      created_at: Date;
+    }>(
+      'SELECT id, title, description, active, created_at FROM suites WHERE id = $1',
+      [id]
+    );
+
+    if (suiteResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Suite not found' });
+    }
+
+    const coursesResult = await query<{
+      id: string;
+      title: string;
+      scorm_version: string;
+      sort_order: number;
+    }>(
+      `SELECT c.id, c.title, c.scorm_version, sc.sort_order
+       FROM courses c
+       JOIN suite_courses sc ON c.id = sc.course_id
+       WHERE sc.suite_id = $1 AND c.active = true
+       ORDER BY sc.sort_order`,
+      [id]
+    );
+
+    res.json({
+      ...suiteResult.rows[0],
+      courses: coursesResult.rows,
+    });
+  } catch (error) {
+    console.error('Get suite error:', error);
     res.status(500).json({ error: 'Failed to get suite' });
   }
 });
@@ -932,6 +1696,88 @@ adminRouter.put('/api/settings', requireAuth, async (req: Request, res: Response
   }
 });
 
+/**
+ * Error body for a package the extractor refused, with the full report
+ */
+function rejectionResponse(report: ExtractionReport): { error: string; report: ExtractionReport } {
+  const [first] = report.rejections;
+  const more = report.rejections.length - 1;
+  return {
+    error: `Package rejected: ${first.entry ? `${first.entry}: ` : ''}${first.message}${more > 0 ? ` (and ${more} more)` : ''}`,
+    report,
+  };
+}
+
+/**
+ * Error body for a package that failed validation, with the full report
+ */
+function validationResponse(validation: ValidationReport): { error: string; validation: ValidationReport } {
+  const errors = validation.findings.filter((f) => f.severity === 'error');
+  const more = errors.length - 1;
+  return {
+    error: `Package failed validation: ${errors[0].message}${more > 0 ? ` (and ${more} more)` : ''}`,
+    validation,
+  };
+}
+
+/**
+ * Validates attempt policy fields from a request body. With allowInherit,
+ * missing or null fields stay null (inherit); otherwise they're required.
+ * reviewOnCompletion is always optional, as it came later than the others.
+ */
+function parsePolicyFields(
+  body: Record<string, unknown>,
+  allowInherit: boolean
+):
+  | {
+      maxAttempts: number | null;
+      newAttemptOnCompletion: boolean | null;
+      reviewOnCompletion: boolean | null;
+      gradeSelection: GradeSelection | null;
+    }
+  | { error: string } {
+  const { maxAttempts, newAttemptOnCompletion, reviewOnCompletion, gradeSelection } = body;
+  const inherit = (value: unknown) => allowInherit && (value === undefined || value === null);
+  const omitted = reviewOnCompletion === undefined || reviewOnCompletion === null;
+
+  if (!inherit(maxAttempts) && !(Number.isInteger(maxAttempts) && (maxAttempts as number) >= 0)) {
+    return { error: 'maxAttempts must be a whole number (0 for unlimited)' };
+  }
+  if (!inherit(newAttemptOnCompletion) && typeof newAttemptOnCompletion !== 'boolean') {
+    return { error: 'newAttemptOnCompletion must be true or false' };
+  }
+  if (!omitted && typeof reviewOnCompletion !== 'boolean') {
+    return { error: 'reviewOnCompletion must be true or false' };
+  }
+  if (!inherit(gradeSelection) && !GRADE_SELECTIONS.includes(gradeSelection as GradeSelection)) {
+    return { error: `gradeSelection must be one of: ${GRADE_SELECTIONS.join(', ')}` };
+  }
+
+  return {
+    maxAttempts: inherit(maxAttempts) ? null : (maxAttempts as number),
+    newAttemptOnCompletion: inherit(newAttemptOnCompletion) ? null : (newAttemptOnCompletion as boolean),
+    reviewOnCompletion: omitted ? null : (reviewOnCompletion as boolean),
+    gradeSelection: inherit(gradeSelection) ? null : (gradeSelection as GradeSelection),
+  };
+}
+
+/**
+ * Reads an optional date query parameter: undefined when absent, null when
+ * invalid. A bare date used as an upper bound covers that whole day.
+ */
+function parseDateFilter(value: unknown, endOfRange: boolean): Date | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+
+  if (endOfRange && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
 // === Legacy routes (for backwards compatibility) ===
 // These redirect to the new /api/ prefixed routes
 
@@ -1167,6 +2013,7 @@ function getDashboardPage(): string {
     .badge-success { background: #d4edda; color: #155724; }
     .badge-warning { background: #fff3cd; color: #856404; }
     .badge-info { background: #cce5ff; color: #004085; }
+    .badge-danger { background: #f8d7da; color: #721c24; }
     .modal {
       display: none;
       position: fixed;
@@ -1258,6 +2105,9 @@ function getDashboardPage(): string {
       <button class="tab" data-panel="courses">Courses</button>
       <button class="tab" data-panel="suites">Suites</button>
       <button class="tab" data-panel="launches">Launch History</button>
+      <button class="tab" data-panel="learners">Learners</button>
+      <button class="tab" data-panel="items">Item Analysis</button>
+      <button class="tab" data-panel="passback">Grade Passback</button>
       <button class="tab" data-panel="settings">Settings</button>
     </div>
 
@@ -1310,13 +2160,14 @@ function getDashboardPage(): string {
               <tr>
                 <th>Name</th>
                 <th>Consumer Key</th>
+                <th>Learner Privacy</th>
                 <th>Status</th>
                 <th>Created</th>
                 <th>Actions</th>
               </tr>
             </thead>
             <tbody id="consumers-table">
-              <tr><td colspan="5" class="empty-state">Loading...</td></tr>
+              <tr><td colspan="6" class="empty-state">Loading...</td></tr>
             </tbody>
           </table>
         </div>
@@ -1369,10 +2220,124 @@ function getDashboardPage(): string {
                 <th>Status</th>
                 <th>Score</th>
                 <th>Date</th>
+                <th>Actions</th>
               </tr>
             </thead>
             <tbody id="launches-table">
-              <tr><td colspan="6" class="empty-state">Loading...</td></tr>
+              <tr><td colspan="7" class="empty-state">Loading...</td></tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+
+    <!-- Learners Panel -->
+    <div id="learners" class="panel">
+      <div class="card">
+        <div class="card-header">
+          <h2>Learners</h2>
+          <div style="display: flex; gap: 8px;">
+            <select id="learners-consumer" onchange="loadLearners()" style="padding: 8px 12px; border: 2px solid #e0e0e0; border-radius: 8px;">
+              <option value="">All consumers</option>
+            </select>
+            <button class="btn btn-secondary" onclick="loadLearners()">Refresh</button>
+          </div>
+        </div>
+        <div class="card-body">
+          <p style="color: #666; margin-bottom: 16px;">Names and email are kept only as far as each consumer's learner privacy setting allows.</p>
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Email</th>
+                <th>LMS User ID</th>
+                <th>Roles</th>
+                <th>Consumer</th>
+                <th>Launches</th>
+                <th>Last Seen</th>
+              </tr>
+            </thead>
+            <tbody id="learners-table">
+              <tr><td colspan="7" class="empty-state">Loading...</td></tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+
+    <!-- Item Analysis Panel -->
+    <div id="items" class="panel">
+      <div class="card">
+        <div class="card-header">
+          <h2>Item Analysis</h2>
+          <div style="display: flex; gap: 8px; flex-wrap: wrap;">
+            <select id="items-course" onchange="loadItemAnalysis()" style="padding: 8px 12px; border: 2px solid #e0e0e0; border-radius: 8px;">
+              <option value="">Select a course...</option>
+            </select>
+            <select id="items-consumer" onchange="loadItemAnalysis()" style="padding: 8px 12px; border: 2px solid #e0e0e0; border-radius: 8px;">
+              <option value="">All consumers</option>
+            </select>
+            <input type="date" id="items-from" onchange="loadItemAnalysis()" title="From" style="padding: 8px 12px; border: 2px solid #e0e0e0; border-radius: 8px;">
+            <input type="date" id="items-to" onchange="loadItemAnalysis()" title="To" style="padding: 8px 12px; border: 2px solid #e0e0e0; border-radius: 8px;">
+            <button class="btn btn-secondary" onclick="exportItemAnalysis()">Export CSV</button>
+          </div>
+        </div>
+        <div class="card-body">
+          <p style="color: #666; margin-bottom: 16px;">Question-level results from the interactions SCOs report. Discrimination compares the top and bottom 27% of attempts by score: values near 1 separate strong from weak learners, values at or below 0 suggest a flawed question.</p>
+          <table>
+            <thead>
+              <tr>
+                <th>Question</th>
+                <th>Type</th>
+                <th>Attempts</th>
+                <th>Learners</th>
+                <th>% Correct</th>
+                <th>Avg Latency</th>
+                <th>Discrimination</th>
+                <th>Responses</th>
+              </tr>
+            </thead>
+            <tbody id="items-table">
+              <tr><td colspan="8" class="empty-state">Select a course</td></tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+
+    <!-- Grade Passback Panel -->
+    <div id="passback" class="panel">
+      <div class="card">
+        <div class="card-header">
+          <h2>Grade Passback Deliveries</h2>
+          <div style="display: flex; gap: 8px;">
+            <select id="passback-status" onchange="loadPassback()" style="padding: 8px 12px; border: 2px solid #e0e0e0; border-radius: 8px;">
+              <option value="failed">Failed</option>
+              <option value="dead">Dead-lettered</option>
+              <option value="pending">Pending</option>
+              <option value="delivered">Delivered</option>
+            </select>
+            <button class="btn btn-secondary" onclick="retryDeadDeliveries()">Retry All Dead</button>
+            <button class="btn btn-secondary" onclick="loadPassback()">Refresh</button>
+          </div>
+        </div>
+        <div class="card-body">
+          <p style="color: #666; margin-bottom: 16px;">Grades and xAPI statements are delivered through a persistent outbox and retried with exponential backoff. Deliveries that keep failing are dead-lettered until retried here.</p>
+          <table>
+            <thead>
+              <tr>
+                <th>User</th>
+                <th>Course</th>
+                <th>Type</th>
+                <th>Status</th>
+                <th>Tries</th>
+                <th>Last Error</th>
+                <th>Updated</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody id="passback-table">
+              <tr><td colspan="8" class="empty-state">Loading...</td></tr>
             </tbody>
           </table>
         </div>
@@ -1502,21 +2467,82 @@ function getDashboardPage(): string {
     </div>
   </div>
 
-  <!-- Upload Course Modal -->
-  <div id="uploadCourseModal" class="modal">
-    <div class="modal-content">
-      <h2>Upload SCORM Course</h2>
-      <form id="uploadCourseForm" enctype="multipart/form-data">
-        <div class="form-group">
-          <label>Course Title (optional)</label>
-          <input type="text" name="title" placeholder="Leave blank to use title from manifest">
+  <!-- LTI 1.3 Platforms Modal -->
+  <div id="platformsModal" class="modal">
+    <div class="modal-content" style="max-width: 700px;">
+      <h2>LTI 1.3 Platforms</h2>
+      <input type="hidden" id="platforms-consumer-id">
+      <p style="margin-bottom: 16px; color: #666;">Register these tool URLs in the LMS, then add the platform details it gives you:</p>
+      <div class="credentials-box" style="margin-bottom: 24px;">
+        <div class="credential-row">
+          <label>Login URL</label>
+          <div><code id="lti13-login-url"></code> <button class="copy-btn" onclick="copyToClipboard('lti13-login-url')">Copy</button></div>
         </div>
-        <div class="form-group">
-          <label>SCORM Package *</label>
-          <input type="file" name="package" accept=".zip" required>
+        <div class="credential-row">
+          <label>Launch URL</label>
+          <div><code id="lti13-launch-url"></code> <button class="copy-btn" onclick="copyToClipboard('lti13-launch-url')">Copy</button></div>
+        </div>
+        <div class="credential-row">
+          <label>JWKS URL</label>
+          <div><code id="lti13-jwks-url"></code> <button class="copy-btn" onclick="copyToClipboard('lti13-jwks-url')">Copy</button></div>
+        </div>
+      </div>
+
+      <h3 style="font-size: 14px; color: #666; margin-bottom: 12px;">Registered Platforms</h3>
+      <div id="platforms-list" style="border: 1px solid #e0e0e0; border-radius: 8px; margin-bottom: 24px;">
+        <div class="empty-state" style="padding: 24px;">No platforms registered</div>
+      </div>
+
+      <h3 style="font-size: 14px; color: #666; margin-bottom: 12px;">Add Platform</h3>
+      <form id="createPlatformForm">
+        <div class="form-group">
+          <label>Issuer *</label>
+          <input type="url" name="issuer" required placeholder="https://canvas.instructure.com">
+        </div>
+        <div class="form-group">
+          <label>Client ID *</label>
+          <input type="text" name="client_id" required>
+        </div>
+        <div class="form-group">
+          <label>Deployment ID (optional)</label>
+          <input type="text" name="deployment_id" placeholder="Leave blank to accept any deployment">
+        </div>
+        <div class="form-group">
+          <label>Authentication Request URL *</label>
+          <input type="url" name="auth_login_url" required>
+        </div>
+        <div class="form-group">
+          <label>Access Token URL (optional)</label>
+          <input type="url" name="auth_token_url">
+        </div>
+        <div class="form-group">
+          <label>Platform JWKS URL *</label>
+          <input type="url" name="jwks_url" required>
+        </div>
+        <div class="form-actions">
+          <button type="button" class="btn btn-secondary" onclick="closeModal('platformsModal')">Close</button>
+          <button type="submit" class="btn btn-primary">Add Platform</button>
+        </div>
+      </form>
+    </div>
+  </div>
+
+  <!-- Upload Course Modal -->
+  <div id="uploadCourseModal" class="modal">
+    <div class="modal-content">
+      <h2>Upload SCORM Course</h2>
+      <form id="uploadCourseForm" enctype="multipart/form-data">
+        <div class="form-group">
+          <label>Course Title (optional)</label>
+          <input type="text" name="title" placeholder="Leave blank to use title from manifest">
+        </div>
+        <div class="form-group">
+          <label>SCORM Package *</label>
+          <input type="file" name="package" accept=".zip" required>
         </div>
         <div class="form-actions">
           <button type="button" class="btn btn-secondary" onclick="closeModal('uploadCourseModal')">Cancel</button>
+          <button type="button" class="btn btn-secondary" onclick="validateUpload()">Validate</button>
           <button type="submit" class="btn btn-primary">Upload</button>
         </div>
       </form>
@@ -1590,6 +2616,94 @@ function getDashboardPage(): string {
     </div>
   </div>
 
+  <!-- SCO Roll-up Modal -->
+  <div id="rollupModal" class="modal">
+    <div class="modal-content">
+      <h2>SCO Roll-up</h2>
+      <p style="margin-bottom: 16px; color: #666;">How the SCO results in <strong id="rollup-course-title"></strong> combine into the score sent to the LMS.</p>
+      <form id="rollupForm">
+        <input type="hidden" id="rollup-course-id">
+        <div class="form-group">
+          <label>Method</label>
+          <select id="rollup-method" onchange="toggleRollupWeights()">
+            <option value="average">Average of SCO scores</option>
+            <option value="all_complete">All SCOs complete</option>
+            <option value="weighted">Weighted SCO scores</option>
+          </select>
+        </div>
+        <div id="rollup-weights" class="form-group"></div>
+        <div class="form-actions">
+          <button type="button" class="btn btn-secondary" onclick="closeModal('rollupModal')">Cancel</button>
+          <button type="submit" class="btn btn-primary">Save</button>
+        </div>
+      </form>
+    </div>
+  </div>
+
+  <!-- Attempt Policy Modal -->
+  <div id="attemptPolicyModal" class="modal">
+    <div class="modal-content" style="max-width: 760px;">
+      <h2>Attempt Policy</h2>
+      <p style="margin-bottom: 16px; color: #666;">How many attempts learners get at <strong id="policy-course-title"></strong> and which attempt's score is sent to the LMS.</p>
+      <form id="attemptPolicyForm">
+        <input type="hidden" id="policy-course-id">
+        <div class="form-group">
+          <label>Maximum attempts (0 for unlimited)</label>
+          <input type="number" id="policy-max-attempts" min="0" step="1" required>
+        </div>
+        <div class="form-group">
+          <label style="display: flex; align-items: center; gap: 8px; font-weight: normal;">
+            <input type="checkbox" id="policy-new-on-completion" style="width: auto;">
+            Start a new attempt when the learner relaunches a completed attempt
+          </label>
+        </div>
+        <div class="form-group">
+          <label style="display: flex; align-items: center; gap: 8px; font-weight: normal;">
+            <input type="checkbox" id="policy-review-on-completion" style="width: auto;">
+            Otherwise reopen completed attempts, and the last attempt once the limit is reached, read-only in review mode
+          </label>
+        </div>
+        <div class="form-group">
+          <label>Grade sent to the LMS</label>
+          <select id="policy-grade-selection">
+            <option value="latest">Latest attempt</option>
+            <option value="highest">Highest score</option>
+            <option value="first_passing">First passing attempt</option>
+            <option value="average">Average of attempts</option>
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Attempts are shared across</label>
+          <select id="policy-attempt-scope">
+            <option value="resource_link">Each LMS link separately</option>
+            <option value="context">All links in the same LMS course</option>
+            <option value="consumer">All launches from the same LMS</option>
+          </select>
+        </div>
+        <div class="form-actions">
+          <button type="button" class="btn btn-secondary" onclick="closeModal('attemptPolicyModal')">Close</button>
+          <button type="submit" class="btn btn-primary">Save</button>
+        </div>
+      </form>
+
+      <h3 style="margin: 24px 0 8px;">Resource link overrides</h3>
+      <p style="margin-bottom: 12px; color: #666;">Links in consumers' LMSs that have launched this course. Blank fields use the course policy.</p>
+      <table>
+        <thead>
+          <tr>
+            <th>Link</th>
+            <th>Max</th>
+            <th>New on completion</th>
+            <th>Review</th>
+            <th>Grade</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody id="policy-links-table"></tbody>
+      </table>
+    </div>
+  </div>
+
   <!-- Create Suite Modal -->
   <div id="createSuiteModal" class="modal">
     <div class="modal-content">
@@ -1677,6 +2791,9 @@ function getDashboardPage(): string {
     loadConsumers();
     loadCourses();
     loadLaunches();
+    loadLearners();
+    loadItemAnalysisFilters();
+    loadPassback();
     loadSuites();
     loadSettings();
 
@@ -1699,8 +2816,14 @@ function getDashboardPage(): string {
         const consumers = await res.json();
         const tbody = document.getElementById('consumers-table');
 
+        const learnersFilter = document.getElementById('learners-consumer');
+        const selectedConsumer = learnersFilter.value;
+        learnersFilter.innerHTML = '<option value="">All consumers</option>' +
+          consumers.map(c => \`<option value="\${c.id}">\${escapeHtml(c.name)}</option>\`).join('');
+        learnersFilter.value = selectedConsumer;
+
         if (consumers.length === 0) {
-          tbody.innerHTML = '<tr><td colspan="5" class="empty-state"><h3>No consumers yet</h3><p>Add your first consumer to get started</p></td></tr>';
+          tbody.innerHTML = '<tr><td colspan="6" class="empty-state"><h3>No consumers yet</h3><p>Add your first consumer to get started</p></td></tr>';
           return;
         }
 
@@ -1708,10 +2831,16 @@ function getDashboardPage(): string {
           <tr>
             <td><strong>\${escapeHtml(c.name)}</strong></td>
             <td><code>\${c.lti_consumer_key}</code></td>
+            <td>
+              <select onchange="setPrivacyLevel('\${c.id}', this)" style="padding: 4px 8px; border: 2px solid #e0e0e0; border-radius: 6px;">
+                \${Object.keys(privacyLevelLabels).map(level => \`<option value="\${level}" \${(c.privacy_level || 'public') === level ? 'selected' : ''}>\${privacyLevelLabels[level]}</option>\`).join('')}
+              </select>
+            </td>
             <td><span class="badge \${c.active ? 'badge-success' : 'badge-warning'}">\${c.active ? 'Active' : 'Inactive'}</span></td>
             <td>\${new Date(c.created_at).toLocaleDateString()}</td>
             <td>
               <button class="btn btn-sm btn-secondary" onclick="showCredentials('\${c.id}')">Credentials</button>
+              <button class="btn btn-sm btn-secondary" onclick="showPlatformsModal('\${c.id}')">LTI 1.3</button>
               <button class="btn btn-sm btn-danger" onclick="deleteConsumer('\${c.id}')">Delete</button>
             </td>
           </tr>
@@ -1721,6 +2850,42 @@ function getDashboardPage(): string {
       }
     }
 
+    const privacyLevelLabels = {
+      anonymous: 'Anonymous',
+      name_only: 'Name only',
+      email_only: 'Email only',
+      public: 'Name and email'
+    };
+
+    async function setPrivacyLevel(consumerId, select) {
+      const previous = Array.from(select.options).find(o => o.defaultSelected)?.value || 'public';
+      const kept = { anonymous: [], name_only: ['name'], email_only: ['email'], public: ['name', 'email'] };
+      const drops = kept[previous].some(field => !kept[select.value].includes(field));
+      if (drops && !confirm('Stored learner details this level does not allow will be deleted. Continue?')) {
+        select.value = previous;
+        return;
+      }
+
+      try {
+        const res = await fetch('/admin/api/consumers/' + consumerId + '/privacy', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ privacyLevel: select.value })
+        });
+
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Save failed');
+        }
+
+        loadConsumers();
+        loadLearners();
+      } catch (e) {
+        select.value = previous;
+        alert('Failed to update privacy level: ' + e.message);
+      }
+    }
+
     async function loadCourses() {
       try {
         const res = await fetch('/admin/api/courses');
@@ -1735,12 +2900,16 @@ function getDashboardPage(): string {
         tbody.innerHTML = courses.map(c => \`
           <tr>
             <td><strong>\${escapeHtml(c.title)}</strong></td>
-            <td><span class="badge badge-info">SCORM \${c.scorm_version}</span></td>
+            <td><span class="badge badge-info">SCORM \${escapeHtml(c.scorm_edition || c.scorm_version)}</span></td>
             <td><span class="badge \${c.active ? 'badge-success' : 'badge-warning'}">\${c.active ? 'Active' : 'Inactive'}</span></td>
             <td>\${new Date(c.created_at).toLocaleDateString()}</td>
             <td>
+              <button class="btn btn-sm btn-secondary" onclick="previewCourse('\${c.id}')">Preview</button>
               <button class="btn btn-sm btn-secondary" onclick="showReplaceModal('\${c.id}', '\${escapeHtml(c.title).replace(/'/g, "\\\\'")}')">Replace</button>
               <button class="btn btn-sm btn-secondary" onclick="showDispatchModal('\${c.id}')">Dispatch</button>
+              <button class="btn btn-sm btn-secondary" onclick="showItemAnalysis('\${c.id}')">Items</button>
+              <button class="btn btn-sm btn-secondary" onclick="showAttemptPolicyModal('\${c.id}')">Attempts</button>
+              \${c.scorm_version === '1.2' ? \`<button class="btn btn-sm btn-secondary" onclick="showRollupModal('\${c.id}')">Roll-up</button>\` : ''}
               <button class="btn btn-sm btn-danger" onclick="deleteCourse('\${c.id}')">Delete</button>
             </td>
           </tr>
@@ -1757,18 +2926,31 @@ function getDashboardPage(): string {
         const tbody = document.getElementById('launches-table');
 
         if (launches.length === 0) {
-          tbody.innerHTML = '<tr><td colspan="6" class="empty-state"><h3>No launches yet</h3><p>Launches will appear here when users access content</p></td></tr>';
+          tbody.innerHTML = '<tr><td colspan="7" class="empty-state"><h3>No launches yet</h3><p>Launches will appear here when users access content</p></td></tr>';
           return;
         }
 
         tbody.innerHTML = launches.map(l => \`
           <tr>
-            <td>\${escapeHtml(l.user_id)}</td>
+            <td>
+              \${l.learner_name ? \`<strong>\${escapeHtml(l.learner_name)}</strong><br>\` : ''}
+              <span style="color: #666;">\${escapeHtml(l.email || l.user_id)}</span>
+            </td>
             <td>\${escapeHtml(l.course_title)}</td>
             <td>\${escapeHtml(l.consumer_name || 'N/A')}</td>
-            <td><span class="badge \${l.completion_status === 'completed' ? 'badge-success' : 'badge-warning'}">\${l.completion_status || 'In Progress'}</span></td>
+            <td>
+              <span class="badge \${l.completion_status === 'completed' ? 'badge-success' : 'badge-warning'}">\${l.completion_status || 'In Progress'}</span>
+              \${l.lesson_mode && l.lesson_mode !== 'normal' ? \`<span class="badge badge-info">\${l.lesson_mode}</span>\` : ''}
+              \${l.preview ? '<span class="badge badge-info">preview</span>' : ''}
+            </td>
             <td>\${l.score !== null ? l.score + '%' : '-'}</td>
             <td>\${new Date(l.created_at).toLocaleString()}</td>
+            <td>
+              \${l.attempt_id && l.lesson_mode === 'normal' && !l.preview ? \`
+                <button class="btn btn-sm btn-secondary" onclick="resyncAttempt('\${l.attempt_id}')">Resync Grade</button>
+                <button class="btn btn-sm btn-secondary" onclick="reviewAttempt('\${l.attempt_id}')">Review</button>
+              \` : ''}
+            </td>
           </tr>
         \`).join('');
       } catch (e) {
@@ -1776,6 +2958,223 @@ function getDashboardPage(): string {
       }
     }
 
+    async function loadLearners() {
+      try {
+        const consumerId = document.getElementById('learners-consumer').value;
+        const res = await fetch('/admin/api/learners?limit=200' + (consumerId ? '&consumerId=' + consumerId : ''));
+        const learners = await res.json();
+        const tbody = document.getElementById('learners-table');
+
+        if (learners.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="7" class="empty-state"><h3>No learners yet</h3><p>Learners appear here after their first launch</p></td></tr>';
+          return;
+        }
+
+        tbody.innerHTML = learners.map(l => \`
+          <tr>
+            <td>\${l.name ? \`<strong>\${escapeHtml(l.name)}</strong>\` : '<span style="color: #999;">Not shared</span>'}</td>
+            <td>\${l.email ? escapeHtml(l.email) : '<span style="color: #999;">Not shared</span>'}</td>
+            <td><code>\${escapeHtml(l.user_id)}</code></td>
+            <td>\${(l.roles || []).map(role => \`<span class="badge badge-info">\${escapeHtml(shortRole(role))}</span>\`).join(' ')}</td>
+            <td>\${escapeHtml(l.consumer_name || 'N/A')}</td>
+            <td>\${l.launches}</td>
+            <td>\${new Date(l.last_seen_at).toLocaleString()}</td>
+          </tr>
+        \`).join('');
+      } catch (e) {
+        console.error('Failed to load learners:', e);
+      }
+    }
+
+    // LTI roles are URNs or URLs such as ...lis/v2/membership#Instructor; show the last part
+    function shortRole(role) {
+      return role.split(/[#\\/:]/).pop() || role;
+    }
+
+    // === Item Analysis Functions ===
+
+    async function loadItemAnalysisFilters() {
+      try {
+        const [coursesRes, consumersRes] = await Promise.all([
+          fetch('/admin/api/courses'),
+          fetch('/admin/api/consumers')
+        ]);
+        const courses = await coursesRes.json();
+        const consumers = await consumersRes.json();
+
+        document.getElementById('items-course').innerHTML = '<option value="">Select a course...</option>' +
+          courses.map(c => \`<option value="\${c.id}">\${escapeHtml(c.title)}</option>\`).join('');
+        document.getElementById('items-consumer').innerHTML = '<option value="">All consumers</option>' +
+          consumers.map(c => \`<option value="\${c.id}">\${escapeHtml(c.name)}</option>\`).join('');
+      } catch (e) {
+        console.error('Failed to load item analysis filters:', e);
+      }
+    }
+
+    function itemAnalysisUrl(format) {
+      const params = new URLSearchParams();
+      const consumerId = document.getElementById('items-consumer').value;
+      const from = document.getElementById('items-from').value;
+      const to = document.getElementById('items-to').value;
+      if (consumerId) params.set('consumerId', consumerId);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      if (format) params.set('format', format);
+
+      const courseId = document.getElementById('items-course').value;
+      return '/admin/api/courses/' + courseId + '/item-analysis?' + params.toString();
+    }
+
+    async function loadItemAnalysis() {
+      const tbody = document.getElementById('items-table');
+      if (!document.getElementById('items-course').value) {
+        tbody.innerHTML = '<tr><td colspan="8" class="empty-state">Select a course</td></tr>';
+        return;
+      }
+
+      try {
+        const res = await fetch(itemAnalysisUrl());
+        const items = await res.json();
+        if (!res.ok) throw new Error(items.error || 'Request failed');
+
+        if (items.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="8" class="empty-state"><h3>No interactions</h3><p>No learner interactions match these filters</p></td></tr>';
+          return;
+        }
+
+        const format = (value, digits, suffix) => value === null ? '-' : value.toFixed(digits) + (suffix || '');
+        tbody.innerHTML = items.map(item => \`
+          <tr>
+            <td><strong>\${escapeHtml(item.interactionId)}</strong>\${item.description ? '<br><small>' + escapeHtml(item.description) + '</small>' : ''}<br><small style="color: #666;">\${escapeHtml(item.activityId)}</small></td>
+            <td>\${escapeHtml(item.type || '-')}</td>
+            <td>\${item.attempts}</td>
+            <td>\${item.learners}</td>
+            <td>\${format(item.percentCorrect, 1, '%')}</td>
+            <td>\${format(item.averageLatencySeconds, 1, 's')}</td>
+            <td>\${format(item.discrimination, 2)}</td>
+            <td><small>\${item.responses.slice(0, 5).map(r => escapeHtml(r.response || '(blank)') + ' (' + r.count + ')').join('<br>')}\${item.responses.length > 5 ? '<br>...' : ''}</small></td>
+          </tr>
+        \`).join('');
+      } catch (e) {
+        console.error('Failed to load item analysis:', e);
+        tbody.innerHTML = '<tr><td colspan="8" class="empty-state">' + escapeHtml(e.message) + '</td></tr>';
+      }
+    }
+
+    function exportItemAnalysis() {
+      if (!document.getElementById('items-course').value) {
+        alert('Select a course first');
+        return;
+      }
+      window.location.href = itemAnalysisUrl('csv');
+    }
+
+    function showItemAnalysis(courseId) {
+      document.getElementById('items-course').value = courseId;
+      document.querySelector('.tab[data-panel="items"]').click();
+      loadItemAnalysis();
+    }
+
+    // === Grade Passback Functions ===
+
+    const deliveryKindLabels = {
+      lti_outcome: 'LTI 1.1 Outcome',
+      ags_score: 'LTI 1.3 AGS',
+      xapi_statement: 'xAPI'
+    };
+
+    async function loadPassback() {
+      try {
+        const status = document.getElementById('passback-status').value;
+        const res = await fetch('/admin/api/passback?status=' + status);
+        const deliveries = await res.json();
+        const tbody = document.getElementById('passback-table');
+
+        if (deliveries.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="8" class="empty-state"><h3>Nothing here</h3><p>No deliveries match this filter</p></td></tr>';
+          return;
+        }
+
+        tbody.innerHTML = deliveries.map(d => \`
+          <tr>
+            <td>\${escapeHtml(d.user_id)}</td>
+            <td>\${escapeHtml(d.course_title)}</td>
+            <td>\${deliveryKindLabels[d.kind] || escapeHtml(d.kind)}</td>
+            <td><span class="badge \${d.status === 'delivered' ? 'badge-success' : d.status === 'dead' ? 'badge-danger' : 'badge-warning'}">\${d.status}</span></td>
+            <td>\${d.attempts}</td>
+            <td><small>\${escapeHtml(d.last_error || '')}</small></td>
+            <td>\${new Date(d.updated_at).toLocaleString()}</td>
+            <td>
+              \${d.status !== 'delivered' ? \`<button class="btn btn-sm btn-secondary" onclick="retryDelivery('\${d.id}')">Retry</button>\` : ''}
+              <button class="btn btn-sm btn-secondary" onclick="resyncAttempt('\${d.attempt_id}')">Resync</button>
+            </td>
+          </tr>
+        \`).join('');
+      } catch (e) {
+        console.error('Failed to load passback deliveries:', e);
+      }
+    }
+
+    async function retryDelivery(id) {
+      try {
+        const res = await fetch('/admin/api/passback/' + id + '/retry', { method: 'POST' });
+        if (!res.ok) throw new Error('Retry failed');
+        loadPassback();
+      } catch (e) {
+        alert('Failed to retry delivery: ' + e.message);
+      }
+    }
+
+    async function retryDeadDeliveries() {
+      if (!confirm('Retry all dead-lettered deliveries?')) return;
+
+      try {
+        const res = await fetch('/admin/api/passback/retry-dead', { method: 'POST' });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Retry failed');
+        alert('Queued ' + data.retried + ' deliveries for retry');
+        loadPassback();
+      } catch (e) {
+        alert('Failed to retry deliveries: ' + e.message);
+      }
+    }
+
+    async function resyncAttempt(attemptId) {
+      try {
+        const res = await fetch('/admin/api/attempts/' + attemptId + '/resync', { method: 'POST' });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Resync failed');
+        alert(data.queued > 0 ? 'Grade resync queued' : 'This attempt has nothing to pass back');
+        loadPassback();
+      } catch (e) {
+        alert('Failed to resync grade: ' + e.message);
+      }
+    }
+
+    // Preview and review open the player in a new tab. The tab is opened
+    // before the request so popup blockers treat it as a click.
+    async function openPlayer(url, action) {
+      const tab = window.open('', '_blank');
+      try {
+        const res = await fetch(url, { method: 'POST' });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Request failed');
+        if (tab) tab.location = data.url;
+        else window.location = data.url;
+      } catch (e) {
+        if (tab) tab.close();
+        alert('Failed to ' + action + ': ' + e.message);
+      }
+    }
+
+    function previewCourse(courseId) {
+      openPlayer('/admin/api/courses/' + courseId + '/preview', 'start preview');
+    }
+
+    function reviewAttempt(attemptId) {
+      openPlayer('/admin/api/attempts/' + attemptId + '/review', 'open review');
+    }
+
     // Modal functions
     function showCreateConsumerModal() {
       document.getElementById('createConsumerForm').reset();
@@ -1800,6 +3199,79 @@ function getDashboardPage(): string {
       }
     }
 
+    async function showPlatformsModal(consumerId) {
+      try {
+        const res = await fetch('/admin/api/consumers/' + consumerId);
+        const consumer = await res.json();
+        document.getElementById('platforms-consumer-id').value = consumerId;
+        document.getElementById('lti13-login-url').textContent = consumer.lti13_login_url;
+        document.getElementById('lti13-launch-url').textContent = consumer.lti13_launch_url;
+        document.getElementById('lti13-jwks-url').textContent = consumer.lti13_jwks_url;
+        document.getElementById('createPlatformForm').reset();
+        await loadPlatforms(consumerId);
+        document.getElementById('platformsModal').classList.add('active');
+      } catch (e) {
+        alert('Failed to load LTI 1.3 settings');
+      }
+    }
+
+    async function loadPlatforms(consumerId) {
+      const res = await fetch('/admin/api/consumers/' + consumerId + '/platforms');
+      const platforms = await res.json();
+      const container = document.getElementById('platforms-list');
+
+      if (platforms.length === 0) {
+        container.innerHTML = '<div class="empty-state" style="padding: 24px;">No platforms registered</div>';
+        return;
+      }
+
+      container.innerHTML = platforms.map(p => \`
+        <div style="display: flex; align-items: center; padding: 12px 16px; border-bottom: 1px solid #eee;">
+          <span style="flex: 1;">
+            <strong>\${escapeHtml(p.issuer)}</strong><br>
+            <small style="color:#666">Client ID: \${escapeHtml(p.client_id)}\${p.deployment_id ? ' · Deployment: ' + escapeHtml(p.deployment_id) : ''}</small>
+          </span>
+          <button class="btn btn-sm btn-danger" onclick="deletePlatform('\${consumerId}', '\${p.id}')">Remove</button>
+        </div>
+      \`).join('');
+    }
+
+    async function deletePlatform(consumerId, platformId) {
+      if (!confirm('Remove this platform registration?')) return;
+
+      try {
+        await fetch('/admin/api/platforms/' + platformId, { method: 'DELETE' });
+        await loadPlatforms(consumerId);
+      } catch (e) {
+        alert('Failed to remove platform');
+      }
+    }
+
+    document.getElementById('createPlatformForm').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const consumerId = document.getElementById('platforms-consumer-id').value;
+      const formData = new FormData(e.target);
+      const data = Object.fromEntries(formData.entries());
+
+      try {
+        const res = await fetch('/admin/api/consumers/' + consumerId + '/platforms', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(data)
+        });
+
+        if (!res.ok) {
+          const err = await res.json();
+          throw new Error(err.error || 'Failed to add platform');
+        }
+
+        e.target.reset();
+        await loadPlatforms(consumerId);
+      } catch (e) {
+        alert('Failed to add platform: ' + e.message);
+      }
+    });
+
     async function showDispatchModal(courseId) {
       document.getElementById('dispatch-course-id').value = courseId;
 
@@ -1813,6 +3285,199 @@ function getDashboardPage(): string {
       document.getElementById('dispatchModal').classList.add('active');
     }
 
+    async function showRollupModal(courseId) {
+      const res = await fetch('/admin/api/courses/' + courseId);
+      const course = await res.json();
+      const manifest = course.manifest_data || {};
+      const org = (manifest.organizations || []).find(o => o.identifier === manifest.defaultOrganization) ||
+        (manifest.organizations || [])[0];
+
+      // SCOs are the items that launch a resource
+      const scos = [];
+      const collect = (items) => (items || []).forEach(item => {
+        if (item.resourceId && (!item.items || item.items.length === 0)) scos.push(item);
+        collect(item.items);
+      });
+      collect(org ? org.items : []);
+
+      const weights = course.sco_rollup_weights || {};
+      document.getElementById('rollup-course-id').value = courseId;
+      document.getElementById('rollup-course-title').textContent = course.title;
+      document.getElementById('rollup-method').value = course.sco_rollup_method || 'average';
+      document.getElementById('rollup-weights').innerHTML = '<label>SCO weights</label>' + (scos.length === 0
+        ? '<p style="color: #666;">This package has no SCOs listed in its manifest.</p>'
+        : scos.map(sco => \`
+          <div style="display: flex; align-items: center; gap: 8px; margin-bottom: 6px;">
+            <span style="flex: 1;">\${escapeHtml(sco.title || sco.identifier)}</span>
+            <input type="number" min="0" step="any" style="width: 90px;" data-activity-id="\${escapeHtml(sco.identifier)}" value="\${weights[sco.identifier] ?? 1}">
+          </div>
+        \`).join(''));
+
+      toggleRollupWeights();
+      document.getElementById('rollupModal').classList.add('active');
+    }
+
+    function toggleRollupWeights() {
+      const weighted = document.getElementById('rollup-method').value === 'weighted';
+      document.getElementById('rollup-weights').style.display = weighted ? 'block' : 'none';
+    }
+
+    document.getElementById('rollupForm').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const courseId = document.getElementById('rollup-course-id').value;
+      const weights = {};
+      document.querySelectorAll('#rollup-weights input[data-activity-id]').forEach(input => {
+        weights[input.dataset.activityId] = input.value === '' ? 1 : Number(input.value);
+      });
+
+      try {
+        const res = await fetch('/admin/api/courses/' + courseId + '/rollup', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ method: document.getElementById('rollup-method').value, weights })
+        });
+
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Save failed');
+        }
+
+        closeModal('rollupModal');
+      } catch (e) {
+        alert('Failed to save roll-up: ' + e.message);
+      }
+    });
+
+    const gradeSelectionLabels = {
+      latest: 'Latest',
+      highest: 'Highest',
+      first_passing: 'First passing',
+      average: 'Average'
+    };
+
+    async function showAttemptPolicyModal(courseId) {
+      const res = await fetch('/admin/api/courses/' + courseId);
+      const course = await res.json();
+
+      document.getElementById('policy-course-id').value = courseId;
+      document.getElementById('policy-course-title').textContent = course.title;
+      document.getElementById('policy-max-attempts').value = course.max_attempts || 0;
+      document.getElementById('policy-new-on-completion').checked = !!course.new_attempt_on_completion;
+      document.getElementById('policy-review-on-completion').checked = !!course.review_on_completion;
+      document.getElementById('policy-grade-selection').value = course.grade_selection || 'latest';
+      document.getElementById('policy-attempt-scope').value = course.attempt_scope || 'resource_link';
+
+      await loadPolicyLinks(courseId);
+      document.getElementById('attemptPolicyModal').classList.add('active');
+    }
+
+    async function loadPolicyLinks(courseId) {
+      const tbody = document.getElementById('policy-links-table');
+      try {
+        const res = await fetch('/admin/api/courses/' + courseId + '/resource-links');
+        const links = await res.json();
+
+        if (links.length === 0) {
+          tbody.innerHTML = '<tr><td colspan="6" class="empty-state">No resource links have launched this course yet</td></tr>';
+          return;
+        }
+
+        const option = (value, label, current) =>
+          '<option value="' + value + '"' + (current === value ? ' selected' : '') + '>' + label + '</option>';
+
+        tbody.innerHTML = links.map(link => \`
+          <tr data-consumer-id="\${link.consumer_id}" data-resource-link-id="\${escapeHtml(link.resource_link_id).replace(/"/g, '&quot;')}">
+            <td><strong>\${escapeHtml(link.consumer_name || 'N/A')}</strong><br><small>\${escapeHtml(link.resource_link_id)}</small><br><small style="color: #666;">\${link.learners} learner\${link.learners === 1 ? '' : 's'}</small></td>
+            <td><input type="number" min="0" step="1" style="width: 70px;" class="link-max" value="\${link.max_attempts ?? ''}"></td>
+            <td>
+              <select class="link-new">
+                \${option('', 'Course default', link.new_attempt_on_completion === null ? '' : String(link.new_attempt_on_completion))}
+                \${option('true', 'Yes', String(link.new_attempt_on_completion))}
+                \${option('false', 'No', String(link.new_attempt_on_completion))}
+              </select>
+            </td>
+            <td>
+              <select class="link-review">
+                \${option('', 'Course default', link.review_on_completion === null ? '' : String(link.review_on_completion))}
+                \${option('true', 'Yes', String(link.review_on_completion))}
+                \${option('false', 'No', String(link.review_on_completion))}
+              </select>
+            </td>
+            <td>
+              <select class="link-grade">
+                \${option('', 'Course default', link.grade_selection || '')}
+                \${Object.keys(gradeSelectionLabels).map(key => option(key, gradeSelectionLabels[key], link.grade_selection)).join('')}
+              </select>
+            </td>
+            <td><button type="button" class="btn btn-sm btn-secondary" onclick="saveLinkPolicy(this)">Save</button></td>
+          </tr>
+        \`).join('');
+      } catch (e) {
+        console.error('Failed to load resource links:', e);
+      }
+    }
+
+    async function saveLinkPolicy(button) {
+      const row = button.closest('tr');
+      const courseId = document.getElementById('policy-course-id').value;
+      const maxAttempts = row.querySelector('.link-max').value;
+      const newOnCompletion = row.querySelector('.link-new').value;
+      const reviewOnCompletion = row.querySelector('.link-review').value;
+      const gradeSelection = row.querySelector('.link-grade').value;
+
+      try {
+        const res = await fetch('/admin/api/courses/' + courseId + '/resource-links/policy', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            consumerId: row.dataset.consumerId,
+            resourceLinkId: row.dataset.resourceLinkId,
+            maxAttempts: maxAttempts === '' ? null : Number(maxAttempts),
+            newAttemptOnCompletion: newOnCompletion === '' ? null : newOnCompletion === 'true',
+            reviewOnCompletion: reviewOnCompletion === '' ? null : reviewOnCompletion === 'true',
+            gradeSelection: gradeSelection || null
+          })
+        });
+
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Save failed');
+        }
+
+        loadPolicyLinks(courseId);
+      } catch (e) {
+        alert('Failed to save override: ' + e.message);
+      }
+    }
+
+    document.getElementById('attemptPolicyForm').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const courseId = document.getElementById('policy-course-id').value;
+
+      try {
+        const res = await fetch('/admin/api/courses/' + courseId + '/attempt-policy', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            maxAttempts: Number(document.getElementById('policy-max-attempts').value),
+            newAttemptOnCompletion: document.getElementById('policy-new-on-completion').checked,
+            reviewOnCompletion: document.getElementById('policy-review-on-completion').checked,
+            gradeSelection: document.getElementById('policy-grade-selection').value,
+            attemptScope: document.getElementById('policy-attempt-scope').value
+          })
+        });
+
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Save failed');
+        }
+
+        closeModal('attemptPolicyModal');
+      } catch (e) {
+        alert('Failed to save attempt policy: ' + e.message);
+      }
+    });
+
     function closeModal(modalId) {
       document.getElementById(modalId).classList.remove('active');
     }
@@ -1864,7 +3529,10 @@ function getDashboardPage(): string {
           body: formData
         });
 
-        if (!res.ok) throw new Error('Failed to upload course');
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error((data.error || 'Upload failed') + formatRejections(data.report) + formatFindings(data.validation));
+        }
 
         closeModal('uploadCourseModal');
         loadCourses();
@@ -1913,6 +3581,59 @@ function getDashboardPage(): string {
       }
     }
 
+    // Lists every problem in a package rejection report, one per line
+    function formatRejections(report) {
+      if (!report || !report.rejections || report.rejections.length < 2) return '';
+      return '\\n\\n' + report.rejections
+        .map(r => (r.entry ? r.entry + ': ' : '') + r.message)
+        .join('\\n');
+    }
+
+    function formatFindings(validation) {
+      if (!validation || !validation.findings || validation.findings.length < 2) return '';
+      return '\\n\\n' + validation.findings
+        .map(f => f.severity + ': ' + f.message)
+        .join('\\n');
+    }
+
+    async function validateUpload() {
+      const input = document.querySelector('#uploadCourseForm input[name="package"]');
+      if (!input.files.length) {
+        alert('Choose a SCORM package to validate');
+        return;
+      }
+
+      const formData = new FormData();
+      formData.append('package', input.files[0]);
+
+      try {
+        const res = await fetch('/admin/api/courses/validate', {
+          method: 'POST',
+          body: formData
+        });
+
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Validation failed');
+
+        if (!data.extraction.accepted) {
+          alert('Package rejected:\\n\\n' + data.extraction.rejections
+            .map(r => (r.entry ? r.entry + ': ' : '') + r.message)
+            .join('\\n'));
+          return;
+        }
+
+        const v = data.validation;
+        const errors = v.findings.filter(f => f.severity === 'error').length;
+        const warnings = v.findings.length - errors;
+        alert((v.valid ? 'Package is valid' : 'Package has ' + errors + ' error(s)') +
+          ' (SCORM ' + (v.edition || v.scormVersion) + ', ' + v.counts.scos + ' SCO(s), ' +
+          v.counts.files + ' files, ' + warnings + ' warning(s))' +
+          (v.findings.length ? '\\n\\n' + v.findings.map(f => f.severity + ': ' + f.message).join('\\n') : ''));
+      } catch (e) {
+        alert('Failed to validate package: ' + e.message);
+      }
+    }
+
     // === Bulk Upload Functions ===
 
     function showBulkUploadModal() {
@@ -1951,6 +3672,8 @@ function getDashboardPage(): string {
         resultsDiv.innerHTML = data.results.map(r =>
           \`<div style="padding: 4px 0; color: \${r.success ? '#155724' : '#721c24'};">
             \${r.success ? '✓' : '✗'} \${escapeHtml(r.filename)}\${r.success ? ' → ' + escapeHtml(r.title) : ' - ' + escapeHtml(r.error)}
+            \${r.report ? \`<pre style="margin: 4px 0 0 16px; white-space: pre-wrap;">\${escapeHtml(formatRejections(r.report).trim())}</pre>\` : ''}
+            \${!r.success && r.validation ? \`<pre style="margin: 4px 0 0 16px; white-space: pre-wrap;">\${escapeHtml(formatFindings(r.validation).trim())}</pre>\` : ''}
           </div>\`
         ).join('');
 
@@ -1985,7 +3708,7 @@ function getDashboardPage(): string {
 
         if (!res.ok) {
           const data = await res.json();
-          throw new Error(data.error || 'Replace failed');
+          throw new Error((data.error || 'Replace failed') + formatRejections(data.report) + formatFindings(data.validation));
         }
 
         closeModal('replaceCourseModal');
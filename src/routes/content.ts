@@ -0,0 +1,73 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import path from 'path';
+import { config } from '../config.js';
+import { query } from '../db/index.js';
+import { verifyContentToken } from '../services/content-access.js';
+import { requireAuth } from '../middleware/auth.js';
+
+export const contentRouter = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Upper bound on how long the browser reuses a signed response without asking
+const MAX_CACHE_SECONDS = 60 * 60;
+
+// Course files under a signed prefix from the runtime API: /content/s/:token/<file>
+contentRouter.use('/s/:token', (req: Request, res: Response, next: NextFunction) => {
+  let grant;
+  try {
+    grant = verifyContentToken(req.params.token as string);
+  } catch {
+    return res.status(403).send('This content link has expired. Relaunch the course to continue.');
+  }
+
+  const maxAge = Math.min(MAX_CACHE_SECONDS, grant.expiresAt - Math.floor(Date.now() / 1000));
+  serveCourseFiles(
+    path.join(config.content.dir, grant.directory),
+    `private, max-age=${Math.max(0, maxAge)}`,
+    req,
+    res,
+    next
+  );
+});
+
+// Admins can open any course's files directly, e.g. to check a package
+contentRouter.use('/:courseId', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const courseId = req.params.courseId as string;
+    const result = UUID_PATTERN.test(courseId)
+      ? await query<{ content_path: string }>('SELECT content_path FROM courses WHERE id = $1', [courseId])
+      : null;
+
+    if (!result || result.rows.length === 0) {
+      return res.status(404).send('Not found');
+    }
+
+    serveCourseFiles(result.rows[0].content_path, 'private, no-cache', req, res, next);
+  } catch (error) {
+    console.error('Admin content error:', error);
+    res.status(500).send('Failed to load content');
+  }
+});
+
+/**
+ * Serves a file from a course's content directory, so paths can't reach
+ * another course. ETag and Last-Modified come from express.static, and
+ * conditional requests get 304s. Missing files are a plain 404.
+ */
+function serveCourseFiles(
+  directory: string,
+  cacheControl: string,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  res.setHeader('Cache-Control', cacheControl);
+  // Files are served as the type their extension says, never sniffed
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  express.static(directory, { cacheControl: false })(req, res, (error?: unknown) => {
+    if (error) return next(error);
+    res.removeHeader('Cache-Control');
+    res.status(404).send('Not found');
+  });
+}
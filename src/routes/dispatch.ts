@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { config } from '../config.js';
 import { query } from '../db/index.js';
 import { v4 as uuidv4 } from 'uuid';
+import { upsertLearner } from '../services/learners.js';
+import { getPlayerUrl } from '../services/attempt-token.js';
 
 export const dispatchRouter = Router();
 
@@ -41,16 +43,18 @@ dispatchRouter.get('/launch/:token', async (req: Request, res: Response) => {
 
     // Create launch record for dispatch
     const launchId = uuidv4();
-    const userId = (user_id as string) || session_id || `dispatch_${uuidv4()}`;
+    const userId = (user_id as string) || (session_id as string) || `dispatch_${uuidv4()}`;
+    const learnerId = await upsertLearner(dispatchToken.consumer_id, { userId });
 
     await query(
-      `INSERT INTO launches (id, consumer_id, course_id, user_id, launch_data)
-       VALUES ($1, $2, $3, $4, $5)`,
+      `INSERT INTO launches (id, consumer_id, course_id, user_id, learner_id, launch_data)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
       [
         launchId,
         dispatchToken.consumer_id,
         dispatchToken.course_id,
         userId,
+        learnerId,
         JSON.stringify({ type: 'dispatch', token, query: req.query }),
       ]
     );
@@ -63,8 +67,8 @@ dispatchRouter.get('/launch/:token', async (req: Request, res: Response) => {
     );
 
     // Redirect to SCORM player
-    const playerUrl = `${config.baseUrl}/static/player.html?attemptId=${attemptId}&courseId=${dispatchToken.course_id}&mode=dispatch`;
-    res.redirect(playerUrl);
+    const playerUrl = await getPlayerUrl(attemptId, 'dispatch');
+    res.redirect(playerUrl as string);
   } catch (error) {
     console.error('Dispatch launch error:', error);
     res.status(500).send('Launch failed');
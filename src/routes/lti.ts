@@ -1,47 +1,70 @@
 import { Router, Request, Response } from 'express';
 import { config } from '../config.js';
 import { query } from '../db/index.js';
-import { validateLtiLaunch, LtiLaunchData } from '../services/lti-provider.js';
+import { LtiLaunchData } from '../services/lti-provider.js';
+import { verifyOAuthRequest } from '../services/oauth-verifier.js';
+import { startOrResumeAttempt, startLatestAttemptReview } from '../services/attempt-policy.js';
+import { upsertLearner, parseLtiRoles } from '../services/learners.js';
+import { startBrowseAttempt, parseLessonMode } from '../services/attempt-modes.js';
+import { getPlayerUrl } from '../services/attempt-token.js';
+import {
+  isInstructor,
+  createInstructorSession,
+  getInstructorSession,
+  getResourceLinkReport,
+  InstructorSession,
+  LearnerProgress,
+} from '../services/instructor-report.js';
+import {
+  buildOidcAuthRedirect,
+  validateLti13Launch,
+  getToolJwks,
+  LTI_CLAIMS,
+  OidcLoginParams,
+} from '../services/lti-advantage.js';
+import {
+  createContentItemRequest,
+  createDeepLinkingRequest,
+  getDeepLinkRequest,
+  searchPickerItems,
+  buildDeepLinkResponse,
+} from '../services/deep-linking.js';
 import { v4 as uuidv4 } from 'uuid';
 
 export const ltiRouter = Router();
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MISSING_COURSE_MESSAGE =
+  'This link is not configured with a course. Ask your instructor to select a course for it.';
+
+const INSTRUCTOR_SESSION_EXPIRED_MESSAGE =
+  'This report session has expired. Launch the link from your LMS again.';
+
 // LTI 1.1 Launch endpoint
 ltiRouter.post('/launch', async (req: Request, res: Response) => {
   try {
     const launchData = req.body as Record<string, string>;
 
-    // Get consumer key from launch
-    const consumerKey = launchData.oauth_consumer_key;
-    if (!consumerKey) {
-      return res.status(400).send('Missing oauth_consumer_key');
-    }
-
-    // Look up consumer
-    const consumerResult = await query<{
-      id: string;
-      lti_consumer_secret: string;
-    }>(
-      'SELECT id, lti_consumer_secret FROM consumers WHERE lti_consumer_key = $1 AND active = true',
-      [consumerKey]
-    );
+    // Validate OAuth signature, timestamp and nonce
+    const fullUrl = `${config.baseUrl}/lti/launch`;
+    const verification = await verifyOAuthRequest(launchData, fullUrl);
 
-    if (consumerResult.rows.length === 0) {
-      return res.status(401).send('Unknown consumer');
+    if (!verification.valid) {
+      const status = verification.reason === 'oauth_nonce_replayed' ? 409 : 401;
+      return sendLaunchError(res, status, verification.reason, verification.message);
     }
 
-    const consumer = consumerResult.rows[0];
-
-    // Validate OAuth signature
-    const fullUrl = `${config.baseUrl}/lti/launch`;
-    const isValid = validateLtiLaunch(
-      launchData,
-      consumer.lti_consumer_secret,
-      fullUrl
-    );
+    const { consumer } = verification;
 
-    if (!isValid) {
-      return res.status(401).send('Invalid OAuth signature');
+    // Content-Item course picker for older platforms
+    if (launchData.lti_message_type === 'ContentItemSelectionRequest') {
+      try {
+        const request = await createContentItemRequest(consumer.id, launchData);
+        return res.send(getPickerPage(request.id, request.accept_multiple));
+      } catch (error) {
+        return sendLaunchError(res, 400, 'content_item_request_invalid', error instanceof Error ? error.message : 'Invalid content item request');
+      }
     }
 
     // Extract LTI parameters
@@ -52,66 +75,185 @@ ltiRouter.post('/launch', async (req: Request, res: Response) => {
       lisOutcomeServiceUrl: launchData.lis_outcome_service_url,
       lisResultSourcedid: launchData.lis_result_sourcedid,
       customCourseId: launchData.custom_course_id,
+      customMode: launchData.custom_mode,
+      givenName: launchData.lis_person_name_given,
+      familyName: launchData.lis_person_name_family,
+      fullName: launchData.lis_person_name_full,
+      email: launchData.lis_person_contact_email_primary,
+      roles: parseLtiRoles(launchData.roles),
     };
 
-    // Get course (from custom parameter or default)
-    let courseId = ltiData.customCourseId;
-    if (!courseId) {
-      // Get first active course as default (for testing)
-      const courseResult = await query<{ id: string }>(
-        'SELECT id FROM courses WHERE active = true LIMIT 1'
-      );
-      if (courseResult.rows.length === 0) {
-        return res.status(404).send('No courses available');
+    if (!ltiData.customCourseId) {
+      return sendLaunchError(res, 400, 'course_id_missing', MISSING_COURSE_MESSAGE);
+    }
+
+    const launch = await launchCourse(consumer.id, ltiData.customCourseId, ltiData, launchData);
+    if ('error' in launch) {
+      return sendLaunchError(res, launch.status, launch.error, launch.message);
+    }
+
+    // Redirect to SCORM player
+    res.redirect(launch.redirectUrl);
+  } catch (error) {
+    console.error('LTI launch error:', error);
+    res.status(500).send('Launch failed');
+  }
+});
+
+// LTI 1.3 OIDC login initiation (platforms may use GET or POST)
+ltiRouter.all('/1.3/login', async (req: Request, res: Response) => {
+  try {
+    const params = (req.method === 'POST' ? req.body : req.query) as OidcLoginParams;
+    const redirectUrl = await buildOidcAuthRedirect(params);
+    res.redirect(redirectUrl);
+  } catch (error) {
+    console.error('LTI 1.3 login error:', error);
+    sendLaunchError(res, 400, 'oidc_login_invalid', error instanceof Error ? error.message : 'Login initiation failed');
+  }
+});
+
+// LTI 1.3 launch endpoint (id_token form post from the platform)
+ltiRouter.post('/1.3/launch', async (req: Request, res: Response) => {
+  const { id_token: idToken, state } = req.body as { id_token?: string; state?: string };
+
+  if (!idToken || !state) {
+    return sendLaunchError(res, 400, 'id_token_missing', 'Missing id_token or state');
+  }
+
+  let launch;
+  try {
+    launch = await validateLti13Launch(idToken, state);
+  } catch (error) {
+    console.error('LTI 1.3 token validation error:', error);
+    return sendLaunchError(res, 401, 'id_token_invalid', error instanceof Error ? error.message : 'Invalid id_token');
+  }
+
+  try {
+    const messageType = launch.claims[LTI_CLAIMS.messageType];
+
+    // Deep Linking course picker
+    if (messageType === 'LtiDeepLinkingRequest') {
+      try {
+        const request = await createDeepLinkingRequest(launch.platform, launch.claims);
+        return res.send(getPickerPage(request.id, request.accept_multiple));
+      } catch (error) {
+        return sendLaunchError(res, 400, 'deep_linking_request_invalid', error instanceof Error ? error.message : 'Invalid deep linking request');
       }
-      courseId = courseResult.rows[0].id;
-    }
-
-    // Create launch record
-    const launchId = uuidv4();
-    await query(
-      `INSERT INTO launches (id, consumer_id, course_id, user_id, context_id, resource_link_id,
-        lis_outcome_service_url, lis_result_sourcedid, launch_data)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [
-        launchId,
-        consumer.id,
-        courseId,
-        ltiData.userId,
-        ltiData.contextId,
-        ltiData.resourceLinkId,
-        ltiData.lisOutcomeServiceUrl,
-        ltiData.lisResultSourcedid,
-        JSON.stringify(launchData),
-      ]
-    );
+    }
+
+    if (messageType !== 'LtiResourceLinkRequest') {
+      return sendLaunchError(res, 400, 'message_type_unsupported', `Unsupported message type: ${messageType}`);
+    }
+
+    if (!launch.ltiData.customCourseId) {
+      return sendLaunchError(res, 400, 'course_id_missing', MISSING_COURSE_MESSAGE);
+    }
 
-    // Create or resume attempt
-    const existingAttempt = await query<{ id: string }>(
-      `SELECT a.id FROM attempts a
-       JOIN launches l ON a.launch_id = l.id
-       WHERE l.user_id = $1 AND l.course_id = $2 AND a.finished_at IS NULL
-       ORDER BY a.started_at DESC LIMIT 1`,
-      [ltiData.userId, courseId]
+    const result = await launchCourse(
+      launch.platform.consumer_id,
+      launch.ltiData.customCourseId,
+      launch.ltiData,
+      launch.claims,
+      launch.platform.id
     );
+    if ('error' in result) {
+      return sendLaunchError(res, result.status, result.error, result.message);
+    }
 
-    let attemptId: string;
-    if (existingAttempt.rows.length > 0) {
-      attemptId = existingAttempt.rows[0].id;
-    } else {
-      attemptId = uuidv4();
-      await query(
-        'INSERT INTO attempts (id, launch_id) VALUES ($1, $2)',
-        [attemptId, launchId]
+    res.redirect(result.redirectUrl);
+  } catch (error) {
+    console.error('LTI 1.3 launch error:', error);
+    res.status(500).send('Launch failed');
+  }
+});
+
+// LTI 1.3 tool public keys
+ltiRouter.get('/1.3/jwks', async (_req: Request, res: Response) => {
+  try {
+    res.json(await getToolJwks());
+  } catch (error) {
+    console.error('JWKS error:', error);
+    res.status(500).json({ error: 'Failed to load keys' });
+  }
+});
+
+// Course picker search (Deep Linking / Content-Item)
+ltiRouter.get('/deep-link/:requestId/items', async (req: Request, res: Response) => {
+  try {
+    const request = await getDeepLinkRequest(req.params.requestId as string);
+    if (!request) {
+      return res.status(404).json({ error: 'Selection request expired' });
+    }
+
+    const search = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    res.json(await searchPickerItems(search));
+  } catch (error) {
+    console.error('Picker search error:', error);
+    res.status(500).json({ error: 'Failed to search courses' });
+  }
+});
+
+// Course picker submission: returns the selection to the platform
+ltiRouter.post('/deep-link/:requestId', async (req: Request, res: Response) => {
+  try {
+    const request = await getDeepLinkRequest(req.params.requestId as string);
+    if (!request) {
+      return sendLaunchError(res, 404, 'deep_link_request_expired', 'Selection request expired. Please reopen the course picker.');
+    }
+
+    const toList = (value: unknown): string[] =>
+      (Array.isArray(value) ? value : value ? [value] : []).filter(
+        (v): v is string => typeof v === 'string' && UUID_PATTERN.test(v)
+      );
+
+    let response;
+    try {
+      response = await buildDeepLinkResponse(
+        request,
+        toList(req.body.courseIds),
+        toList(req.body.suiteIds)
       );
+    } catch (error) {
+      return sendLaunchError(res, 400, 'deep_link_selection_invalid', error instanceof Error ? error.message : 'Invalid selection');
     }
 
-    // Redirect to SCORM player
-    const playerUrl = `${config.baseUrl}/static/player.html?attemptId=${attemptId}&courseId=${courseId}`;
-    res.redirect(playerUrl);
+    res.send(getAutoSubmitPage(response.url, response.fields));
   } catch (error) {
-    console.error('LTI launch error:', error);
-    res.status(500).send('Launch failed');
+    console.error('Deep link response error:', error);
+    res.status(500).send('Failed to return selection');
+  }
+});
+
+// Instructor report for the resource link the instructor launched from
+ltiRouter.get('/instructor/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string;
+    const session = UUID_PATTERN.test(sessionId) ? await getInstructorSession(sessionId) : null;
+    if (!session) {
+      return sendLaunchError(res, 404, 'instructor_session_expired', INSTRUCTOR_SESSION_EXPIRED_MESSAGE);
+    }
+
+    res.send(getInstructorReportPage(session, await getResourceLinkReport(session)));
+  } catch (error) {
+    console.error('Instructor report error:', error);
+    res.status(500).send('Failed to load report');
+  }
+});
+
+// Instructor preview: opens the course in browse mode without credit
+ltiRouter.post('/instructor/:sessionId/preview', async (req: Request, res: Response) => {
+  try {
+    const sessionId = req.params.sessionId as string;
+    const session = UUID_PATTERN.test(sessionId) ? await getInstructorSession(sessionId) : null;
+    if (!session) {
+      return sendLaunchError(res, 404, 'instructor_session_expired', INSTRUCTOR_SESSION_EXPIRED_MESSAGE);
+    }
+
+    const attemptId = await startBrowseAttempt(session.launch_id);
+    res.redirect(await playerUrl(attemptId));
+  } catch (error) {
+    console.error('Instructor preview error:', error);
+    res.status(500).send('Preview failed');
   }
 });
 
@@ -121,9 +263,483 @@ ltiRouter.get('/config', (_req: Request, res: Response) => {
     title: 'SCORM-LTI Proxy',
     description: 'Host SCORM content with LTI grade passback',
     launchUrl: `${config.baseUrl}/lti/launch`,
+    lti13: {
+      loginUrl: `${config.baseUrl}/lti/1.3/login`,
+      launchUrl: `${config.baseUrl}/lti/1.3/launch`,
+      jwksUrl: `${config.baseUrl}/lti/1.3/jwks`,
+    },
     icon: `${config.baseUrl}/static/icon.png`,
     customParameters: {
-      course_id: 'The UUID of the course to launch',
+      course_id: 'The UUID of the course to launch (set automatically by the course picker)',
     },
+    contentItemSelection: true,
+    deepLinking: true,
   });
 });
+
+type LaunchResult =
+  | { redirectUrl: string }
+  | { error: string; status: number; message: string };
+
+const COURSE_NOT_FOUND: LaunchResult = {
+  error: 'course_not_found',
+  status: 404,
+  message: 'The course for this link no longer exists or has been deactivated.',
+};
+
+/**
+ * Records a launch and returns where to send the user, or the launch error
+ * to show. Instructors go to the resource link's report; learners get their
+ * attempt created or resumed under the course's attempt policy, unless the
+ * link's "mode" custom parameter asks for browse or review. Shared by the
+ * LTI 1.1 and 1.3 launch paths.
+ */
+async function launchCourse(
+  consumerId: string,
+  courseId: string,
+  ltiData: LtiLaunchData,
+  launchData: Record<string, unknown>,
+  platformId?: string
+): Promise<LaunchResult> {
+  if (!UUID_PATTERN.test(courseId)) {
+    return COURSE_NOT_FOUND;
+  }
+
+  const courseResult = await query<{ id: string }>(
+    'SELECT id FROM courses WHERE id = $1 AND active = true',
+    [courseId]
+  );
+  if (courseResult.rows.length === 0) {
+    return COURSE_NOT_FOUND;
+  }
+
+  const learnerId = await upsertLearner(consumerId, ltiData);
+
+  // Create launch record
+  const launchId = uuidv4();
+  await query(
+    `INSERT INTO launches (id, consumer_id, course_id, user_id, learner_id, context_id, resource_link_id,
+      lis_outcome_service_url, lis_result_sourcedid, launch_data, platform_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+    [
+      launchId,
+      consumerId,
+      courseId,
+      ltiData.userId,
+      learnerId,
+      ltiData.contextId,
+      ltiData.resourceLinkId,
+      ltiData.lisOutcomeServiceUrl,
+      ltiData.lisResultSourcedid,
+      JSON.stringify(launchData),
+      platformId || null,
+    ]
+  );
+
+  if (isInstructor(ltiData.roles)) {
+    const sessionId = await createInstructorSession(launchId);
+    return { redirectUrl: `${config.baseUrl}/lti/instructor/${sessionId}` };
+  }
+
+  const scope = {
+    learnerId,
+    consumerId,
+    courseId,
+    contextId: ltiData.contextId || null,
+    resourceLinkId: ltiData.resourceLinkId || null,
+  };
+  const mode = parseLessonMode(ltiData.customMode);
+
+  if (mode === 'browse') {
+    return { redirectUrl: await playerUrl(await startBrowseAttempt(launchId)) };
+  }
+
+  if (mode === 'review') {
+    const review = await startLatestAttemptReview(scope, launchId);
+    if (!review?.allowed) {
+      return {
+        error: 'no_attempt_to_review',
+        status: 404,
+        message: 'You have no attempt at this course to review yet.',
+      };
+    }
+    return { redirectUrl: await playerUrl(review.attemptId) };
+  }
+
+  // Create or resume attempt for this learner within the course's attempt scope
+  const attempt = await startOrResumeAttempt(scope, launchId);
+
+  if (!attempt.allowed) {
+    return {
+      error: 'attempts_exhausted',
+      status: 403,
+      message: `You have used all ${attempt.maxAttempts} attempt${attempt.maxAttempts === 1 ? '' : 's'} allowed for this course.`,
+    };
+  }
+
+  return { redirectUrl: await playerUrl(attempt.attemptId) };
+}
+
+// The attempts launches hand to the player were just created or found, so
+// they exist
+async function playerUrl(attemptId: string): Promise<string> {
+  return (await getPlayerUrl(attemptId)) as string;
+}
+
+/**
+ * Renders a launch error page with a reason code the LMS admin can look up
+ */
+function sendLaunchError(res: Response, status: number, code: string, message: string) {
+  res.status(status).send(getLaunchErrorPage(code, message));
+}
+
+// === HTML Templates ===
+
+function getLaunchErrorPage(code: string, message: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Launch Failed - SCORM-LTI Proxy</title>
+  <style>
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #f5f7fa;
+      color: #333;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      min-height: 100vh;
+      margin: 0;
+    }
+    .error-box {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.08);
+      padding: 32px;
+      max-width: 480px;
+    }
+    h1 { font-size: 20px; color: #c00; margin: 0 0 12px; }
+    p { line-height: 1.5; margin: 0 0 16px; }
+    code {
+      background: #e9ecef;
+      padding: 4px 8px;
+      border-radius: 4px;
+      font-size: 13px;
+    }
+  </style>
+</head>
+<body>
+  <div class="error-box">
+    <h1>This course could not be launched</h1>
+    <p>${escapeHtml(message)}</p>
+    <p style="color: #666; font-size: 13px;">Reason code: <code>${escapeHtml(code)}</code></p>
+  </div>
+</body>
+</html>`;
+}
+
+/**
+ * Auto-submitting form that posts the picker response back to the platform
+ */
+function getAutoSubmitPage(url: string, fields: Record<string, string>): string {
+  const inputs = Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('\n    ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Returning to LMS...</title>
+</head>
+<body>
+  <form id="response" method="POST" action="${escapeHtml(url)}">
+    ${inputs}
+    <noscript><button type="submit">Continue</button></noscript>
+  </form>
+  <script>document.getElementById('response').submit();</script>
+</body>
+</html>`;
+}
+
+function getPickerPage(requestId: string, acceptMultiple: boolean): string {
+  const inputType = acceptMultiple ? 'checkbox' : 'radio';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Select a Course - SCORM-LTI Proxy</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #f5f7fa;
+      color: #333;
+      padding: 24px;
+    }
+    h1 { font-size: 20px; margin-bottom: 16px; }
+    h2 { font-size: 14px; color: #666; text-transform: uppercase; margin: 24px 0 8px; }
+    .search {
+      width: 100%;
+      padding: 12px 16px;
+      border: 2px solid #e0e0e0;
+      border-radius: 8px;
+      font-size: 16px;
+    }
+    .search:focus { outline: none; border-color: #667eea; }
+    .list {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.08);
+    }
+    .item {
+      display: flex;
+      gap: 12px;
+      align-items: flex-start;
+      padding: 12px 16px;
+      border-bottom: 1px solid #eee;
+      cursor: pointer;
+    }
+    .item:last-child { border-bottom: none; }
+    .item:hover { background: #f9f9f9; }
+    .item small { color: #666; display: block; }
+    .empty { padding: 24px; text-align: center; color: #666; }
+    .badge {
+      display: inline-block;
+      padding: 2px 6px;
+      border-radius: 4px;
+      font-size: 11px;
+      background: #cce5ff;
+      color: #004085;
+      margin-left: 6px;
+    }
+    .actions {
+      position: sticky;
+      bottom: 0;
+      padding: 16px 0;
+      background: #f5f7fa;
+      display: flex;
+      justify-content: flex-end;
+    }
+    .btn {
+      padding: 12px 24px;
+      border: none;
+      border-radius: 8px;
+      font-size: 14px;
+      font-weight: 600;
+      cursor: pointer;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+    }
+    .btn:disabled { opacity: 0.5; cursor: not-allowed; }
+  </style>
+</head>
+<body>
+  <h1>Select ${acceptMultiple ? 'courses' : 'a course'} to add</h1>
+  <input type="search" class="search" id="search" placeholder="Search courses and suites..." autofocus>
+
+  <form method="POST" action="/lti/deep-link/${requestId}" id="pickerForm">
+    <h2>Courses</h2>
+    <div class="list" id="courses"><div class="empty">Loading...</div></div>
+    ${acceptMultiple ? `<h2>Suites</h2>
+    <div class="list" id="suites"><div class="empty">Loading...</div></div>` : ''}
+    <div class="actions">
+      <button type="submit" class="btn" id="submitBtn" disabled>Add to course</button>
+    </div>
+  </form>
+
+  <script>
+    const itemsUrl = '/lti/deep-link/${requestId}/items';
+    const inputType = '${inputType}';
+    const selected = new Set();
+    let searchTimeout = null;
+
+    document.getElementById('search').addEventListener('input', (e) => {
+      clearTimeout(searchTimeout);
+      searchTimeout = setTimeout(() => loadItems(e.target.value), 250);
+    });
+
+    // Submit every selection, including ones hidden by the current search
+    document.getElementById('pickerForm').addEventListener('submit', (e) => {
+      const form = e.target;
+      form.querySelectorAll('.list input').forEach(input => { input.disabled = true; });
+      selected.forEach(key => {
+        const [name, value] = key.split(':');
+        const hidden = document.createElement('input');
+        hidden.type = 'hidden';
+        hidden.name = name;
+        hidden.value = value;
+        form.appendChild(hidden);
+      });
+    });
+
+    document.getElementById('pickerForm').addEventListener('change', (e) => {
+      if (e.target.type === 'radio') selected.clear();
+      if (e.target.checked) selected.add(e.target.name + ':' + e.target.value);
+      else selected.delete(e.target.name + ':' + e.target.value);
+      document.getElementById('submitBtn').disabled = selected.size === 0;
+    });
+
+    async function loadItems(search) {
+      try {
+        const res = await fetch(itemsUrl + '?q=' + encodeURIComponent(search || ''));
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load courses');
+
+        renderList('courses', 'courseIds', data.courses, c =>
+          'SCORM ' + c.scorm_version);
+        if (document.getElementById('suites')) {
+          renderList('suites', 'suiteIds', data.suites, s =>
+            s.course_count + ' courses');
+        }
+      } catch (e) {
+        document.getElementById('courses').innerHTML = '<div class="empty">' + escapeHtml(e.message) + '</div>';
+      }
+    }
+
+    function renderList(containerId, name, items, badge) {
+      const container = document.getElementById(containerId);
+      if (items.length === 0) {
+        container.innerHTML = '<div class="empty">No matches</div>';
+        return;
+      }
+      container.innerHTML = items.map(item => {
+        const checked = selected.has(name + ':' + item.id) ? ' checked' : '';
+        return '<label class="item">' +
+          '<input type="' + inputType + '" name="' + name + '" value="' + item.id + '"' + checked + '>' +
+          '<span><strong>' + escapeHtml(item.title) + '</strong><span class="badge">' + escapeHtml(badge(item)) + '</span>' +
+          (item.description ? '<small>' + escapeHtml(item.description) + '</small>' : '') +
+          '</span></label>';
+      }).join('');
+    }
+
+    function escapeHtml(str) {
+      if (!str) return '';
+      return String(str).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+
+    loadItems('');
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Instructor view of a resource link: each learner's attempts, latest status
+ * and scores, with a button to preview the course without credit
+ */
+function getInstructorReportPage(session: InstructorSession, learners: LearnerProgress[]): string {
+  const completed = learners.filter((l) => l.completionStatus === 'completed').length;
+  const scores = learners.map((l) => l.latestScore).filter((score): score is number => score !== null);
+  const averageScore = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+
+  const rows = learners
+    .map((l) => {
+      const status = l.successStatus && l.successStatus !== 'unknown' ? l.successStatus : l.completionStatus;
+      return `<tr>
+        <td>${l.name ? `<strong>${escapeHtml(l.name)}</strong><br>` : ''}<small>${escapeHtml(l.email || l.userId)}</small></td>
+        <td><span class="badge ${status === 'passed' || status === 'completed' ? 'badge-success' : 'badge-warning'}">${escapeHtml(status)}</span></td>
+        <td>${formatScore(l.latestScore)}</td>
+        <td>${formatScore(l.bestScore)}</td>
+        <td>${l.attempts}</td>
+        <td>${formatDuration(l.timeSpentSeconds)}</td>
+        <td>${l.lastActivityAt.toISOString().slice(0, 16).replace('T', ' ')} UTC</td>
+      </tr>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(session.course_title)} - Course Report</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #f5f7fa;
+      color: #333;
+      padding: 24px;
+    }
+    header { display: flex; justify-content: space-between; align-items: center; gap: 16px; margin-bottom: 16px; }
+    h1 { font-size: 20px; }
+    .summary { color: #666; margin-bottom: 16px; }
+    .card {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.08);
+      overflow-x: auto;
+    }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 12px 16px; text-align: left; border-bottom: 1px solid #eee; font-size: 14px; }
+    th { font-size: 12px; color: #666; text-transform: uppercase; }
+    tr:last-child td { border-bottom: none; }
+    td small { color: #666; }
+    .empty { padding: 24px; text-align: center; color: #666; }
+    .badge { display: inline-block; padding: 2px 8px; border-radius: 4px; font-size: 12px; }
+    .badge-success { background: #d4edda; color: #155724; }
+    .badge-warning { background: #fff3cd; color: #856404; }
+    .btn {
+      padding: 12px 24px;
+      border: none;
+      border-radius: 8px;
+      font-size: 14px;
+      font-weight: 600;
+      cursor: pointer;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+    }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(session.course_title)}</h1>
+    <form method="POST" action="/lti/instructor/${session.id}/preview">
+      <button type="submit" class="btn" title="Opens the course in browse mode. Nothing is graded or sent to the LMS.">Preview course</button>
+    </form>
+  </header>
+  <p class="summary">${learners.length} learner${learners.length === 1 ? '' : 's'} &middot; ${completed} completed${averageScore !== null ? ` &middot; average latest score ${formatScore(averageScore)}` : ''}</p>
+  <div class="card">
+    ${learners.length === 0
+      ? '<p class="empty">No learners have launched this link yet.</p>'
+      : `<table>
+      <thead>
+        <tr>
+          <th>Learner</th>
+          <th>Status</th>
+          <th>Latest Score</th>
+          <th>Best Score</th>
+          <th>Attempts</th>
+          <th>Time Spent</th>
+          <th>Last Activity</th>
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>`}
+  </div>
+</body>
+</html>`;
+}
+
+function formatScore(score: number | null): string {
+  return score !== null ? `${Math.round(score * 10) / 10}%` : '-';
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
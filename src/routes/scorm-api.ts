@@ -1,34 +1,88 @@
 import { Router, Request, Response } from 'express';
 import { query } from '../db/index.js';
-import { sendGradeToLms } from '../services/lti-outcomes.js';
-import { sendXapiStatement } from '../services/xapi-client.js';
+import { enqueueAttemptPassback, processOutbox } from '../services/passback-outbox.js';
+import { validateCmiData, formatTimespan, runtimeVersion, ScormVersion } from '../services/cmi-schema.js';
+import { saveActivityRecords } from '../services/attempt-records.js';
+import { getAttemptAllowance } from '../services/attempt-policy.js';
+import { LessonMode } from '../services/attempt-modes.js';
+import { getRuntimeLearner } from '../services/learners.js';
+import { signAttemptToken, AttemptTokenClaims } from '../services/attempt-token.js';
+import { signContentBase } from '../services/content-access.js';
+import { requireAttemptToken } from '../middleware/attempt-token.js';
+import {
+  commitActivity,
+  navigate,
+  NavigationRequest,
+  NAVIGATION_REQUESTS,
+} from '../services/sequencing.js';
 
 export const scormApiRouter = Router();
 
 interface CmiData {
+  // SCORM 1.2
   'cmi.core.lesson_status'?: string;
   'cmi.core.score.raw'?: string;
   'cmi.core.score.min'?: string;
   'cmi.core.score.max'?: string;
   'cmi.core.session_time'?: string;
-  'cmi.core.total_time'?: string;
+  'cmi.core.exit'?: string;
   'cmi.suspend_data'?: string;
   'cmi.core.lesson_location'?: string;
+  // SCORM 2004
+  'cmi.completion_status'?: string;
+  'cmi.success_status'?: string;
+  'cmi.score.scaled'?: string;
+  'cmi.score.raw'?: string;
+  'cmi.score.max'?: string;
+  'cmi.progress_measure'?: string;
+  'cmi.location'?: string;
+  'cmi.exit'?: string;
+  'cmi.session_time'?: string;
   [key: string]: string | undefined;
 }
 
-// Get attempt data (for resuming)
-scormApiRouter.get('/attempt/:attemptId', async (req: Request, res: Response) => {
+/**
+ * Attempt columns derived from a commit
+ */
+interface AttemptResult {
+  score: number | null; // 0.0 to 1.0
+  completionStatus: string;
+  successStatus: string | null;
+  progressMeasure: number | null;
+  location: string | null;
+  exitMode: string | null;
+  sessionTime: string | null;
+}
+
+const EMPTY_RESULT: AttemptResult = {
+  score: null,
+  completionStatus: 'incomplete',
+  successStatus: null,
+  progressMeasure: null,
+  location: null,
+  exitMode: null,
+  sessionTime: null,
+};
+
+// Get attempt data (for resuming), the learner and where it stands against the attempt limit
+scormApiRouter.get('/attempt/:attemptId', requireAttemptToken, async (req: Request, res: Response) => {
   try {
-    const { attemptId } = req.params;
+    const attemptId = req.params.attemptId as string;
 
     const result = await query<{
       id: string;
       cmi_data: CmiData;
       completion_status: string;
       score: number | null;
+      total_time: string | null;
+      time_spent_seconds: number;
+      lesson_mode: string;
+      credit: string;
+      preview: boolean;
     }>(
-      'SELECT id, cmi_data, completion_status, score FROM attempts WHERE id = $1',
+      `SELECT id, cmi_data, completion_status, score, total_time,
+              EXTRACT(EPOCH FROM time_spent)::float8 AS time_spent_seconds, lesson_mode, credit, preview
+       FROM attempts WHERE id = $1`,
       [attemptId]
     );
 
@@ -36,15 +90,34 @@ scormApiRouter.get('/attempt/:attemptId', async (req: Request, res: Response) =>
       return res.status(404).json({ error: 'Attempt not found' });
     }
 
-    res.json(result.rows[0]);
+    const [allowance, learner] = await Promise.all([
+      getAttemptAllowance(attemptId),
+      getRuntimeLearner(attemptId),
+    ]);
+
+    res.json({
+      ...result.rows[0],
+      learner_id: learner?.id ?? null,
+      learner_name: learner?.name ?? null,
+      attempt_number: allowance?.attemptNumber ?? 1,
+      max_attempts: allowance?.maxAttempts ?? 0,
+      attempts_remaining: allowance?.remaining ?? null,
+    });
   } catch (error) {
     console.error('Get attempt error:', error);
     res.status(500).json({ error: 'Failed to get attempt data' });
   }
 });
 
+// Exchange a valid attempt token for a fresh one. The player calls this
+// periodically so tokens stay short-lived but outlast long sessions.
+scormApiRouter.post('/attempt/:attemptId/token', requireAttemptToken, (_req: Request, res: Response) => {
+  const claims = res.locals.attemptToken as AttemptTokenClaims;
+  res.json({ token: signAttemptToken(claims) });
+});
+
 // Get course info
-scormApiRouter.get('/course/:courseId', async (req: Request, res: Response) => {
+scormApiRouter.get('/course/:courseId', requireAttemptToken, async (req: Request, res: Response) => {
   try {
     const { courseId } = req.params;
 
@@ -70,137 +143,269 @@ scormApiRouter.get('/course/:courseId', async (req: Request, res: Response) => {
   }
 });
 
-// Save CMI data (LMSCommit)
-scormApiRouter.post('/attempt/:attemptId/commit', async (req: Request, res: Response) => {
+// Save CMI data (LMSCommit / Commit). Content delivered through /navigate
+// passes ?activityId= so the commit is recorded against that SCO, along with
+// its interaction and objective records. Elements that fail validation
+// aren't stored and come back as errors with their SCORM error codes.
+// Review attempts are read-only; browse attempts keep their run-time data
+// but never change graded columns or interaction records.
+scormApiRouter.post('/attempt/:attemptId/commit', requireAttemptToken, async (req: Request, res: Response) => {
   try {
-    const { attemptId } = req.params;
-    const cmiData: CmiData = req.body;
-
-    // Extract key values
-    const lessonStatus = cmiData['cmi.core.lesson_status'];
-    const scoreRaw = cmiData['cmi.core.score.raw'];
-    const scoreMax = cmiData['cmi.core.score.max'] || '100';
-    const totalTime = cmiData['cmi.core.total_time'];
-
-    // Calculate normalized score (0-1 for LTI)
-    let normalizedScore: number | null = null;
-    if (scoreRaw !== undefined && scoreMax) {
-      normalizedScore = parseFloat(scoreRaw) / parseFloat(scoreMax);
-    }
+    const attemptId = req.params.attemptId as string;
+    const activityId = typeof req.query.activityId === 'string' ? req.query.activityId : undefined;
 
-    // Map SCORM status to our status
-    let completionStatus = 'incomplete';
-    let successStatus: string | null = null;
-
-    if (lessonStatus) {
-      if (['completed', 'passed'].includes(lessonStatus)) {
-        completionStatus = 'completed';
-      }
-      if (lessonStatus === 'passed') {
-        successStatus = 'passed';
-      } else if (lessonStatus === 'failed') {
-        successStatus = 'failed';
-      }
+    const runtime = await getAttemptRuntime(attemptId);
+    if (!runtime) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+    if (runtime.lessonMode === 'review') {
+      return res.status(403).json({ error: 'Attempt is open for review and cannot be changed' });
     }
 
-    // Update attempt
-    await query(
-      `UPDATE attempts SET
-        cmi_data = $1,
-        score = $2,
-        completion_status = $3,
-        success_status = $4,
-        total_time = $5,
-        updated_at = CURRENT_TIMESTAMP
-       WHERE id = $6`,
-      [
-        JSON.stringify(cmiData),
-        normalizedScore !== null ? normalizedScore * 100 : null,
-        completionStatus,
-        successStatus,
-        totalTime,
-        attemptId,
-      ]
-    );
+    const { scormVersion } = runtime;
 
-    // Get launch info for grade passback
-    const launchResult = await query<{
-      consumer_id: string;
-      lis_outcome_service_url: string | null;
-      lis_result_sourcedid: string | null;
-      user_id: string;
-      course_id: string;
-      launch_data: Record<string, unknown>;
-    }>(
-      `SELECT l.consumer_id, l.lis_outcome_service_url, l.lis_result_sourcedid,
-              l.user_id, l.course_id, l.launch_data
-       FROM launches l
-       JOIN attempts a ON a.launch_id = l.id
-       WHERE a.id = $1`,
-      [attemptId]
-    );
+    const validation = validateCmiData(scormVersion, req.body);
+    const cmiData: CmiData = validation.data;
 
-    if (launchResult.rows.length > 0) {
-      const launch = launchResult.rows[0];
-
-      // LTI grade passback (if available)
-      if (
-        launch.lis_outcome_service_url &&
-        launch.lis_result_sourcedid &&
-        normalizedScore !== null
-      ) {
-        try {
-          await sendGradeToLms(
-            launch.consumer_id,
-            launch.lis_outcome_service_url,
-            launch.lis_result_sourcedid,
-            normalizedScore
-          );
-        } catch (gradeError) {
-          console.error('Grade passback failed:', gradeError);
-        }
-      }
+    let result = mapResult(scormVersion, cmiData);
 
-      // xAPI statement (for dispatch mode)
-      const launchData = launch.launch_data as { type?: string };
-      if (launchData?.type === 'dispatch') {
-        try {
-          await sendXapiStatement(
-            launch.consumer_id,
-            launch.user_id,
-            launch.course_id,
-            {
-              verb: completionStatus === 'completed' ? 'completed' : 'progressed',
-              score: normalizedScore,
-              success: successStatus === 'passed',
-            }
-          );
-        } catch (xapiError) {
-          console.error('xAPI statement failed:', xapiError);
-        }
+    if (activityId) {
+      const status = await commitActivity(attemptId, activityId, cmiData as Record<string, string>);
+      if (!status) {
+        return res.status(404).json({ error: 'Activity not found' });
+      }
+      result = { ...result, ...status };
+      if (runtime.lessonMode === 'normal') {
+        await saveActivityRecords(attemptId, activityId, scormVersion, cmiData as Record<string, string>);
       }
     }
 
-    res.json({ success: true });
+    await saveAttemptResult(attemptId, scormVersion, result, cmiData);
+
+    res.json({ success: true, errors: validation.errors });
   } catch (error) {
     console.error('Commit error:', error);
     res.status(500).json({ error: 'Failed to save data' });
   }
 });
 
-// Finish attempt (LMSFinish)
-scormApiRouter.post('/attempt/:attemptId/finish', async (req: Request, res: Response) => {
+// Process a navigation request and return the next SCO to deliver, with the
+// signed contentBase its files are served under. SCORM 1.2 packages use the
+// same requests for the table of contents and nav bar.
+// Review attempts navigate without saving anything the SCO sends.
+scormApiRouter.post('/attempt/:attemptId/navigate', requireAttemptToken, async (req: Request, res: Response) => {
   try {
-    const { attemptId } = req.params;
+    const attemptId = req.params.attemptId as string;
+    const { request, target, activityId } = req.body as {
+      request?: NavigationRequest;
+      target?: string;
+      activityId?: string;
+    };
 
-    await query(
-      'UPDATE attempts SET finished_at = CURRENT_TIMESTAMP WHERE id = $1',
-      [attemptId]
+    if (!request || !NAVIGATION_REQUESTS.includes(request)) {
+      return res.status(400).json({ error: 'Invalid navigation request' });
+    }
+    if (request === 'choice' && !target) {
+      return res.status(400).json({ error: 'target is required for choice' });
+    }
+
+    const runtime = await getAttemptRuntime(attemptId);
+    if (!runtime) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+
+    const { scormVersion, lessonMode } = runtime;
+    const readOnly = lessonMode === 'review';
+
+    // The SCO's final data is validated like a commit
+    const validation =
+      req.body.cmiData !== undefined && !readOnly ? validateCmiData(scormVersion, req.body.cmiData) : null;
+    const cmiData: CmiData | undefined = validation?.data;
+
+    const outcome = await navigate(attemptId, request, {
+      target,
+      activityId,
+      cmiData: cmiData as Record<string, string> | undefined,
+    });
+
+    if (!outcome) {
+      return res.status(404).json({ error: 'Attempt not found' });
+    }
+
+    // Signed prefix for the SCO's files
+    const contentBase = signContentBase((res.locals.attemptToken as AttemptTokenClaims).courseId, runtime.contentPath);
+
+    if (readOnly) {
+      return res.json({ ...outcome.navigation, contentBase, errors: [] });
+    }
+
+    if (activityId && cmiData && lessonMode === 'normal') {
+      await saveActivityRecords(attemptId, activityId, scormVersion, cmiData as Record<string, string>);
+    }
+
+    await saveAttemptResult(
+      attemptId,
+      scormVersion,
+      {
+        ...(cmiData ? mapResult(scormVersion, cmiData) : EMPTY_RESULT),
+        ...outcome.status,
+      },
+      cmiData || null,
+      outcome.sessionSeconds
     );
 
-    res.json({ success: true });
+    res.json({ ...outcome.navigation, contentBase, errors: validation?.errors || [] });
   } catch (error) {
-    console.error('Finish error:', error);
-    res.status(500).json({ error: 'Failed to finish attempt' });
+    console.error('Navigate error:', error);
+    res.status(500).json({ error: 'Failed to process navigation request' });
   }
 });
+
+function mapResult(scormVersion: ScormVersion, cmiData: CmiData): AttemptResult {
+  return scormVersion === '2004' ? mapScorm2004Result(cmiData) : mapScorm12Result(cmiData);
+}
+
+/**
+ * Maps SCORM 1.2 cmi.core.* values onto attempt columns
+ */
+function mapScorm12Result(cmiData: CmiData): AttemptResult {
+  const lessonStatus = cmiData['cmi.core.lesson_status'];
+  const scoreRaw = parseDecimal(cmiData['cmi.core.score.raw']);
+  const scoreMax = parseDecimal(cmiData['cmi.core.score.max']) || 100;
+
+  // Map SCORM status to our status
+  let completionStatus = 'incomplete';
+  let successStatus: string | null = null;
+
+  if (lessonStatus) {
+    if (['completed', 'passed'].includes(lessonStatus)) {
+      completionStatus = 'completed';
+    }
+    if (lessonStatus === 'passed') {
+      successStatus = 'passed';
+    } else if (lessonStatus === 'failed') {
+      successStatus = 'failed';
+    }
+  }
+
+  return {
+    score: scoreRaw !== null ? scoreRaw / scoreMax : null,
+    completionStatus,
+    successStatus,
+    progressMeasure: null,
+    location: cmiData['cmi.core.lesson_location'] || null,
+    exitMode: cmiData['cmi.core.exit'] || null,
+    sessionTime: cmiData['cmi.core.session_time'] || null,
+  };
+}
+
+/**
+ * Maps SCORM 2004 run-time values onto attempt columns. cmi.score.scaled is
+ * preferred; raw/max is only used when the SCO doesn't report a scaled score.
+ */
+function mapScorm2004Result(cmiData: CmiData): AttemptResult {
+  let score = parseDecimal(cmiData['cmi.score.scaled']);
+  if (score === null) {
+    const scoreRaw = parseDecimal(cmiData['cmi.score.raw']);
+    const scoreMax = parseDecimal(cmiData['cmi.score.max']) || 100;
+    score = scoreRaw !== null ? scoreRaw / scoreMax : null;
+  }
+
+  const successStatus = cmiData['cmi.success_status'];
+
+  return {
+    score,
+    completionStatus: cmiData['cmi.completion_status'] === 'completed' ? 'completed' : 'incomplete',
+    successStatus: successStatus === 'passed' || successStatus === 'failed' ? successStatus : null,
+    progressMeasure: parseDecimal(cmiData['cmi.progress_measure']),
+    location: cmiData['cmi.location'] || null,
+    exitMode: cmiData['cmi.exit'] || null,
+    sessionTime: cmiData['cmi.session_time'] || null,
+  };
+}
+
+async function getAttemptRuntime(
+  attemptId: string
+): Promise<{ scormVersion: ScormVersion; lessonMode: LessonMode; contentPath: string } | null> {
+  const result = await query<{ scorm_version: string; lesson_mode: LessonMode; content_path: string }>(
+    `SELECT c.scorm_version, a.lesson_mode, c.content_path
+     FROM attempts a
+     JOIN launches l ON a.launch_id = l.id
+     JOIN courses c ON l.course_id = c.id
+     WHERE a.id = $1`,
+    [attemptId]
+  );
+
+  const row = result.rows[0];
+  if (!row) return null;
+  return {
+    scormVersion: runtimeVersion(row.scorm_version),
+    lessonMode: row.lesson_mode,
+    contentPath: row.content_path,
+  };
+}
+
+/**
+ * Writes the attempt result and queues grade passback / xAPI. Without
+ * cmiData only the status and score columns change. sessionSeconds is the
+ * time of a SCO session that just ended; it is added to time_spent and
+ * total_time is rewritten in the package's format. Graded columns only
+ * change on normal-mode attempts.
+ */
+async function saveAttemptResult(
+  attemptId: string,
+  scormVersion: ScormVersion,
+  result: AttemptResult,
+  cmiData: CmiData | null,
+  sessionSeconds = 0
+): Promise<void> {
+  const updated = await query<{ time_spent_seconds: number }>(
+    `UPDATE attempts SET
+      cmi_data = COALESCE($1, cmi_data),
+      score = CASE WHEN lesson_mode = 'normal' THEN $2 ELSE score END,
+      completion_status = CASE WHEN lesson_mode = 'normal' THEN $3 ELSE completion_status END,
+      success_status = CASE WHEN lesson_mode = 'normal' THEN $4 ELSE success_status END,
+      time_spent = CASE WHEN lesson_mode = 'normal'
+        THEN COALESCE(time_spent, INTERVAL '0 seconds') + make_interval(secs => $5)
+        ELSE time_spent END,
+      progress_measure = CASE WHEN lesson_mode = 'normal' THEN $6 ELSE progress_measure END,
+      location = CASE WHEN $1::jsonb IS NULL THEN location ELSE $7 END,
+      exit_mode = CASE WHEN $1::jsonb IS NULL THEN exit_mode ELSE $8 END,
+      session_time = CASE WHEN $1::jsonb IS NULL THEN session_time ELSE $9 END,
+      updated_at = CURRENT_TIMESTAMP
+     WHERE id = $10
+     RETURNING EXTRACT(EPOCH FROM time_spent)::float8 AS time_spent_seconds`,
+    [
+      cmiData ? JSON.stringify(cmiData) : null,
+      result.score !== null ? result.score * 100 : null,
+      result.completionStatus,
+      result.successStatus,
+      sessionSeconds,
+      result.progressMeasure,
+      result.location,
+      result.exitMode,
+      result.sessionTime,
+      attemptId,
+    ]
+  );
+
+  if (sessionSeconds > 0 && updated.rows.length > 0) {
+    await query('UPDATE attempts SET total_time = $1 WHERE id = $2', [
+      formatTimespan(scormVersion, updated.rows[0].time_spent_seconds),
+      attemptId,
+    ]);
+  }
+
+  // Queue grade passback / xAPI and try to deliver right away; failures
+  // stay in the outbox and are retried by the background worker
+  const queued = await enqueueAttemptPassback(attemptId);
+  if (queued > 0) {
+    processOutbox();
+  }
+}
+
+function parseDecimal(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
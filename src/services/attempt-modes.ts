@@ -0,0 +1,74 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../db/index.js';
+
+/**
+ * cmi.core.lesson_mode / cmi.mode. Normal attempts are graded; review
+ * attempts replay another attempt read-only; browse attempts let someone
+ * look through the course without credit.
+ */
+export type LessonMode = 'normal' | 'review' | 'browse';
+
+export const LESSON_MODES: LessonMode[] = ['normal', 'review', 'browse'];
+
+/**
+ * Starts a no-credit browse attempt on a launch
+ */
+export async function startBrowseAttempt(launchId: string): Promise<string> {
+  const attemptId = uuidv4();
+  await query(
+    `INSERT INTO attempts (id, launch_id, lesson_mode, credit)
+     VALUES ($1, $2, 'browse', 'no-credit')`,
+    [attemptId, launchId]
+  );
+  return attemptId;
+}
+
+/**
+ * Opens an attempt for review. The attempt's run-time data and per-SCO state
+ * are copied into a no-credit review attempt, so the replay can navigate
+ * without touching the graded original. Earlier review copies of the same
+ * attempt are replaced. Returns null if the attempt doesn't exist.
+ */
+export async function startReviewAttempt(reviewedAttemptId: string, launchId?: string): Promise<string | null> {
+  await query(
+    `DELETE FROM attempts WHERE review_of = $1 AND lesson_mode = 'review'`,
+    [reviewedAttemptId]
+  );
+
+  const attemptId = uuidv4();
+  const result = await query(
+    `INSERT INTO attempts (id, launch_id, attempt_number, cmi_data, score, completion_status,
+       success_status, total_time, time_spent, progress_measure, location, exit_mode,
+       current_activity, suspended_activity, global_objectives, lesson_mode, credit, review_of,
+       finished_at)
+     SELECT $1, COALESCE($3, launch_id), attempt_number, cmi_data, score, completion_status,
+            success_status, total_time, time_spent, progress_measure, location, exit_mode,
+            current_activity, suspended_activity, global_objectives, 'review', 'no-credit', id,
+            CURRENT_TIMESTAMP
+     FROM attempts WHERE id = $2`,
+    [attemptId, reviewedAttemptId, launchId || null]
+  );
+
+  if ((result.rowCount ?? 0) === 0) return null;
+
+  await query(
+    `INSERT INTO attempt_activities (attempt_id, activity_id, attempt_count, completion_status,
+       success_status, score_scaled, progress_measure, active, suspended, objectives, cmi_data,
+       time_spent)
+     SELECT $1, activity_id, attempt_count, completion_status, success_status, score_scaled,
+            progress_measure, active, suspended, objectives, cmi_data, time_spent
+     FROM attempt_activities WHERE attempt_id = $2`,
+    [attemptId, reviewedAttemptId]
+  );
+
+  return attemptId;
+}
+
+/**
+ * Reads a lesson mode from an LTI custom parameter, ignoring unknown values
+ */
+export function parseLessonMode(value: unknown): LessonMode | undefined {
+  return typeof value === 'string' && LESSON_MODES.includes(value as LessonMode)
+    ? (value as LessonMode)
+    : undefined;
+}
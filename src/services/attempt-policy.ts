@@ -0,0 +1,360 @@
+import pg from 'pg';
+import { pool, query } from '../db/index.js';
+import { v4 as uuidv4 } from 'uuid';
+import { LessonMode, startReviewAttempt } from './attempt-modes.js';
+
+/**
+ * Which of a learner's attempts is reported to the LMS gradebook
+ */
+export type GradeSelection = 'latest' | 'highest' | 'first_passing' | 'average';
+
+export const GRADE_SELECTIONS: GradeSelection[] = ['latest', 'highest', 'first_passing', 'average'];
+
+/**
+ * Which of a learner's launches of a course share attempts: all of them
+ * (consumer), those from the same LMS course (context), or only those from
+ * the same link (resource_link)
+ */
+export type AttemptScopeLevel = 'consumer' | 'context' | 'resource_link';
+
+export const ATTEMPT_SCOPE_LEVELS: AttemptScopeLevel[] = ['consumer', 'context', 'resource_link'];
+
+export interface AttemptPolicy {
+  maxAttempts: number; // 0 = unlimited
+  newAttemptOnCompletion: boolean;
+  reviewOnCompletion: boolean; // completed or used-up attempts reopen in review mode
+  gradeSelection: GradeSelection;
+  scope: AttemptScopeLevel;
+}
+
+/**
+ * Where a launch comes from. Learners are per consumer, so a learner id
+ * already separates consumers.
+ */
+export interface AttemptScope {
+  learnerId: string;
+  consumerId: string;
+  courseId: string;
+  contextId: string | null;
+  resourceLinkId: string | null;
+}
+
+export type AttemptStart =
+  | { allowed: true; attemptId: string; attemptNumber: number; resumed: boolean; mode: LessonMode }
+  | { allowed: false; maxAttempts: number };
+
+export interface AttemptAllowance {
+  attemptNumber: number;
+  maxAttempts: number; // 0 = unlimited
+  remaining: number | null; // attempts left after this one; null when unlimited
+}
+
+/**
+ * The grade reported to the LMS after applying the grade selection
+ */
+export interface SelectedGrade {
+  score: number | null; // 0 to 100
+  completionStatus: string;
+  successStatus: string | null;
+}
+
+interface ScopedAttemptRow {
+  id: string;
+  attempt_number: number;
+  score: string | null;
+  completion_status: string;
+  success_status: string | null;
+  finished_at: Date | null;
+}
+
+// An attempt start, or the attempt to open a review copy of
+type AttemptClaim = AttemptStart | { review: ScopedAttemptRow };
+
+// First key of the two-part advisory locks taken on attempt scopes ("ATTM")
+const ATTEMPT_LOCK_ID = 0x4154544d;
+
+export const DEFAULT_ATTEMPT_POLICY: AttemptPolicy = {
+  maxAttempts: 0,
+  newAttemptOnCompletion: false,
+  reviewOnCompletion: false,
+  gradeSelection: 'latest',
+  scope: 'resource_link',
+};
+
+/**
+ * Course policy with any override set for the resource link. Override
+ * columns left NULL inherit the course setting; the scope is per course.
+ */
+export async function getAttemptPolicy(
+  courseId: string,
+  consumerId: string,
+  resourceLinkId: string | null
+): Promise<AttemptPolicy> {
+  const result = await query<{
+    max_attempts: number | null;
+    new_attempt_on_completion: boolean | null;
+    review_on_completion: boolean | null;
+    grade_selection: GradeSelection | null;
+    attempt_scope: AttemptScopeLevel | null;
+    link_max_attempts: number | null;
+    link_new_attempt_on_completion: boolean | null;
+    link_review_on_completion: boolean | null;
+    link_grade_selection: GradeSelection | null;
+  }>(
+    `SELECT c.max_attempts, c.new_attempt_on_completion, c.review_on_completion, c.grade_selection,
+            c.attempt_scope, p.max_attempts as link_max_attempts,
+            p.new_attempt_on_completion as link_new_attempt_on_completion,
+            p.review_on_completion as link_review_on_completion,
+            p.grade_selection as link_grade_selection
+     FROM courses c
+     LEFT JOIN resource_link_policies p
+       ON p.course_id = c.id AND p.consumer_id = $2 AND p.resource_link_id = $3
+     WHERE c.id = $1`,
+    [courseId, consumerId, resourceLinkId || '']
+  );
+
+  const row = result.rows[0];
+  if (!row) return DEFAULT_ATTEMPT_POLICY;
+
+  return {
+    maxAttempts: row.link_max_attempts ?? row.max_attempts ?? DEFAULT_ATTEMPT_POLICY.maxAttempts,
+    newAttemptOnCompletion:
+      row.link_new_attempt_on_completion ?? row.new_attempt_on_completion ?? DEFAULT_ATTEMPT_POLICY.newAttemptOnCompletion,
+    reviewOnCompletion:
+      row.link_review_on_completion ?? row.review_on_completion ?? DEFAULT_ATTEMPT_POLICY.reviewOnCompletion,
+    gradeSelection: row.link_grade_selection ?? row.grade_selection ?? DEFAULT_ATTEMPT_POLICY.gradeSelection,
+    scope: row.attempt_scope ?? DEFAULT_ATTEMPT_POLICY.scope,
+  };
+}
+
+/**
+ * Resumes the learner's unfinished attempt within the policy's scope or
+ * starts a new one on the given launch, as the policy allows. A completed
+ * attempt is closed rather than resumed when the policy starts a new attempt
+ * on completion; otherwise, with review on completion, it opens for review.
+ * Review also replaces the attempt limit error.
+ */
+export async function startOrResumeAttempt(scope: AttemptScope, launchId: string): Promise<AttemptStart> {
+  const policy = await getAttemptPolicy(scope.courseId, scope.consumerId, scope.resourceLinkId);
+  const start = await claimAttempt(scope, policy, launchId);
+  return 'review' in start ? reviewOf(start.review, launchId) : start;
+}
+
+/**
+ * Picks and claims the launch's attempt under an advisory lock on the
+ * learner's attempt scope, so concurrent launches (a double click, two
+ * tabs) can't both insert the same attempt number. Review copies are made
+ * by the caller once the lock is released.
+ */
+async function claimAttempt(
+  scope: AttemptScope,
+  policy: AttemptPolicy,
+  launchId: string
+): Promise<AttemptClaim> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock($1, hashtext($2))', [
+      ATTEMPT_LOCK_ID,
+      attemptScopeKey(scope, policy),
+    ]);
+
+    const start = await claimLockedAttempt(client, scope, policy, launchId);
+
+    await client.query('COMMIT');
+    return start;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function claimLockedAttempt(
+  client: pg.PoolClient,
+  scope: AttemptScope,
+  policy: AttemptPolicy,
+  launchId: string
+): Promise<AttemptClaim> {
+  const attempts = await getLaunchScopeAttempts(scope, policy, client);
+  const latest = attempts[attempts.length - 1];
+  const completed = latest?.completion_status === 'completed';
+
+  if (latest && !latest.finished_at) {
+    if (!(policy.newAttemptOnCompletion && completed)) {
+      if (completed && policy.reviewOnCompletion) {
+        return { review: latest };
+      }
+      return { allowed: true, attemptId: latest.id, attemptNumber: latest.attempt_number, resumed: true, mode: 'normal' };
+    }
+
+    await client.query(
+      'UPDATE attempts SET finished_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [latest.id]
+    );
+  }
+
+  if (policy.maxAttempts > 0 && attempts.length >= policy.maxAttempts) {
+    if (latest && policy.reviewOnCompletion) {
+      return { review: latest };
+    }
+    return { allowed: false, maxAttempts: policy.maxAttempts };
+  }
+
+  const attemptId = uuidv4();
+  const attemptNumber = attempts.length + 1;
+  await client.query(
+    'INSERT INTO attempts (id, launch_id, attempt_number) VALUES ($1, $2, $3)',
+    [attemptId, launchId, attemptNumber]
+  );
+
+  return { allowed: true, attemptId, attemptNumber, resumed: false, mode: 'normal' };
+}
+
+/**
+ * Opens the learner's latest attempt within the policy's scope for review,
+ * e.g. for a link the LMS configured to launch in review mode. Returns null
+ * when there's nothing to review yet.
+ */
+export async function startLatestAttemptReview(scope: AttemptScope, launchId: string): Promise<AttemptStart | null> {
+  const policy = await getAttemptPolicy(scope.courseId, scope.consumerId, scope.resourceLinkId);
+  const attempts = await getLaunchScopeAttempts(scope, policy);
+  const latest = attempts[attempts.length - 1];
+  return latest ? reviewOf(latest, launchId) : null;
+}
+
+/**
+ * Where an attempt stands against its policy's attempt limit
+ */
+export async function getAttemptAllowance(attemptId: string): Promise<AttemptAllowance | null> {
+  const scoped = await getScopedAttempts(attemptId);
+  if (!scoped) return null;
+
+  const attempt = scoped.attempts.find((a) => a.id === attemptId);
+  const { maxAttempts } = scoped.policy;
+
+  return {
+    attemptNumber: attempt?.attempt_number ?? scoped.attempts.length,
+    maxAttempts,
+    remaining: maxAttempts > 0 ? Math.max(0, maxAttempts - scoped.attempts.length) : null,
+  };
+}
+
+/**
+ * Picks the grade to report for the learner's attempts in the same scope as
+ * this one. Selections with no qualifying attempt fall back to the latest.
+ */
+export async function selectGrade(attemptId: string): Promise<SelectedGrade | null> {
+  const scoped = await getScopedAttempts(attemptId);
+  if (!scoped || scoped.attempts.length === 0) return null;
+
+  const { attempts } = scoped;
+  const latest = attempts[attempts.length - 1];
+  const scored = attempts.filter((a) => a.score !== null);
+  let selected = latest;
+
+  switch (scoped.policy.gradeSelection) {
+    case 'highest':
+      selected = scored.reduce<ScopedAttemptRow | undefined>(
+        (best, a) => (!best || parseFloat(a.score!) > parseFloat(best.score!) ? a : best),
+        undefined
+      ) || latest;
+      break;
+    case 'first_passing':
+      selected = attempts.find((a) => a.success_status === 'passed') || latest;
+      break;
+    case 'average':
+      if (scored.length > 0) {
+        return {
+          score: scored.reduce((sum, a) => sum + parseFloat(a.score!), 0) / scored.length,
+          completionStatus: latest.completion_status,
+          successStatus: latest.success_status,
+        };
+      }
+      break;
+  }
+
+  return {
+    score: selected.score !== null ? parseFloat(selected.score) : null,
+    completionStatus: selected.completion_status,
+    successStatus: selected.success_status,
+  };
+}
+
+/**
+ * Graded attempts a launch's learner has within the policy's scope, oldest
+ * first
+ */
+async function getLaunchScopeAttempts(
+  scope: AttemptScope,
+  policy: AttemptPolicy,
+  db: pg.Pool | pg.PoolClient = pool
+): Promise<ScopedAttemptRow[]> {
+  const result = await db.query<ScopedAttemptRow>(
+    `SELECT a.id, a.attempt_number, a.score, a.completion_status, a.success_status, a.finished_at
+     FROM attempts a
+     JOIN launches l ON a.launch_id = l.id
+     WHERE l.learner_id = $1 AND l.course_id = $2 AND a.credit = 'credit'
+       AND ($3 = 'consumer' OR l.context_id IS NOT DISTINCT FROM $4)
+       AND ($3 <> 'resource_link' OR l.resource_link_id IS NOT DISTINCT FROM $5)
+     ORDER BY a.started_at, a.id`,
+    [scope.learnerId, scope.courseId, policy.scope, scope.contextId, scope.resourceLinkId]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Advisory lock key for the launches that share a learner's attempts under
+ * the policy's scope
+ */
+function attemptScopeKey(scope: AttemptScope, policy: AttemptPolicy): string {
+  const parts = [scope.learnerId, scope.courseId];
+  if (policy.scope !== 'consumer') parts.push(scope.contextId || '');
+  if (policy.scope === 'resource_link') parts.push(scope.resourceLinkId || '');
+  return parts.join(':');
+}
+
+async function reviewOf(attempt: ScopedAttemptRow, launchId: string): Promise<AttemptStart> {
+  const attemptId = await startReviewAttempt(attempt.id, launchId);
+  return { allowed: true, attemptId: attemptId!, attemptNumber: attempt.attempt_number, resumed: true, mode: 'review' };
+}
+
+/**
+ * All graded attempts in the same scope as an attempt, oldest first, with
+ * the policy that applies to them. No-credit previews don't count.
+ */
+async function getScopedAttempts(
+  attemptId: string
+): Promise<{ policy: AttemptPolicy; attempts: ScopedAttemptRow[] } | null> {
+  const scopeResult = await query<{
+    consumer_id: string;
+    course_id: string;
+    resource_link_id: string | null;
+  }>(
+    `SELECT l.consumer_id, l.course_id, l.resource_link_id
+     FROM attempts a JOIN launches l ON a.launch_id = l.id
+     WHERE a.id = $1`,
+    [attemptId]
+  );
+
+  const scope = scopeResult.rows[0];
+  if (!scope) return null;
+
+  const policy = await getAttemptPolicy(scope.course_id, scope.consumer_id, scope.resource_link_id);
+  const attemptsResult = await query<ScopedAttemptRow>(
+    `SELECT a.id, a.attempt_number, a.score, a.completion_status, a.success_status, a.finished_at
+     FROM attempts a
+     JOIN launches l ON a.launch_id = l.id
+     JOIN attempts self ON self.id = $1
+     JOIN launches sl ON self.launch_id = sl.id
+     WHERE l.learner_id = sl.learner_id AND l.course_id = sl.course_id AND a.credit = 'credit'
+       AND ($2 = 'consumer' OR l.context_id IS NOT DISTINCT FROM sl.context_id)
+       AND ($2 <> 'resource_link' OR l.resource_link_id IS NOT DISTINCT FROM sl.resource_link_id)
+     ORDER BY a.started_at, a.id`,
+    [attemptId, policy.scope]
+  );
+
+  return { policy, attempts: attemptsResult.rows };
+}
@@ -0,0 +1,282 @@
+import { query } from '../db/index.js';
+import { parseTimespan, ScormVersion } from './cmi-schema.js';
+
+/**
+ * One cmi.interactions.n record, normalized across SCORM versions
+ */
+export interface InteractionRecord {
+  index: number;
+  id: string;
+  type: string | null;
+  description: string | null;
+  objectiveIds: string[];
+  correctResponses: string[];
+  learnerResponse: string | null;
+  result: string | null;
+  weighting: number | null;
+  latencySeconds: number | null;
+  timestamp: string | null;
+}
+
+/**
+ * One cmi.objectives.n record, normalized across SCORM versions
+ */
+export interface ObjectiveRecord {
+  index: number;
+  id: string;
+  scoreScaled: number | null;
+  scoreRaw: number | null;
+  scoreMin: number | null;
+  scoreMax: number | null;
+  successStatus: string;
+  completionStatus: string;
+  progressMeasure: number | null;
+  description: string | null;
+}
+
+/**
+ * Reads the interaction records out of a SCO's run-time data. Records
+ * without an id are skipped. SCORM 1.2's 'wrong' result is stored as
+ * 'incorrect' so both versions can be analysed together.
+ */
+export function extractInteractions(
+  version: ScormVersion,
+  cmiData: Record<string, string>
+): InteractionRecord[] {
+  const records: InteractionRecord[] = [];
+
+  for (const index of recordIndexes(cmiData, 'cmi.interactions')) {
+    const prefix = `cmi.interactions.${index}.`;
+    const id = cmiData[`${prefix}id`];
+    if (!id) continue;
+
+    const result = cmiData[`${prefix}result`];
+    const latency = cmiData[`${prefix}latency`];
+
+    records.push({
+      index,
+      id,
+      type: cmiData[`${prefix}type`] || null,
+      description: cmiData[`${prefix}description`] || null,
+      objectiveIds: listValues(cmiData, `${prefix}objectives`, 'id'),
+      correctResponses: listValues(cmiData, `${prefix}correct_responses`, 'pattern'),
+      learnerResponse:
+        cmiData[`${prefix}${version === '1.2' ? 'student_response' : 'learner_response'}`] ?? null,
+      result: result === 'wrong' ? 'incorrect' : result || null,
+      weighting: parseDecimal(cmiData[`${prefix}weighting`]),
+      latencySeconds: latency ? parseTimespan(version, latency) : null,
+      timestamp: interactionTimestamp(version, cmiData[`${prefix}${version === '1.2' ? 'time' : 'timestamp'}`]),
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Reads the objective records out of a SCO's run-time data. SCORM 1.2's
+ * single status is split into completion and success like lesson_status.
+ */
+export function extractObjectives(
+  version: ScormVersion,
+  cmiData: Record<string, string>
+): ObjectiveRecord[] {
+  const records: ObjectiveRecord[] = [];
+
+  for (const index of recordIndexes(cmiData, 'cmi.objectives')) {
+    const prefix = `cmi.objectives.${index}.`;
+    const id = cmiData[`${prefix}id`];
+    if (!id) continue;
+
+    const record: ObjectiveRecord = {
+      index,
+      id,
+      scoreScaled: parseDecimal(cmiData[`${prefix}score.scaled`]),
+      scoreRaw: parseDecimal(cmiData[`${prefix}score.raw`]),
+      scoreMin: parseDecimal(cmiData[`${prefix}score.min`]),
+      scoreMax: parseDecimal(cmiData[`${prefix}score.max`]),
+      successStatus: cmiData[`${prefix}success_status`] || 'unknown',
+      completionStatus: cmiData[`${prefix}completion_status`] || 'unknown',
+      progressMeasure: parseDecimal(cmiData[`${prefix}progress_measure`]),
+      description: cmiData[`${prefix}description`] || null,
+    };
+
+    if (version === '1.2') {
+      const status = cmiData[`${prefix}status`];
+      if (status) {
+        record.completionStatus = ['completed', 'passed'].includes(status)
+          ? 'completed'
+          : status === 'not attempted' ? 'not attempted' : 'incomplete';
+        record.successStatus = status === 'passed' || status === 'failed' ? status : 'unknown';
+      }
+    }
+
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Replaces the interaction and objective records stored for a SCO with the
+ * ones in its latest run-time data. Commits carry the SCO's whole data set,
+ * so records no longer present (e.g. after a new attempt on the SCO) go away.
+ */
+export async function saveActivityRecords(
+  attemptId: string,
+  activityId: string,
+  version: ScormVersion,
+  cmiData: Record<string, string>
+): Promise<void> {
+  const interactions = extractInteractions(version, cmiData);
+  const objectives = extractObjectives(version, cmiData);
+
+  if (interactions.length > 0) {
+    await query(
+      `INSERT INTO attempt_interactions (attempt_id, activity_id, interaction_index, interaction_id,
+         type, description, objective_ids, correct_responses, learner_response, result, weighting,
+         latency, timestamp)
+       SELECT $1, $2, r.index, r.id, r.type, r.description, r.objective_ids, r.correct_responses,
+              r.learner_response, r.result, r.weighting,
+              CASE WHEN r.latency IS NULL THEN NULL ELSE make_interval(secs => r.latency) END,
+              r.timestamp
+       FROM jsonb_to_recordset($3::jsonb) AS r(
+         index int, id text, type text, description text, objective_ids jsonb,
+         correct_responses jsonb, learner_response text, result text, weighting numeric,
+         latency float8, timestamp timestamp)
+       ON CONFLICT (attempt_id, activity_id, interaction_index) DO UPDATE SET
+         interaction_id = EXCLUDED.interaction_id,
+         type = EXCLUDED.type,
+         description = EXCLUDED.description,
+         objective_ids = EXCLUDED.objective_ids,
+         correct_responses = EXCLUDED.correct_responses,
+         learner_response = EXCLUDED.learner_response,
+         result = EXCLUDED.result,
+         weighting = EXCLUDED.weighting,
+         latency = EXCLUDED.latency,
+         timestamp = EXCLUDED.timestamp,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        attemptId,
+        activityId,
+        JSON.stringify(
+          interactions.map((i) => ({
+            index: i.index,
+            id: i.id,
+            type: i.type,
+            description: i.description,
+            objective_ids: i.objectiveIds,
+            correct_responses: i.correctResponses,
+            learner_response: i.learnerResponse,
+            result: i.result,
+            weighting: i.weighting,
+            latency: i.latencySeconds,
+            timestamp: i.timestamp,
+          }))
+        ),
+      ]
+    );
+  }
+
+  await query(
+    `DELETE FROM attempt_interactions
+     WHERE attempt_id = $1 AND activity_id = $2 AND NOT (interaction_index = ANY($3::int[]))`,
+    [attemptId, activityId, interactions.map((i) => i.index)]
+  );
+
+  if (objectives.length > 0) {
+    await query(
+      `INSERT INTO attempt_objectives (attempt_id, activity_id, objective_index, objective_id,
+         score_scaled, score_raw, score_min, score_max, success_status, completion_status,
+         progress_measure, description)
+       SELECT $1, $2, r.index, r.id, r.score_scaled, r.score_raw, r.score_min, r.score_max,
+              r.success_status, r.completion_status, r.progress_measure, r.description
+       FROM jsonb_to_recordset($3::jsonb) AS r(
+         index int, id text, score_scaled numeric, score_raw numeric, score_min numeric,
+         score_max numeric, success_status text, completion_status text,
+         progress_measure numeric, description text)
+       ON CONFLICT (attempt_id, activity_id, objective_index) DO UPDATE SET
+         objective_id = EXCLUDED.objective_id,
+         score_scaled = EXCLUDED.score_scaled,
+         score_raw = EXCLUDED.score_raw,
+         score_min = EXCLUDED.score_min,
+         score_max = EXCLUDED.score_max,
+         success_status = EXCLUDED.success_status,
+         completion_status = EXCLUDED.completion_status,
+         progress_measure = EXCLUDED.progress_measure,
+         description = EXCLUDED.description,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        attemptId,
+        activityId,
+        JSON.stringify(
+          objectives.map((o) => ({
+            index: o.index,
+            id: o.id,
+            score_scaled: o.scoreScaled,
+            score_raw: o.scoreRaw,
+            score_min: o.scoreMin,
+            score_max: o.scoreMax,
+            success_status: o.successStatus,
+            completion_status: o.completionStatus,
+            progress_measure: o.progressMeasure,
+            description: o.description,
+          }))
+        ),
+      ]
+    );
+  }
+
+  await query(
+    `DELETE FROM attempt_objectives
+     WHERE attempt_id = $1 AND activity_id = $2 AND NOT (objective_index = ANY($3::int[]))`,
+    [attemptId, activityId, objectives.map((o) => o.index)]
+  );
+}
+
+/**
+ * Sorted record indexes present under a collection such as 'cmi.interactions'
+ */
+function recordIndexes(cmiData: Record<string, string>, collection: string): number[] {
+  const pattern = new RegExp(`^${collection.replace(/\./g, '\\.')}\\.(\\d+)\\.`);
+  const indexes = new Set<number>();
+
+  for (const key of Object.keys(cmiData)) {
+    const match = pattern.exec(key);
+    if (match) indexes.add(parseInt(match[1], 10));
+  }
+
+  return Array.from(indexes).sort((a, b) => a - b);
+}
+
+/**
+ * Values of one field across a nested collection, e.g. the patterns of
+ * cmi.interactions.0.correct_responses.m.pattern in index order
+ */
+function listValues(cmiData: Record<string, string>, collection: string, field: string): string[] {
+  return recordIndexes(cmiData, collection)
+    .map((index) => cmiData[`${collection}.${index}.${field}`])
+    .filter((value): value is string => value !== undefined);
+}
+
+/**
+ * SCORM 2004 reports a full timestamp. SCORM 1.2 only reports the time of
+ * day, which is taken to be on the day the data was committed.
+ */
+function interactionTimestamp(version: ScormVersion, value: string | undefined): string | null {
+  if (!value) return null;
+
+  if (version === '1.2') {
+    const [hours, minutes, seconds] = value.split(':').map(Number);
+    if (hours > 23 || minutes > 59 || seconds >= 60) return null;
+    return `${new Date().toISOString().slice(0, 10)} ${value}`;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function parseDecimal(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
@@ -0,0 +1,71 @@
+import { config } from '../config.js';
+import { query } from '../db/index.js';
+import { signHmacJwt, verifyHmacJwt } from './jwt.js';
+
+/**
+ * What an attempt token lets the player do: run one attempt of one course
+ * for one learner
+ */
+export interface AttemptTokenClaims {
+  attemptId: string;
+  learnerId: string | null;
+  courseId: string;
+}
+
+/**
+ * Signs a short-lived token for the player's runtime API calls
+ */
+export function signAttemptToken(claims: AttemptTokenClaims): string {
+  const now = Math.floor(Date.now() / 1000);
+
+  return signHmacJwt(
+    {
+      sub: claims.attemptId,
+      learner_id: claims.learnerId,
+      course_id: claims.courseId,
+      iat: now,
+      exp: now + config.attemptToken.ttlSeconds,
+    },
+    config.attemptToken.secret
+  );
+}
+
+/**
+ * Checks an attempt token's signature and expiry and returns its claims
+ */
+export function verifyAttemptToken(token: string): AttemptTokenClaims {
+  const payload = verifyHmacJwt(token, config.attemptToken.secret);
+
+  if (typeof payload.sub !== 'string' || typeof payload.course_id !== 'string') {
+    throw new Error('Malformed attempt token');
+  }
+
+  return {
+    attemptId: payload.sub,
+    learnerId: typeof payload.learner_id === 'string' ? payload.learner_id : null,
+    courseId: payload.course_id,
+  };
+}
+
+/**
+ * Player URL for an attempt, carrying a fresh attempt token. playerMode is
+ * the player's own mode parameter (e.g. 'dispatch'). Returns null if the
+ * attempt doesn't exist.
+ */
+export async function getPlayerUrl(attemptId: string, playerMode?: string): Promise<string | null> {
+  const result = await query<{ learner_id: string | null; course_id: string }>(
+    `SELECT l.learner_id, l.course_id
+     FROM attempts a JOIN launches l ON a.launch_id = l.id
+     WHERE a.id = $1`,
+    [attemptId]
+  );
+
+  const row = result.rows[0];
+  if (!row) return null;
+
+  const token = signAttemptToken({ attemptId, learnerId: row.learner_id, courseId: row.course_id });
+  const params = new URLSearchParams({ attemptId, courseId: row.course_id, token });
+  if (playerMode) params.set('mode', playerMode);
+
+  return `${config.baseUrl}/static/player.html?${params.toString()}`;
+}
@@ -0,0 +1,454 @@
+/**
+ * CMI data model definitions for SCORM 1.2 and SCORM 2004 4th Edition, used
+ * to validate what a SCO commits before it is stored
+ */
+
+export type ScormVersion = '1.2' | '2004';
+
+/**
+ * The run-time version for a course's stored scorm_version. Only 2004
+ * courses get the 2004 API; anything else runs as SCORM 1.2.
+ */
+export function runtimeVersion(scormVersion: string | null | undefined): ScormVersion {
+  return scormVersion?.startsWith('2004') ? '2004' : '1.2';
+}
+
+type Access = 'ro' | 'rw' | 'wo';
+
+/**
+ * Why a value was rejected; mapped onto each version's error codes
+ */
+type Violation = 'undefined' | 'readOnly' | 'keyword' | 'type' | 'range' | 'index' | 'dependency';
+
+type Validator = (value: string) => 'type' | 'range' | null;
+
+interface ElementDefinition {
+  name: string;
+  access: Access;
+  validate?: Validator;
+  regex: RegExp;
+}
+
+export interface CmiElementError {
+  element: string;
+  code: string;
+  message: string;
+}
+
+export interface CmiValidationResult {
+  data: Record<string, string>;
+  errors: CmiElementError[];
+}
+
+const ERROR_CODES: Record<ScormVersion, Record<Violation, string>> = {
+  '1.2': {
+    undefined: '401',
+    readOnly: '403',
+    keyword: '402',
+    type: '405',
+    range: '405',
+    index: '201',
+    dependency: '201',
+  },
+  '2004': {
+    undefined: '401',
+    readOnly: '404',
+    keyword: '404',
+    type: '406',
+    range: '407',
+    index: '351',
+    dependency: '408',
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Data types
+
+const DECIMAL = /^-?\d+(?:\.\d+)?$/;
+const INTEGER = /^-?\d+$/;
+const CMI_TIMESPAN = /^\d{2,4}:\d{2}:\d{2}(?:\.\d{1,2})?$/;
+const CMI_TIME = /^\d{2}:\d{2}:\d{2}(?:\.\d{1,2})?$/;
+const ISO_DURATION = /^P(?:\d+Y)?(?:\d+M)?(?:\d+D)?(?:T(?:\d+H)?(?:\d+M)?(?:\d+(?:\.\d{1,2})?S)?)?$/;
+const ISO_TIMESTAMP =
+  /^\d{4}(?:-\d{2}(?:-\d{2}(?:T\d{2}(?::\d{2}(?::\d{2}(?:\.\d{1,2})?)?)?(?:Z|[+-]\d{2}(?::\d{2})?)?)?)?)?$/;
+
+function vocab(values: string[]): Validator {
+  return (v) => (values.includes(v) ? null : 'type');
+}
+
+function characterString(max: number): Validator {
+  return (v) => (v.length > max ? 'range' : null);
+}
+
+function decimal(min: number | null, max: number | null, allowBlank = false): Validator {
+  return (v) => {
+    if (allowBlank && v === '') return null;
+    if (!DECIMAL.test(v)) return 'type';
+    const n = parseFloat(v);
+    if ((min !== null && n < min) || (max !== null && n > max)) return 'range';
+    return null;
+  };
+}
+
+function integer(min: number, max: number): Validator {
+  return (v) => {
+    if (!INTEGER.test(v)) return 'type';
+    const n = parseInt(v, 10);
+    return n < min || n > max ? 'range' : null;
+  };
+}
+
+function identifier(max: number): Validator {
+  return (v) => (v.length > 0 && !/\s/.test(v) ? (v.length > max ? 'range' : null) : 'type');
+}
+
+function pattern(regex: RegExp): Validator {
+  return (v) => (regex.test(v) ? null : 'type');
+}
+
+const timeInterval: Validator = (v) =>
+  ISO_DURATION.test(v) && v !== 'P' && !v.endsWith('T') ? null : 'type';
+
+const NAV_REQUEST: Validator = (v) =>
+  /^(continue|previous|exit|exitAll|abandon|abandonAll|suspendAll|_none_)$/.test(v) ||
+  /^\{target=[^}]+\}(choice|jump)$/.test(v)
+    ? null
+    : 'type';
+
+function either(...validators: Validator[]): Validator {
+  return (v) => {
+    const results = validators.map((validate) => validate(v));
+    return results.includes(null) ? null : results[0];
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SCORM 1.2 (RTE 3.4); n and m are collection indexes
+
+const LESSON_STATUS = ['passed', 'completed', 'failed', 'incomplete', 'browsed'];
+
+const SCORM_12_ELEMENTS = compile([
+  ['cmi.core._children', 'ro'],
+  ['cmi.core.student_id', 'ro'],
+  ['cmi.core.student_name', 'ro'],
+  ['cmi.core.lesson_location', 'rw', characterString(255)],
+  ['cmi.core.credit', 'ro'],
+  // 'not attempted' is the initial value; a SCO can't set it
+  ['cmi.core.lesson_status', 'rw', vocab(LESSON_STATUS)],
+  ['cmi.core.entry', 'ro'],
+  ['cmi.core.score._children', 'ro'],
+  ['cmi.core.score.raw', 'rw', decimal(0, 100, true)],
+  ['cmi.core.score.min', 'rw', decimal(0, 100, true)],
+  ['cmi.core.score.max', 'rw', decimal(0, 100, true)],
+  ['cmi.core.total_time', 'ro'],
+  ['cmi.core.lesson_mode', 'ro'],
+  ['cmi.core.exit', 'wo', vocab(['time-out', 'suspend', 'logout', ''])],
+  ['cmi.core.session_time', 'wo', pattern(CMI_TIMESPAN)],
+  ['cmi.suspend_data', 'rw', characterString(4096)],
+  ['cmi.launch_data', 'ro'],
+  ['cmi.comments', 'rw', characterString(4096)],
+  ['cmi.comments_from_lms', 'ro'],
+  ['cmi.objectives._children', 'ro'],
+  ['cmi.objectives._count', 'ro'],
+  ['cmi.objectives.n.id', 'rw', identifier(255)],
+  ['cmi.objectives.n.score._children', 'ro'],
+  ['cmi.objectives.n.score.raw', 'rw', decimal(0, 100, true)],
+  ['cmi.objectives.n.score.min', 'rw', decimal(0, 100, true)],
+  ['cmi.objectives.n.score.max', 'rw', decimal(0, 100, true)],
+  ['cmi.objectives.n.status', 'rw', vocab([...LESSON_STATUS, 'not attempted'])],
+  ['cmi.student_data._children', 'ro'],
+  ['cmi.student_data.mastery_score', 'ro'],
+  ['cmi.student_data.max_time_allowed', 'ro'],
+  ['cmi.student_data.time_limit_action', 'ro'],
+  ['cmi.student_preference._children', 'ro'],
+  ['cmi.student_preference.audio', 'rw', integer(-1, 100)],
+  ['cmi.student_preference.language', 'rw', characterString(255)],
+  ['cmi.student_preference.speed', 'rw', integer(-100, 100)],
+  ['cmi.student_preference.text', 'rw', integer(-1, 1)],
+  ['cmi.interactions._children', 'ro'],
+  ['cmi.interactions._count', 'ro'],
+  ['cmi.interactions.n.id', 'wo', identifier(255)],
+  ['cmi.interactions.n.objectives._count', 'ro'],
+  ['cmi.interactions.n.objectives.m.id', 'wo', identifier(255)],
+  ['cmi.interactions.n.time', 'wo', pattern(CMI_TIME)],
+  ['cmi.interactions.n.type', 'wo', vocab(['true-false', 'choice', 'fill-in', 'matching',
+    'performance', 'sequencing', 'likert', 'numeric'])],
+  ['cmi.interactions.n.correct_responses._count', 'ro'],
+  ['cmi.interactions.n.correct_responses.m.pattern', 'wo', characterString(255)],
+  ['cmi.interactions.n.weighting', 'wo', decimal(null, null)],
+  ['cmi.interactions.n.student_response', 'wo', characterString(255)],
+  ['cmi.interactions.n.result', 'wo', either(vocab(['correct', 'wrong', 'unanticipated', 'neutral']),
+    decimal(null, null))],
+  ['cmi.interactions.n.latency', 'wo', pattern(CMI_TIMESPAN)],
+]);
+
+// ---------------------------------------------------------------------------
+// SCORM 2004 4th Edition (RTE 4.2)
+
+const COMPLETION = vocab(['completed', 'incomplete', 'not attempted', 'unknown']);
+const SUCCESS = vocab(['passed', 'failed', 'unknown']);
+
+const SCORM_2004_ELEMENTS = compile([
+  ['cmi._version', 'ro'],
+  ['cmi.completion_status', 'rw', COMPLETION],
+  ['cmi.completion_threshold', 'ro'],
+  ['cmi.credit', 'ro'],
+  ['cmi.entry', 'ro'],
+  ['cmi.exit', 'wo', vocab(['timeout', 'suspend', 'logout', 'normal', ''])],
+  ['cmi.launch_data', 'ro'],
+  ['cmi.learner_id', 'ro'],
+  ['cmi.learner_name', 'ro'],
+  ['cmi.learner_preference._children', 'ro'],
+  ['cmi.learner_preference.audio_level', 'rw', decimal(0, null)],
+  ['cmi.learner_preference.language', 'rw', characterString(250)],
+  ['cmi.learner_preference.delivery_speed', 'rw', decimal(0, null)],
+  ['cmi.learner_preference.audio_captioning', 'rw', vocab(['-1', '0', '1'])],
+  ['cmi.location', 'rw', characterString(1000)],
+  ['cmi.max_time_allowed', 'ro'],
+  ['cmi.mode', 'ro'],
+  ['cmi.progress_measure', 'rw', decimal(0, 1)],
+  ['cmi.scaled_passing_score', 'ro'],
+  ['cmi.score._children', 'ro'],
+  ['cmi.score.scaled', 'rw', decimal(-1, 1)],
+  ['cmi.score.raw', 'rw', decimal(null, null)],
+  ['cmi.score.min', 'rw', decimal(null, null)],
+  ['cmi.score.max', 'rw', decimal(null, null)],
+  ['cmi.session_time', 'wo', timeInterval],
+  ['cmi.success_status', 'rw', SUCCESS],
+  ['cmi.suspend_data', 'rw', characterString(64000)],
+  ['cmi.time_limit_action', 'ro'],
+  ['cmi.total_time', 'ro'],
+  ['cmi.comments_from_learner._children', 'ro'],
+  ['cmi.comments_from_learner._count', 'ro'],
+  ['cmi.comments_from_learner.n.comment', 'rw', characterString(4000)],
+  ['cmi.comments_from_learner.n.location', 'rw', characterString(250)],
+  ['cmi.comments_from_learner.n.timestamp', 'rw', pattern(ISO_TIMESTAMP)],
+  ['cmi.comments_from_lms._children', 'ro'],
+  ['cmi.comments_from_lms._count', 'ro'],
+  ['cmi.objectives._children', 'ro'],
+  ['cmi.objectives._count', 'ro'],
+  ['cmi.objectives.n.id', 'rw', identifier(4000)],
+  ['cmi.objectives.n.score._children', 'ro'],
+  ['cmi.objectives.n.score.scaled', 'rw', decimal(-1, 1)],
+  ['cmi.objectives.n.score.raw', 'rw', decimal(null, null)],
+  ['cmi.objectives.n.score.min', 'rw', decimal(null, null)],
+  ['cmi.objectives.n.score.max', 'rw', decimal(null, null)],
+  ['cmi.objectives.n.success_status', 'rw', SUCCESS],
+  ['cmi.objectives.n.completion_status', 'rw', COMPLETION],
+  ['cmi.objectives.n.progress_measure', 'rw', decimal(0, 1)],
+  ['cmi.objectives.n.description', 'rw', characterString(250)],
+  ['cmi.interactions._children', 'ro'],
+  ['cmi.interactions._count', 'ro'],
+  ['cmi.interactions.n.id', 'rw', identifier(4000)],
+  ['cmi.interactions.n.type', 'rw', vocab(['true-false', 'choice', 'fill-in', 'long-fill-in',
+    'matching', 'performance', 'sequencing', 'likert', 'numeric', 'other'])],
+  ['cmi.interactions.n.objectives._count', 'ro'],
+  ['cmi.interactions.n.objectives.m.id', 'rw', identifier(4000)],
+  ['cmi.interactions.n.timestamp', 'rw', pattern(ISO_TIMESTAMP)],
+  ['cmi.interactions.n.correct_responses._count', 'ro'],
+  ['cmi.interactions.n.correct_responses.m.pattern', 'rw', characterString(4000)],
+  ['cmi.interactions.n.weighting', 'rw', decimal(null, null)],
+  ['cmi.interactions.n.learner_response', 'rw', characterString(4000)],
+  ['cmi.interactions.n.result', 'rw', either(vocab(['correct', 'incorrect', 'unanticipated', 'neutral']),
+    decimal(null, null))],
+  ['cmi.interactions.n.latency', 'rw', timeInterval],
+  ['cmi.interactions.n.description', 'rw', characterString(250)],
+  ['adl.nav.request', 'rw', NAV_REQUEST],
+  ['adl.nav.request_valid.continue', 'ro'],
+  ['adl.nav.request_valid.previous', 'ro'],
+]);
+
+/**
+ * Collection sizes the LMS must support (SCORM 2004 smallest permitted
+ * maximums). SCORM 1.2 sets none.
+ */
+const SCORM_2004_COLLECTION_LIMITS: Record<string, number> = {
+  'cmi.comments_from_learner': 250,
+  'cmi.objectives': 100,
+  'cmi.interactions': 250,
+  'cmi.interactions.n.objectives': 10,
+  'cmi.interactions.n.correct_responses': 10,
+};
+
+// Collections whose records are created by setting their id first
+const ID_FIRST_COLLECTIONS: Record<ScormVersion, string[]> = {
+  '1.2': [],
+  '2004': ['cmi.objectives', 'cmi.interactions', 'cmi.interactions.n.objectives'],
+};
+
+function compile(definitions: [string, Access, Validator?][]): ElementDefinition[] {
+  return definitions.map(([name, access, validate]) => ({
+    name,
+    access,
+    validate,
+    regex: new RegExp(
+      '^' +
+        name
+          .split('.')
+          .map((part) => (part === 'n' || part === 'm' ? '(\\d+)' : part.replace(/[$^*+?()[\]{}|]/g, '\\$&')))
+          .join('\\.') +
+        '$'
+    ),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+
+/**
+ * Validates a SCO's committed run-time data element by element. Valid
+ * elements are returned in data; each rejected element is left out and
+ * reported with the version's SCORM error code.
+ */
+export function validateCmiData(version: ScormVersion, input: unknown): CmiValidationResult {
+  const data: Record<string, string> = {};
+  const errors: CmiElementError[] = [];
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { data, errors: [{ element: '', code: '201', message: 'Run-time data must be an object' }] };
+  }
+
+  const definitions = version === '2004' ? SCORM_2004_ELEMENTS : SCORM_12_ELEMENTS;
+  const reject = (element: string, violation: Violation, message: string) => {
+    errors.push({ element, code: ERROR_CODES[version][violation], message });
+  };
+
+  for (const [element, raw] of Object.entries(input as Record<string, unknown>)) {
+    if (typeof raw !== 'string' && typeof raw !== 'number' && typeof raw !== 'boolean') {
+      reject(element, 'type', `${element} must be a string`);
+      continue;
+    }
+    const value = String(raw);
+
+    const definition = definitions.find((d) => d.regex.test(element));
+    if (!definition) {
+      reject(element, 'undefined', `${element} is not a SCORM ${version} data model element`);
+      continue;
+    }
+
+    if (/\._(children|count|version)$/.test(element)) {
+      reject(element, 'keyword', `${element} is a keyword and can't be set`);
+      continue;
+    }
+
+    if (definition.access === 'ro') {
+      reject(element, 'readOnly', `${element} is read only`);
+      continue;
+    }
+
+    const violation = definition.validate?.(value);
+    if (violation) {
+      reject(
+        element,
+        violation,
+        violation === 'range' ? `${element} is out of range or too long` : `${element} has an invalid value`
+      );
+      continue;
+    }
+
+    data[element] = value;
+  }
+
+  checkCollections(version, data, reject);
+
+  return { data, errors };
+}
+
+/**
+ * Collection records must be numbered from 0 without gaps, stay within the
+ * required sizes and, where SCORM 2004 requires it, have an id
+ */
+function checkCollections(
+  version: ScormVersion,
+  data: Record<string, string>,
+  reject: (element: string, violation: Violation, message: string) => void
+): void {
+  // Collection prefix (e.g. cmi.interactions.0.objectives) -> indexes used
+  const collections = new Map<string, Set<number>>();
+  for (const element of Object.keys(data)) {
+    const parts = element.split('.');
+    parts.forEach((part, i) => {
+      if (i === 0 || !/^\d+$/.test(part)) return;
+      const prefix = parts.slice(0, i).join('.');
+      if (!collections.has(prefix)) collections.set(prefix, new Set());
+      collections.get(prefix)!.add(parseInt(part, 10));
+    });
+  }
+
+  for (const [prefix, indexes] of collections) {
+    const name = prefix.replace(/\.\d+\./g, '.n.');
+    const limit = version === '2004' ? SCORM_2004_COLLECTION_LIMITS[name] : undefined;
+    const idFirst = ID_FIRST_COLLECTIONS[version].includes(name);
+
+    const sorted = Array.from(indexes).sort((a, b) => a - b);
+
+    sorted.forEach((index, position) => {
+      let violation: Violation | null = null;
+      let message = '';
+
+      if (index !== position) {
+        violation = 'index';
+        message = `${prefix}.${index} follows a missing record`;
+      } else if (limit !== undefined && index >= limit) {
+        violation = 'index';
+        message = `${prefix} holds at most ${limit} records`;
+      } else if (idFirst && data[`${prefix}.${index}.id`] === undefined) {
+        violation = 'dependency';
+        message = `${prefix}.${index}.id must be set first`;
+      }
+
+      if (!violation) return;
+
+      const recordPrefix = `${prefix}.${index}.`;
+      for (const element of Object.keys(data)) {
+        if (element.startsWith(recordPrefix)) {
+          reject(element, violation, message);
+          delete data[element];
+        }
+      }
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Time values
+
+/**
+ * Parses a SCORM 1.2 CMITimespan (HHHH:MM:SS.SS) or a SCORM 2004 ISO 8601
+ * duration into seconds. Returns null for values that aren't valid for the
+ * version. Years and months count as 365 and 30 days.
+ */
+export function parseTimespan(version: ScormVersion, value: string | undefined): number | null {
+  if (!value) return null;
+
+  if (version === '1.2') {
+    if (!CMI_TIMESPAN.test(value)) return null;
+    const [hours, minutes, seconds] = value.split(':').map(parseFloat);
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  if (timeInterval(value) !== null) return null;
+  const match = /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/.exec(value);
+  if (!match) return null;
+
+  const [years, months, days, hours, minutes, seconds] = match.slice(1).map((part) => parseFloat(part || '0'));
+  return (years * 365 + months * 30 + days) * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Formats seconds as the version's total_time value
+ */
+export function formatTimespan(version: ScormVersion, totalSeconds: number): string {
+  const centiseconds = Math.round(Math.max(0, totalSeconds) * 100);
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const seconds = (centiseconds % 6000) / 100;
+
+  if (version === '1.2') {
+    const [whole, fraction] = seconds.toFixed(2).split('.');
+    return `${String(Math.min(hours, 9999)).padStart(4, '0')}:${String(minutes).padStart(2, '0')}:` +
+      `${whole.padStart(2, '0')}${fraction === '00' ? '' : `.${fraction}`}`;
+  }
+
+  return `PT${hours}H${minutes}M${Number(seconds.toFixed(2))}S`;
+}
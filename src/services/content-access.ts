@@ -0,0 +1,38 @@
+import path from 'path';
+import { config } from '../config.js';
+import { signHmacJwt, verifyHmacJwt } from './jwt.js';
+
+// Signed URLs expire on these boundaries, so every delivery within the same
+// window gets the same URL and the browser cache keeps working across SCOs
+const EXPIRY_ROUNDING_SECONDS = 15 * 60;
+
+/**
+ * URL prefix that serves one course's files until it expires. SCOs load
+ * their own assets with relative URLs, which stay under the prefix. The
+ * token names the course's content directory, which changes when the
+ * package is replaced.
+ */
+export function signContentBase(courseId: string, contentPath: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const exp = Math.ceil((now + config.content.urlTtlSeconds) / EXPIRY_ROUNDING_SECONDS) * EXPIRY_ROUNDING_SECONDS;
+
+  const token = signHmacJwt(
+    { sub: courseId, dir: path.basename(contentPath), scope: 'content', exp },
+    config.attemptToken.secret
+  );
+  return `/content/s/${token}/`;
+}
+
+/**
+ * Checks a signed content token and returns the content directory it
+ * grants, with its expiry in epoch seconds
+ */
+export function verifyContentToken(token: string): { courseId: string; directory: string; expiresAt: number } {
+  const payload = verifyHmacJwt(token, config.attemptToken.secret);
+
+  if (payload.scope !== 'content' || typeof payload.sub !== 'string' || typeof payload.dir !== 'string') {
+    throw new Error('Not a content token');
+  }
+
+  return { courseId: payload.sub, directory: payload.dir, expiresAt: payload.exp as number };
+}
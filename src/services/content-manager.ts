@@ -1,60 +1,452 @@
 import AdmZip from 'adm-zip';
 import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
 import path from 'path';
+import zlib from 'zlib';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import { parseString } from 'xml2js';
 import { promisify } from 'util';
+import { config } from '../config.js';
 
 const parseXml = promisify(parseString);
 
 export interface ManifestData {
   title: string;
   scormVersion: '1.2' | '2004';
+  edition: ScormEdition | null; // null when a 2004 manifest doesn't declare its edition
   launchPath: string;
   identifier: string;
+  defaultOrganization?: string;
   organizations: OrganizationData[];
   resources: ResourceData[];
 }
 
-interface OrganizationData {
+export interface OrganizationData {
   identifier: string;
   title: string;
   items: ItemData[];
+  sequencing?: SequencingData;
 }
 
-interface ItemData {
+export interface ItemData {
   identifier: string;
   title: string;
   resourceId?: string;
+  isVisible: boolean;
+  parameters?: string;
+  // adlcp extensions; masteryScore and maxTimeAllowed are SCORM 1.2 only
+  prerequisites?: string;
+  masteryScore?: number;
+  maxTimeAllowed?: string;
+  timeLimitAction?: string;
+  dataFromLms?: string;
+  items?: ItemData[];
+  sequencing?: SequencingData;
 }
 
-interface ResourceData {
+export interface ResourceData {
   identifier: string;
   type: string;
   href?: string;
   scormType?: string;
+  files: string[];
+  dependencies: string[];
 }
 
 /**
- * Extracts a SCORM package (zip) to the target directory
+ * IMS Simple Sequencing definition of an activity (SCORM 2004). Only the
+ * elements present in the manifest are set; defaults are applied by the
+ * sequencing engine.
+ */
+export interface SequencingData {
+  controlMode?: {
+    choice?: boolean;
+    choiceExit?: boolean;
+    flow?: boolean;
+    forwardOnly?: boolean;
+  };
+  preConditionRules?: SequencingRule[];
+  exitConditionRules?: SequencingRule[];
+  postConditionRules?: SequencingRule[];
+  limitConditions?: {
+    attemptLimit?: number;
+    attemptAbsoluteDurationLimit?: string;
+  };
+  rollupRules?: RollupRule[];
+  rollupControls?: {
+    rollupObjectiveSatisfied?: boolean;
+    rollupProgressCompletion?: boolean;
+    objectiveMeasureWeight?: number;
+  };
+  objectives?: ObjectiveDefinition[];
+  deliveryControls?: {
+    tracked?: boolean;
+    completionSetByContent?: boolean;
+    objectiveSetByContent?: boolean;
+  };
+}
+
+export interface RuleCondition {
+  condition: string;
+  operator: 'not' | 'noOp';
+  referencedObjective?: string;
+  measureThreshold?: number;
+}
+
+export interface SequencingRule {
+  conditionCombination: 'all' | 'any';
+  conditions: RuleCondition[];
+  action: string;
+}
+
+export interface RollupRule {
+  childActivitySet: 'all' | 'any' | 'none' | 'atLeastCount' | 'atLeastPercent';
+  minimumCount: number;
+  minimumPercent: number;
+  conditionCombination: 'all' | 'any';
+  conditions: RuleCondition[];
+  action: 'satisfied' | 'notSatisfied' | 'completed' | 'incomplete';
+}
+
+export interface ObjectiveDefinition {
+  id: string;
+  primary: boolean;
+  satisfiedByMeasure: boolean;
+  minNormalizedMeasure: number;
+  mapInfo: {
+    targetObjectiveId: string;
+    readSatisfiedStatus: boolean;
+    readNormalizedMeasure: boolean;
+    writeSatisfiedStatus: boolean;
+    writeNormalizedMeasure: boolean;
+  }[];
+}
+
+type XmlNode = Record<string, unknown>;
+
+/**
+ * SCORM release a manifest declares in its metadata <schemaversion>. The
+ * 2004 2nd Edition names its CAM version (CAM 1.3) instead of an edition.
+ */
+export type ScormEdition = '1.2' | '2004 2nd Edition' | '2004 3rd Edition' | '2004 4th Edition';
+
+/**
+ * What a manifest says about its SCORM version: the declared schemaversion
+ * and the version its namespaces belong to, which can disagree
+ */
+export interface ScormIdentity {
+  scormVersion: '1.2' | '2004';
+  edition: ScormEdition | null;
+  identifiedBy: 'schemaversion' | 'namespaces';
+  declaredVersion?: string; // <schemaversion> as written
+  namespaceVersion?: '1.2' | '2004';
+}
+
+const SCHEMA_VERSIONS: Record<string, ScormEdition> = {
+  '1.2': '1.2',
+  'cam 1.3': '2004 2nd Edition',
+  '2004 3rd edition': '2004 3rd Edition',
+  '2004 4th edition': '2004 4th Edition',
+};
+
+// Namespaces only SCORM 2004 manifests use (CAM, sequencing, navigation)
+const SCORM_2004_NAMESPACES = [
+  'http://www.adlnet.org/xsd/adlcp_v1p3',
+  'http://www.adlnet.org/xsd/adlseq_v1p3',
+  'http://www.adlnet.org/xsd/adlnav_v1p3',
+  'http://www.imsglobal.org/xsd/imsss',
+];
+const SCORM_12_NAMESPACES = ['http://www.adlnet.org/xsd/adlcp_rootv1p2'];
+
+// Descriptors of other e-learning package formats, so an upload of one is
+// refused by name rather than for lacking imsmanifest.xml
+const OTHER_PACKAGE_FORMATS: { format: string; matches: (fileName: string) => boolean }[] = [
+  { format: 'cmi5', matches: (fileName) => fileName === 'cmi5.xml' },
+  { format: 'xAPI (Tin Can)', matches: (fileName) => fileName === 'tincan.xml' },
+  { format: 'AICC', matches: (fileName) => fileName.endsWith('.crs') },
+];
+
+/**
+ * Limits on an uploaded package, checked against the bytes actually
+ * inflated rather than the sizes the zip declares
+ */
+export interface ExtractionLimits {
+  maxTotalBytes: number; // uncompressed, across all entries
+  maxFiles: number;
+  maxCompressionRatio: number; // uncompressed / compressed, per entry
+}
+
+export type PackageRejectionReason =
+  | 'invalid_zip'
+  | 'path_traversal'
+  | 'absolute_path'
+  | 'symlink'
+  | 'encrypted_entry'
+  | 'unsupported_compression'
+  | 'blocked_file_type'
+  | 'too_many_files'
+  | 'too_large'
+  | 'compression_ratio'
+  | 'manifest_missing'
+  | 'unsupported_format';
+
+export interface PackageRejection {
+  reason: PackageRejectionReason;
+  entry?: string; // zip entry name, when the rejection is about one entry
+  message: string;
+}
+
+/**
+ * Outcome of extracting a package. A rejected package leaves nothing in
+ * the target directory.
+ */
+export interface ExtractionReport {
+  accepted: boolean;
+  fileCount: number;
+  totalBytes: number; // uncompressed bytes written
+  rejections: PackageRejection[];
+}
+
+// Files a web server might execute, or that only make sense on a server
+const BLOCKED_EXTENSIONS = [
+  '.php', '.phtml', '.php3', '.php4', '.php5', '.phar', '.asp', '.aspx', '.ashx', '.asmx', '.jsp', '.jspx',
+  '.cgi', '.pl', '.py', '.rb', '.sh', '.bash', '.exe', '.dll', '.so', '.dylib', '.com', '.bat', '.cmd',
+  '.msi', '.ps1', '.vbs', '.scr', '.jar', '.war',
+];
+const BLOCKED_FILENAMES = ['.htaccess', '.htpasswd', 'web.config'];
+
+// Small files compress far better than anything that threatens the disk,
+// so the ratio is only checked once an entry grows past this
+const RATIO_CHECK_MIN_BYTES = 1024 * 1024;
+
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATED = 8;
+const ZIP_FLAG_ENCRYPTED = 0x1;
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Extracts a SCORM package (zip) to the target directory. Every entry is
+ * checked before anything is written: paths must stay inside the target,
+ * symlinks, encrypted entries and server-side or executable files are
+ * refused, the declared sizes and file count must be within limits, and
+ * imsmanifest.xml must be at the root. Entries are then inflated as
+ * streams, counting the real bytes, so a zip that lies about its sizes is
+ * stopped once it passes a limit.
  */
 export async function extractScormPackage(
   zipPath: string,
-  targetDir: string
-): Promise<void> {
-  // Ensure target directory exists
-  await fs.mkdir(targetDir, { recursive: true });
+  targetDir: string,
+  limits: ExtractionLimits = {
+    maxTotalBytes: config.content.maxPackageBytes,
+    maxFiles: config.content.maxPackageFiles,
+    maxCompressionRatio: config.content.maxCompressionRatio,
+  }
+): Promise<ExtractionReport> {
+  const report: ExtractionReport = { accepted: false, fileCount: 0, totalBytes: 0, rejections: [] };
+
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(zipPath).getEntries();
+  } catch (error) {
+    report.rejections.push({
+      reason: 'invalid_zip',
+      message: `Not a readable zip file: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return report;
+  }
+
+  const root = path.resolve(targetDir);
+  const files = entries.filter((entry) => !entry.isDirectory);
+
+  for (const entry of entries) {
+    const rejection = checkEntry(entry, root);
+    if (rejection) report.rejections.push(rejection);
+  }
+
+  if (files.length > limits.maxFiles) {
+    report.rejections.push({
+      reason: 'too_many_files',
+      message: `Package has ${files.length} files; the limit is ${limits.maxFiles}`,
+    });
+  }
 
-  // Extract zip
-  const zip = new AdmZip(zipPath);
-  zip.extractAllTo(targetDir, true);
+  const declaredBytes = files.reduce((sum, entry) => sum + entry.header.size, 0);
+  if (declaredBytes > limits.maxTotalBytes) {
+    report.rejections.push({
+      reason: 'too_large',
+      message: `Package expands to ${declaredBytes} bytes; the limit is ${limits.maxTotalBytes}`,
+    });
+  }
+
+  // A package with both imsmanifest.xml and another format's descriptor is
+  // delivered as SCORM
+  if (!files.some((entry) => entryPath(entry) === 'imsmanifest.xml')) {
+    report.rejections.push(missingManifestRejection(files));
+  }
+
+  if (report.rejections.length > 0) return report;
+
+  await fs.mkdir(root, { recursive: true });
 
-  // Verify manifest exists
-  const manifestPath = path.join(targetDir, 'imsmanifest.xml');
   try {
-    await fs.access(manifestPath);
-  } catch {
-    throw new Error('Invalid SCORM package: imsmanifest.xml not found');
+    for (const entry of entries) {
+      const destination = path.resolve(root, entryPath(entry));
+
+      if (entry.isDirectory) {
+        await fs.mkdir(destination, { recursive: true });
+        continue;
+      }
+
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      report.totalBytes += await inflateEntry(entry, destination, limits, report.totalBytes);
+      report.fileCount++;
+    }
+  } catch (error) {
+    await fs.rm(root, { recursive: true, force: true });
+    if (!isRejectionError(error)) throw error;
+    report.rejections.push(error.rejection);
+    return report;
+  }
+
+  report.accepted = true;
+  return report;
+}
+
+/**
+ * Names the package's format when it's cmi5, xAPI or AICC rather than SCORM
+ */
+function missingManifestRejection(files: AdmZip.IZipEntry[]): PackageRejection {
+  for (const entry of files) {
+    const fileName = path.posix.basename(entryPath(entry)).toLowerCase();
+    const other = OTHER_PACKAGE_FORMATS.find((f) => f.matches(fileName));
+    if (other) {
+      return {
+        reason: 'unsupported_format',
+        entry: entryPath(entry),
+        message: `${other.format} packages aren't supported; only SCORM 1.2 and 2004 packages can be uploaded`,
+      };
+    }
+  }
+
+  return {
+    reason: 'manifest_missing',
+    message: 'Invalid SCORM package: imsmanifest.xml not found',
+  };
+}
+
+/**
+ * Entry name with Windows separators turned into forward slashes
+ */
+function entryPath(entry: AdmZip.IZipEntry): string {
+  return entry.entryName.replace(/\\/g, '/');
+}
+
+/**
+ * Why an entry can't be extracted, if it can't
+ */
+function checkEntry(entry: AdmZip.IZipEntry, root: string): PackageRejection | null {
+  const name = entryPath(entry);
+
+  if (name.startsWith('/') || /^[a-zA-Z]:/.test(name)) {
+    return { reason: 'absolute_path', entry: entry.entryName, message: 'Entry has an absolute path' };
+  }
+
+  const destination = path.resolve(root, name);
+  if (
+    name.includes('\0') ||
+    name.split('/').includes('..') ||
+    (destination !== root && !destination.startsWith(root + path.sep))
+  ) {
+    return { reason: 'path_traversal', entry: entry.entryName, message: 'Entry path leaves the package directory' };
+  }
+
+  if (((entry.attr >>> 16) & S_IFMT) === S_IFLNK) {
+    return { reason: 'symlink', entry: entry.entryName, message: 'Symbolic links are not allowed' };
+  }
+
+  if (entry.isDirectory) return null;
+
+  if (entry.header.flags & ZIP_FLAG_ENCRYPTED) {
+    return { reason: 'encrypted_entry', entry: entry.entryName, message: 'Encrypted entries are not supported' };
   }
+
+  if (entry.header.method !== ZIP_METHOD_STORED && entry.header.method !== ZIP_METHOD_DEFLATED) {
+    return {
+      reason: 'unsupported_compression',
+      entry: entry.entryName,
+      message: `Compression method ${entry.header.method} is not supported`,
+    };
+  }
+
+  const filename = path.posix.basename(name).toLowerCase();
+  if (BLOCKED_FILENAMES.includes(filename) || BLOCKED_EXTENSIONS.includes(path.posix.extname(filename))) {
+    return { reason: 'blocked_file_type', entry: entry.entryName, message: 'Server-side or executable files are not allowed' };
+  }
+
+  return null;
+}
+
+/**
+ * Streams one entry to disk and returns the bytes written. Fails with a
+ * rejection as soon as the package total or the entry's compression ratio
+ * goes over its limit.
+ */
+async function inflateEntry(
+  entry: AdmZip.IZipEntry,
+  destination: string,
+  limits: ExtractionLimits,
+  bytesSoFar: number
+): Promise<number> {
+  const compressed = entry.getCompressedData();
+  let written = 0;
+
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length;
+
+      if (bytesSoFar + written > limits.maxTotalBytes) {
+        return callback(
+          rejectionError({
+            reason: 'too_large',
+            entry: entry.entryName,
+            message: `Package expands past the ${limits.maxTotalBytes} byte limit`,
+          })
+        );
+      }
+      if (written > RATIO_CHECK_MIN_BYTES && written / Math.max(compressed.length, 1) > limits.maxCompressionRatio) {
+        return callback(
+          rejectionError({
+            reason: 'compression_ratio',
+            entry: entry.entryName,
+            message: `Entry expands more than ${limits.maxCompressionRatio} times its compressed size`,
+          })
+        );
+      }
+
+      callback(null, chunk);
+    },
+  });
+
+  const source = Readable.from([compressed]);
+  const output = createWriteStream(destination);
+
+  if (entry.header.method === ZIP_METHOD_DEFLATED) {
+    await pipeline(source, zlib.createInflateRaw(), counter, output);
+  } else {
+    await pipeline(source, counter, output);
+  }
+
+  return written;
+}
+
+function rejectionError(rejection: PackageRejection): Error & { rejection: PackageRejection } {
+  return Object.assign(new Error(rejection.message), { rejection });
+}
+
+function isRejectionError(error: unknown): error is Error & { rejection: PackageRejection } {
+  return error instanceof Error && 'rejection' in error;
 }
 
 /**
@@ -69,14 +461,24 @@ export async function parseManifest(manifestPath: string): Promise<ManifestData>
     throw new Error('Invalid manifest: missing manifest root element');
   }
 
-  // Detect SCORM version
-  const scormVersion = detectScormVersion(manifest);
+  return parseManifestRoot(manifest);
+}
+
+/**
+ * Extracts course metadata from an already parsed <manifest> root element
+ */
+export function parseManifestRoot(manifest: Record<string, unknown>): ManifestData {
+  const identity = identifyScormVersion(manifest);
+  if (!identity) {
+    throw new Error('Invalid manifest: not a SCORM 1.2 or 2004 manifest');
+  }
 
   // Get metadata/title
   const title = extractTitle(manifest);
 
-  // Get organizations
-  const organizations = extractOrganizations(manifest);
+  // Get organizations (with sequencing for SCORM 2004)
+  const sequencingCollection = extractSequencingCollection(manifest);
+  const organizations = extractOrganizations(manifest, sequencingCollection);
 
   // Get resources
   const resources = extractResources(manifest);
@@ -85,31 +487,64 @@ export async function parseManifest(manifestPath: string): Promise<ManifestData>
   const launchPath = findLaunchPath(organizations, resources);
 
   const attrs = manifest.$ as Record<string, string> | undefined;
+  const orgsAttrs = ((manifest.organizations as unknown[])?.[0] as XmlNode | undefined)?.$ as
+    | Record<string, string>
+    | undefined;
 
   return {
     title,
-    scormVersion,
+    scormVersion: identity.scormVersion,
+    edition: identity.edition,
     launchPath,
     identifier: attrs?.identifier || 'unknown',
+    defaultOrganization: orgsAttrs?.default,
     organizations,
     resources,
   };
 }
 
 /**
- * Detects SCORM version from manifest namespaces
+ * Identifies the SCORM version and edition of a manifest root element. The
+ * declared <schemaversion> wins; without a recognised one the ADL and IMS SS
+ * namespaces decide the version. Returns null for a manifest with neither,
+ * such as a plain IMS content package.
  */
-function detectScormVersion(manifest: Record<string, unknown>): '1.2' | '2004' {
-  const attrs = manifest.$ as Record<string, string> | undefined;
-  if (!attrs) return '1.2';
-
-  // Check for SCORM 2004 namespace
-  const namespaces = Object.values(attrs).join(' ');
-  if (namespaces.includes('adlcp_v1p3') || namespaces.includes('2004')) {
-    return '2004';
+export function identifyScormVersion(manifest: Record<string, unknown>): ScormIdentity | null {
+  const metadata = childElements(manifest, 'metadata')[0];
+  const declaredVersion = metadata ? childText(metadata, 'schemaversion') : undefined;
+  const declaredEdition = declaredVersion
+    ? SCHEMA_VERSIONS[declaredVersion.replace(/\s+/g, ' ').toLowerCase()]
+    : undefined;
+
+  const namespaces = Object.entries(attributes(manifest))
+    .filter(([name]) => name === 'xmlns' || name.startsWith('xmlns:'))
+    .map(([, uri]) => uri.trim().replace(/\/$/, ''));
+  const namespaceVersion = namespaces.some((uri) => SCORM_2004_NAMESPACES.includes(uri))
+    ? '2004'
+    : namespaces.some((uri) => SCORM_12_NAMESPACES.includes(uri))
+      ? '1.2'
+      : undefined;
+
+  if (declaredEdition) {
+    return {
+      scormVersion: declaredEdition === '1.2' ? '1.2' : '2004',
+      edition: declaredEdition,
+      identifiedBy: 'schemaversion',
+      declaredVersion,
+      namespaceVersion,
+    };
   }
 
-  return '1.2';
+  if (!namespaceVersion) return null;
+
+  return {
+    scormVersion: namespaceVersion,
+    // SCORM 1.2 has one edition; the 2004 editions share their namespaces
+    edition: namespaceVersion === '1.2' ? '1.2' : null,
+    identifiedBy: 'namespaces',
+    declaredVersion,
+    namespaceVersion,
+  };
 }
 
 /**
@@ -153,7 +588,10 @@ function extractTitle(manifest: Record<string, unknown>): string {
 /**
  * Extracts organization structure from manifest
  */
-function extractOrganizations(manifest: Record<string, unknown>): OrganizationData[] {
+function extractOrganizations(
+  manifest: Record<string, unknown>,
+  sequencingCollection: Map<string, SequencingData>
+): OrganizationData[] {
   const orgsWrapper = (manifest.organizations as unknown[])?.[0] as Record<string, unknown> | undefined;
   if (!orgsWrapper) return [];
 
@@ -167,29 +605,203 @@ function extractOrganizations(manifest: Record<string, unknown>): OrganizationDa
     return {
       identifier: attrs?.identifier || 'unknown',
       title: extractStringValue(o.title),
-      items: extractItems(o.item as unknown[]),
+      items: extractItems(o.item as unknown[], sequencingCollection),
+      sequencing: extractSequencing(o, sequencingCollection),
     };
   });
 }
 
 /**
- * Extracts items from organization
+ * Extracts the item tree of an organization, including nested items
  */
-function extractItems(items: unknown[] | undefined): ItemData[] {
+function extractItems(
+  items: unknown[] | undefined,
+  sequencingCollection: Map<string, SequencingData>
+): ItemData[] {
   if (!items) return [];
 
   return items.map((item) => {
     const i = item as Record<string, unknown>;
     const attrs = i.$ as Record<string, string> | undefined;
+    const children = extractItems(i.item as unknown[] | undefined, sequencingCollection);
+    const masteryScore = parseFloat(childText(i, 'masteryscore') ?? '');
 
     return {
       identifier: attrs?.identifier || 'unknown',
       title: extractStringValue(i.title),
       resourceId: attrs?.identifierref,
+      isVisible: attrs?.isvisible !== 'false',
+      parameters: attrs?.parameters || undefined,
+      prerequisites: childText(i, 'prerequisites'),
+      masteryScore: Number.isFinite(masteryScore) ? masteryScore : undefined,
+      maxTimeAllowed: childText(i, 'maxtimeallowed'),
+      timeLimitAction: childText(i, 'timelimitaction'),
+      dataFromLms: childText(i, 'datafromlms'),
+      ...(children.length > 0 ? { items: children } : {}),
+      sequencing: extractSequencing(i, sequencingCollection),
     };
   });
 }
 
+/**
+ * Reads the shared <imsss:sequencingCollection> definitions, keyed by ID
+ */
+function extractSequencingCollection(manifest: XmlNode): Map<string, SequencingData> {
+  const collection = new Map<string, SequencingData>();
+
+  for (const wrapper of childElements(manifest, 'sequencingCollection')) {
+    for (const seq of childElements(wrapper, 'sequencing')) {
+      const id = attributes(seq).ID;
+      if (id) {
+        collection.set(id, parseSequencing(seq));
+      }
+    }
+  }
+
+  return collection;
+}
+
+/**
+ * Reads the <imsss:sequencing> of an item or organization. Elements defined
+ * locally replace those of a referenced collection entry (IDRef).
+ */
+function extractSequencing(
+  node: XmlNode,
+  sequencingCollection: Map<string, SequencingData>
+): SequencingData | undefined {
+  const seq = childElements(node, 'sequencing')[0];
+  if (!seq) return undefined;
+
+  const idRef = attributes(seq).IDRef;
+  const base = idRef ? sequencingCollection.get(idRef) : undefined;
+
+  return { ...base, ...parseSequencing(seq) };
+}
+
+function parseSequencing(seq: XmlNode): SequencingData {
+  const data: SequencingData = {};
+
+  const controlMode = childElements(seq, 'controlMode')[0];
+  if (controlMode) {
+    const a = attributes(controlMode);
+    data.controlMode = {
+      choice: parseBoolean(a.choice),
+      choiceExit: parseBoolean(a.choiceExit),
+      flow: parseBoolean(a.flow),
+      forwardOnly: parseBoolean(a.forwardOnly),
+    };
+  }
+
+  const rules = childElements(seq, 'sequencingRules')[0];
+  if (rules) {
+    data.preConditionRules = childElements(rules, 'preConditionRule').map(parseSequencingRule);
+    data.exitConditionRules = childElements(rules, 'exitConditionRule').map(parseSequencingRule);
+    data.postConditionRules = childElements(rules, 'postConditionRule').map(parseSequencingRule);
+  }
+
+  const limits = childElements(seq, 'limitConditions')[0];
+  if (limits) {
+    const a = attributes(limits);
+    data.limitConditions = {
+      attemptLimit: a.attemptLimit !== undefined ? parseInt(a.attemptLimit, 10) : undefined,
+      attemptAbsoluteDurationLimit: a.attemptAbsoluteDurationLimit,
+    };
+  }
+
+  const rollupRules = childElements(seq, 'rollupRules')[0];
+  if (rollupRules) {
+    const a = attributes(rollupRules);
+    data.rollupControls = {
+      rollupObjectiveSatisfied: parseBoolean(a.rollupObjectiveSatisfied),
+      rollupProgressCompletion: parseBoolean(a.rollupProgressCompletion),
+      objectiveMeasureWeight: a.objectiveMeasureWeight !== undefined
+        ? parseFloat(a.objectiveMeasureWeight)
+        : undefined,
+    };
+    data.rollupRules = childElements(rollupRules, 'rollupRule').map(parseRollupRule);
+  }
+
+  const objectives = childElements(seq, 'objectives')[0];
+  if (objectives) {
+    data.objectives = [
+      ...childElements(objectives, 'primaryObjective').map((o) => parseObjective(o, true)),
+      ...childElements(objectives, 'objective').map((o) => parseObjective(o, false)),
+    ];
+  }
+
+  const delivery = childElements(seq, 'deliveryControls')[0];
+  if (delivery) {
+    const a = attributes(delivery);
+    data.deliveryControls = {
+      tracked: parseBoolean(a.tracked),
+      completionSetByContent: parseBoolean(a.completionSetByContent),
+      objectiveSetByContent: parseBoolean(a.objectiveSetByContent),
+    };
+  }
+
+  return data;
+}
+
+function parseSequencingRule(rule: XmlNode): SequencingRule {
+  const conditions = childElements(rule, 'ruleConditions')[0];
+  const action = childElements(rule, 'ruleAction')[0];
+
+  return {
+    conditionCombination: attributes(conditions).conditionCombination === 'any' ? 'any' : 'all',
+    conditions: childElements(conditions, 'ruleCondition').map(parseRuleCondition),
+    action: attributes(action).action || '',
+  };
+}
+
+function parseRollupRule(rule: XmlNode): RollupRule {
+  const a = attributes(rule);
+  const conditions = childElements(rule, 'rollupConditions')[0];
+  const action = childElements(rule, 'rollupAction')[0];
+
+  return {
+    childActivitySet: (a.childActivitySet as RollupRule['childActivitySet']) || 'all',
+    minimumCount: a.minimumCount !== undefined ? parseInt(a.minimumCount, 10) : 0,
+    minimumPercent: a.minimumPercent !== undefined ? parseFloat(a.minimumPercent) : 0,
+    // Rollup conditions combine with 'any' unless stated otherwise
+    conditionCombination: attributes(conditions).conditionCombination === 'all' ? 'all' : 'any',
+    conditions: childElements(conditions, 'rollupCondition').map(parseRuleCondition),
+    action: attributes(action).action as RollupRule['action'],
+  };
+}
+
+function parseRuleCondition(condition: XmlNode): RuleCondition {
+  const a = attributes(condition);
+
+  return {
+    condition: a.condition || 'always',
+    operator: a.operator === 'not' ? 'not' : 'noOp',
+    referencedObjective: a.referencedObjective,
+    measureThreshold: a.measureThreshold !== undefined ? parseFloat(a.measureThreshold) : undefined,
+  };
+}
+
+function parseObjective(objective: XmlNode, primary: boolean): ObjectiveDefinition {
+  const a = attributes(objective);
+  const minMeasure = childElements(objective, 'minNormalizedMeasure')[0];
+
+  return {
+    id: a.objectiveID || '',
+    primary,
+    satisfiedByMeasure: a.satisfiedByMeasure === 'true',
+    minNormalizedMeasure: minMeasure?._ !== undefined ? parseFloat(String(minMeasure._)) : 1,
+    mapInfo: childElements(objective, 'mapInfo').map((mapInfo) => {
+      const m = attributes(mapInfo);
+      return {
+        targetObjectiveId: m.targetObjectiveID || '',
+        readSatisfiedStatus: m.readSatisfiedStatus !== 'false',
+        readNormalizedMeasure: m.readNormalizedMeasure !== 'false',
+        writeSatisfiedStatus: m.writeSatisfiedStatus === 'true',
+        writeNormalizedMeasure: m.writeNormalizedMeasure === 'true',
+      };
+    }),
+  };
+}
+
 /**
  * Extracts resources from manifest
  */
@@ -209,6 +821,12 @@ function extractResources(manifest: Record<string, unknown>): ResourceData[] {
       type: attrs?.type || 'webcontent',
       href: attrs?.href,
       scormType: attrs?.['adlcp:scormtype'] || attrs?.['adlcp:scormType'],
+      files: childElements(r, 'file')
+        .map((file) => attributes(file).href)
+        .filter((href): href is string => !!href),
+      dependencies: childElements(r, 'dependency')
+        .map((dependency) => attributes(dependency).identifierref)
+        .filter((ref): ref is string => !!ref),
     };
   });
 }
@@ -220,16 +838,24 @@ function findLaunchPath(
   organizations: OrganizationData[],
   resources: ResourceData[]
 ): string {
-  // Find first item with a resource reference
-  for (const org of organizations) {
-    for (const item of org.items) {
+  // Find first item (depth-first) with a resource reference
+  const findInItems = (items: ItemData[]): string | undefined => {
+    for (const item of items) {
       if (item.resourceId) {
         const resource = resources.find((r) => r.identifier === item.resourceId);
         if (resource?.href) {
           return resource.href;
         }
       }
+      const nested = findInItems(item.items || []);
+      if (nested) return nested;
     }
+    return undefined;
+  };
+
+  for (const org of organizations) {
+    const href = findInItems(org.items);
+    if (href) return href;
   }
 
   // Fallback: find first resource with href that looks like a launch file
@@ -260,3 +886,42 @@ function extractStringValue(element: unknown): string {
   }
   return '';
 }
+
+/**
+ * Returns child elements by local name, whatever namespace prefix the
+ * manifest uses (e.g. imsss:sequencing or sequencing)
+ */
+export function childElements(node: XmlNode | undefined, localName: string): XmlNode[] {
+  if (!node) return [];
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === localName || key.endsWith(`:${localName}`)) {
+      return (value as unknown[]).map((v) =>
+        typeof v === 'object' && v !== null ? (v as XmlNode) : { _: v }
+      );
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Text of a child element matched case-insensitively by local name, since
+ * SCORM 1.2 and 2004 spell the adlcp elements differently (datafromlms vs
+ * dataFromLMS). Returns undefined when the element is absent or empty.
+ */
+function childText(node: XmlNode, localName: string): string | undefined {
+  const key = Object.keys(node).find((k) => k.split(':').pop()?.toLowerCase() === localName);
+  if (!key) return undefined;
+
+  const text = extractStringValue(node[key]).trim();
+  return text || undefined;
+}
+
+export function attributes(node: XmlNode | undefined): Record<string, string> {
+  return (node?.$ as Record<string, string> | undefined) || {};
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+  return value === undefined ? undefined : value === 'true';
+}
@@ -0,0 +1,40 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../db/index.js';
+import { LessonMode } from './attempt-modes.js';
+
+export type PreviewMode = Extract<LessonMode, 'normal' | 'browse'>;
+
+export const PREVIEW_MODES: PreviewMode[] = ['normal', 'browse'];
+
+/**
+ * Starts an admin preview of a course without an LMS. Each preview gets its
+ * own sandbox learner and a launch with no consumer, so nothing is shared
+ * with real learners' attempts. The attempt is flagged as a preview and
+ * has no credit, which keeps it out of stats, reports and grade passback.
+ * Returns null if the course doesn't exist.
+ */
+export async function startCoursePreview(courseId: string, mode: PreviewMode): Promise<string | null> {
+  const courseResult = await query('SELECT id FROM courses WHERE id = $1', [courseId]);
+  if (courseResult.rows.length === 0) return null;
+
+  const learnerResult = await query<{ id: string }>(
+    `INSERT INTO learners (user_id, full_name) VALUES ($1, 'Preview Learner') RETURNING id`,
+    [`preview-${uuidv4()}`]
+  );
+  const learner = learnerResult.rows[0];
+
+  const launchId = uuidv4();
+  await query(
+    'INSERT INTO launches (id, course_id, user_id, learner_id) VALUES ($1, $2, $3, $4)',
+    [launchId, courseId, 'preview', learner.id]
+  );
+
+  const attemptId = uuidv4();
+  await query(
+    `INSERT INTO attempts (id, launch_id, lesson_mode, credit, preview)
+     VALUES ($1, $2, $3, 'no-credit', true)`,
+    [attemptId, launchId, mode]
+  );
+
+  return attemptId;
+}
@@ -0,0 +1,361 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../db/index.js';
+import { config } from '../config.js';
+import { signJwt } from './jwt.js';
+import { signRequest, generateOAuthParams } from './lti-provider.js';
+import { getToolSigningKey, LTI_CLAIMS, LtiPlatform } from './lti-advantage.js';
+
+const LTI_LINK_MEDIA_TYPE = 'application/vnd.ims.lti.v1.ltilink';
+
+// Instructors may browse the picker for a while before choosing
+const REQUEST_TTL_MINUTES = 60;
+
+export interface DeepLinkRequest {
+  id: string;
+  consumer_id: string;
+  platform_id: string | null;
+  lti_version: '1.1' | '1.3';
+  return_url: string;
+  accept_multiple: boolean;
+  data: string | null;
+  deployment_id: string | null;
+}
+
+export interface PickerItem {
+  id: string;
+  title: string;
+  description: string | null;
+  scorm_version?: string;
+  course_count?: number;
+}
+
+export interface DeepLinkResponse {
+  url: string;
+  fields: Record<string, string>;
+}
+
+interface SelectedCourse {
+  id: string;
+  title: string;
+  description: string | null;
+}
+
+/**
+ * Stores an LTI 1.1 ContentItemSelectionRequest so the picker can answer it
+ */
+export async function createContentItemRequest(
+  consumerId: string,
+  params: Record<string, string>
+): Promise<DeepLinkRequest> {
+  const returnUrl = params.content_item_return_url;
+  if (!returnUrl) {
+    throw new Error('Missing content_item_return_url');
+  }
+
+  const acceptedTypes = (params.accept_media_types || LTI_LINK_MEDIA_TYPE).split(',').map((t) => t.trim());
+  if (!acceptedTypes.some((t) => t === LTI_LINK_MEDIA_TYPE || t === '*/*' || t === 'application/*')) {
+    throw new Error('Platform does not accept LTI links');
+  }
+
+  return storeRequest({
+    consumer_id: consumerId,
+    platform_id: null,
+    lti_version: '1.1',
+    return_url: returnUrl,
+    accept_multiple: params.accept_multiple !== 'false',
+    data: params.data ?? null,
+    deployment_id: null,
+  });
+}
+
+/**
+ * Stores an LTI 1.3 LtiDeepLinkingRequest so the picker can answer it
+ */
+export async function createDeepLinkingRequest(
+  platform: LtiPlatform,
+  claims: Record<string, unknown>
+): Promise<DeepLinkRequest> {
+  const settings = claims[LTI_CLAIMS.deepLinkingSettings] as {
+    deep_link_return_url?: string;
+    accept_types?: string[];
+    accept_multiple?: boolean;
+    data?: string;
+  } | undefined;
+
+  if (!settings?.deep_link_return_url) {
+    throw new Error('Missing deep_link_return_url');
+  }
+
+  if (settings.accept_types && !settings.accept_types.includes('ltiResourceLink')) {
+    throw new Error('Platform does not accept LTI resource links');
+  }
+
+  return storeRequest({
+    consumer_id: platform.consumer_id,
+    platform_id: platform.id,
+    lti_version: '1.3',
+    return_url: settings.deep_link_return_url,
+    accept_multiple: settings.accept_multiple !== false,
+    data: settings.data ?? null,
+    deployment_id: (claims[LTI_CLAIMS.deploymentId] as string | undefined) || null,
+  });
+}
+
+/**
+ * Loads a pending picker request
+ */
+export async function getDeepLinkRequest(requestId: string): Promise<DeepLinkRequest | null> {
+  const result = await query<DeepLinkRequest>(
+    `SELECT id, consumer_id, platform_id, lti_version, return_url, accept_multiple,
+            data, deployment_id
+     FROM deep_link_requests
+     WHERE id = $1 AND created_at > NOW() - make_interval(mins => $2)`,
+    [requestId, REQUEST_TTL_MINUTES]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Searches active courses and suites for the picker
+ */
+export async function searchPickerItems(
+  search: string
+): Promise<{ courses: PickerItem[]; suites: PickerItem[] }> {
+  const pattern = `%${search.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+  const courses = await query<PickerItem>(
+    `SELECT id, title, description, scorm_version
+     FROM courses
+     WHERE active = true AND (title ILIKE $1 OR COALESCE(description, '') ILIKE $1)
+     ORDER BY title
+     LIMIT 100`,
+    [pattern]
+  );
+
+  const suites = await query<PickerItem>(
+    `SELECT s.id, s.title, s.description, COUNT(c.id)::int as course_count
+     FROM suites s
+     JOIN suite_courses sc ON s.id = sc.suite_id
+     JOIN courses c ON c.id = sc.course_id AND c.active = true
+     WHERE s.active = true AND (s.title ILIKE $1 OR COALESCE(s.description, '') ILIKE $1)
+     GROUP BY s.id
+     ORDER BY s.title
+     LIMIT 100`,
+    [pattern]
+  );
+
+  return { courses: courses.rows, suites: suites.rows };
+}
+
+/**
+ * Builds the signed response that returns the selected courses to the platform
+ * as resource links. Suites expand into one link per course, in suite order.
+ * The request is consumed so it can't be answered twice.
+ */
+export async function buildDeepLinkResponse(
+  request: DeepLinkRequest,
+  courseIds: string[],
+  suiteIds: string[]
+): Promise<DeepLinkResponse> {
+  const courses = await resolveSelection(courseIds, suiteIds);
+
+  if (courses.length === 0) {
+    throw new Error('No courses selected');
+  }
+  if (!request.accept_multiple && courses.length > 1) {
+    throw new Error('The platform only accepts a single item');
+  }
+
+  await query('DELETE FROM deep_link_requests WHERE id = $1', [request.id]);
+
+  return request.lti_version === '1.3'
+    ? buildLti13Response(request, courses)
+    : buildContentItemResponse(request, courses);
+}
+
+/**
+ * LTI 1.3: LtiDeepLinkingResponse JWT signed with the tool key
+ */
+async function buildLti13Response(
+  request: DeepLinkRequest,
+  courses: SelectedCourse[]
+): Promise<DeepLinkResponse> {
+  const platformResult = await query<{ issuer: string; client_id: string }>(
+    'SELECT issuer, client_id FROM lti_platforms WHERE id = $1',
+    [request.platform_id]
+  );
+
+  if (platformResult.rows.length === 0) {
+    throw new Error('Platform not found');
+  }
+
+  const platform = platformResult.rows[0];
+  const now = Math.floor(Date.now() / 1000);
+
+  const payload: Record<string, unknown> = {
+    iss: platform.client_id,
+    aud: platform.issuer,
+    iat: now,
+    exp: now + 300,
+    nonce: uuidv4(),
+    [LTI_CLAIMS.messageType]: 'LtiDeepLinkingResponse',
+    [LTI_CLAIMS.version]: '1.3.0',
+    [LTI_CLAIMS.deploymentId]: request.deployment_id,
+    [LTI_CLAIMS.contentItems]: courses.map((course) => ({
+      type: 'ltiResourceLink',
+      title: course.title,
+      text: course.description || undefined,
+      url: `${config.baseUrl}/lti/1.3/launch`,
+      custom: { course_id: course.id },
+      lineItem: { scoreMaximum: 100, label: course.title, resourceId: course.id },
+    })),
+  };
+
+  if (request.data !== null) {
+    payload[LTI_CLAIMS.deepLinkingData] = request.data;
+  }
+
+  const jwt = signJwt(payload, await getToolSigningKey());
+
+  return { url: request.return_url, fields: { JWT: jwt } };
+}
+
+/**
+ * LTI 1.1: ContentItemSelection message signed with the consumer's OAuth secret
+ */
+async function buildContentItemResponse(
+  request: DeepLinkRequest,
+  courses: SelectedCourse[]
+): Promise<DeepLinkResponse> {
+  const consumerResult = await query<{
+    lti_consumer_key: string;
+    lti_consumer_secret: string;
+  }>(
+    'SELECT lti_consumer_key, lti_consumer_secret FROM consumers WHERE id = $1',
+    [request.consumer_id]
+  );
+
+  if (consumerResult.rows.length === 0) {
+    throw new Error('Consumer not found');
+  }
+
+  const consumer = consumerResult.rows[0];
+
+  const contentItems = {
+    '@context': 'http://purl.imsglobal.org/ctx/lti/v1/ContentItem',
+    '@graph': courses.map((course) => ({
+      '@type': 'LtiLinkItem',
+      mediaType: LTI_LINK_MEDIA_TYPE,
+      title: course.title,
+      text: course.description || undefined,
+      url: `${config.baseUrl}/lti/launch`,
+      custom: { course_id: course.id },
+      lineItem: {
+        '@type': 'LineItem',
+        label: course.title,
+        reportingMethod: 'res:totalScore',
+        maximumScore: 100,
+        scoreConstraints: {
+          '@type': 'NumericLimits',
+          normalMaximum: 100,
+        },
+      },
+    })),
+  };
+
+  const fields: Record<string, string> = {
+    lti_message_type: 'ContentItemSelection',
+    lti_version: 'LTI-1p0',
+    content_items: JSON.stringify(contentItems),
+    ...generateOAuthParams(consumer.lti_consumer_key),
+  };
+
+  if (request.data !== null) {
+    fields.data = request.data;
+  }
+
+  // Query parameters on the return URL are part of the OAuth base string
+  const signatureParams = { ...fields };
+  new URL(request.return_url).searchParams.forEach((value, key) => {
+    signatureParams[key] = value;
+  });
+
+  fields.oauth_signature = signRequest(
+    'POST',
+    request.return_url,
+    signatureParams,
+    consumer.lti_consumer_secret
+  );
+
+  return { url: request.return_url, fields };
+}
+
+/**
+ * Expands the picker selection into active courses, de-duplicated
+ */
+async function resolveSelection(courseIds: string[], suiteIds: string[]): Promise<SelectedCourse[]> {
+  const selected: SelectedCourse[] = [];
+  const seen = new Set<string>();
+
+  const add = (rows: SelectedCourse[]) => {
+    for (const row of rows) {
+      if (!seen.has(row.id)) {
+        seen.add(row.id);
+        selected.push(row);
+      }
+    }
+  };
+
+  if (courseIds.length > 0) {
+    const result = await query<SelectedCourse>(
+      `SELECT id, title, description FROM courses
+       WHERE id = ANY($1::uuid[]) AND active = true
+       ORDER BY array_position($1::uuid[], id)`,
+      [courseIds]
+    );
+    add(result.rows);
+  }
+
+  for (const suiteId of suiteIds) {
+    const result = await query<SelectedCourse>(
+      `SELECT c.id, c.title, c.description
+       FROM courses c
+       JOIN suite_courses sc ON c.id = sc.course_id
+       JOIN suites s ON s.id = sc.suite_id
+       WHERE sc.suite_id = $1 AND s.active = true AND c.active = true
+       ORDER BY sc.sort_order`,
+      [suiteId]
+    );
+    add(result.rows);
+  }
+
+  return selected;
+}
+
+async function storeRequest(request: Omit<DeepLinkRequest, 'id'>): Promise<DeepLinkRequest> {
+  // Drop requests from pickers that were never submitted
+  await query(
+    'DELETE FROM deep_link_requests WHERE created_at < NOW() - make_interval(mins => $1)',
+    [REQUEST_TTL_MINUTES]
+  );
+
+  const id = uuidv4();
+  await query(
+    `INSERT INTO deep_link_requests (id, consumer_id, platform_id, lti_version, return_url,
+      accept_multiple, data, deployment_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      id,
+      request.consumer_id,
+      request.platform_id,
+      request.lti_version,
+      request.return_url,
+      request.accept_multiple,
+      request.data,
+      request.deployment_id,
+    ]
+  );
+
+  return { id, ...request };
+}
@@ -0,0 +1,172 @@
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../db/index.js';
+import { formatLearnerName } from './learners.js';
+
+// Instructors may keep the report open for a class period before previewing
+const SESSION_TTL_MINUTES = 120;
+
+// Context (membership) roles that get the course report instead of an
+// attempt. Institution and system roles never do: staff elsewhere in the
+// institution may be only learners in this course.
+const INSTRUCTOR_ROLE_NAMES = ['Instructor', 'TeachingAssistant', 'ContentDeveloper', 'Administrator'];
+
+// LTI 1.1 short names, which always mean context roles
+const INSTRUCTOR_SHORT_ROLE_NAMES = ['Instructor', 'TeachingAssistant', 'ContentDeveloper'];
+
+const MEMBERSHIP_ROLE_PREFIX = 'http://purl.imsglobal.org/vocab/lis/v2/membership';
+const LTI1_CONTEXT_ROLE_PREFIX = 'urn:lti:role:ims/lis/';
+
+/**
+ * An instructor's launch, as needed to show the report for its resource link
+ */
+export interface InstructorSession {
+  id: string;
+  launch_id: string;
+  consumer_id: string;
+  course_id: string;
+  course_title: string;
+  context_id: string | null;
+  resource_link_id: string | null;
+}
+
+/**
+ * One learner's progress on the instructor's resource link
+ */
+export interface LearnerProgress {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  attempts: number;
+  completionStatus: string;
+  successStatus: string | null;
+  latestScore: number | null; // 0 to 100
+  bestScore: number | null; // 0 to 100
+  timeSpentSeconds: number;
+  lastActivityAt: Date;
+}
+
+/**
+ * Whether LTI roles include a teaching or administrative role in the
+ * launch's context
+ */
+export function isInstructor(roles: string[] | undefined): boolean {
+  return (roles || []).some((role) => {
+    const name = role.trim();
+    if (!/[#/:]/.test(name)) return INSTRUCTOR_SHORT_ROLE_NAMES.includes(name);
+
+    const contextRole = contextRoleName(name);
+    return !!contextRole && INSTRUCTOR_ROLE_NAMES.includes(contextRole);
+  });
+}
+
+/**
+ * The context role a role URI names, or its parent role for a sub-role
+ * (membership/Instructor#TeachingAssistant, urn:lti:role:ims/lis/Instructor/TeachingAssistant).
+ * Undefined for institution, system and unknown roles.
+ */
+function contextRoleName(role: string): string | undefined {
+  if (role.startsWith(`${MEMBERSHIP_ROLE_PREFIX}#`)) {
+    return role.slice(MEMBERSHIP_ROLE_PREFIX.length + 1);
+  }
+  if (role.startsWith(`${MEMBERSHIP_ROLE_PREFIX}/`)) {
+    return role.slice(MEMBERSHIP_ROLE_PREFIX.length + 1).split('#')[0];
+  }
+  if (role.startsWith(LTI1_CONTEXT_ROLE_PREFIX)) {
+    return role.slice(LTI1_CONTEXT_ROLE_PREFIX.length).split('/')[0];
+  }
+  return undefined;
+}
+
+/**
+ * Starts a report session for an instructor's launch and returns its id
+ */
+export async function createInstructorSession(launchId: string): Promise<string> {
+  // Drop sessions nobody came back to
+  await query(
+    'DELETE FROM instructor_sessions WHERE created_at < NOW() - make_interval(mins => $1)',
+    [SESSION_TTL_MINUTES]
+  );
+
+  const id = uuidv4();
+  await query('INSERT INTO instructor_sessions (id, launch_id) VALUES ($1, $2)', [id, launchId]);
+  return id;
+}
+
+/**
+ * Loads an unexpired report session with the launch it came from
+ */
+export async function getInstructorSession(sessionId: string): Promise<InstructorSession | null> {
+  const result = await query<InstructorSession>(
+    `SELECT s.id, s.launch_id, l.consumer_id, l.course_id, c.title as course_title,
+            l.context_id, l.resource_link_id
+     FROM instructor_sessions s
+     JOIN launches l ON s.launch_id = l.id
+     JOIN courses c ON l.course_id = c.id
+     WHERE s.id = $1 AND s.created_at > NOW() - make_interval(mins => $2)`,
+    [sessionId, SESSION_TTL_MINUTES]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Graded attempts on the session's resource link, one entry per learner,
+ * most recently active first. Statuses and latest score come from each
+ * learner's latest attempt.
+ */
+export async function getResourceLinkReport(session: InstructorSession): Promise<LearnerProgress[]> {
+  const result = await query<{
+    learner_id: string;
+    user_id: string;
+    given_name: string | null;
+    family_name: string | null;
+    full_name: string | null;
+    email: string | null;
+    completion_status: string;
+    success_status: string | null;
+    score: string | null;
+    time_spent_seconds: number | null;
+    updated_at: Date;
+  }>(
+    `SELECT lr.id as learner_id, lr.user_id, lr.given_name, lr.family_name, lr.full_name, lr.email,
+            a.completion_status, a.success_status, a.score,
+            EXTRACT(EPOCH FROM a.time_spent)::float8 as time_spent_seconds, a.updated_at
+     FROM attempts a
+     JOIN launches l ON a.launch_id = l.id
+     JOIN learners lr ON l.learner_id = lr.id
+     WHERE l.consumer_id = $1 AND l.course_id = $2
+       AND l.context_id IS NOT DISTINCT FROM $3
+       AND l.resource_link_id IS NOT DISTINCT FROM $4
+       AND a.credit = 'credit'
+     ORDER BY a.started_at, a.id`,
+    [session.consumer_id, session.course_id, session.context_id, session.resource_link_id]
+  );
+
+  const learners = new Map<string, LearnerProgress>();
+
+  for (const row of result.rows) {
+    const score = row.score !== null ? parseFloat(row.score) : null;
+    const previous = learners.get(row.learner_id);
+
+    learners.set(row.learner_id, {
+      userId: row.user_id,
+      name: formatLearnerName(row.given_name, row.family_name, row.full_name),
+      email: row.email,
+      attempts: (previous?.attempts || 0) + 1,
+      completionStatus: row.completion_status,
+      successStatus: row.success_status,
+      latestScore: score,
+      bestScore:
+        score !== null && (previous?.bestScore == null || score > previous.bestScore)
+          ? score
+          : previous?.bestScore ?? null,
+      timeSpentSeconds: (previous?.timeSpentSeconds || 0) + (row.time_spent_seconds || 0),
+      lastActivityAt:
+        previous && previous.lastActivityAt > row.updated_at ? previous.lastActivityAt : row.updated_at,
+    });
+  }
+
+  return Array.from(learners.values()).sort(
+    (a, b) => b.lastActivityAt.getTime() - a.lastActivityAt.getTime()
+  );
+}
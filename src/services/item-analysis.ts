@@ -0,0 +1,226 @@
+import { query } from '../db/index.js';
+
+export interface ItemAnalysisFilters {
+  consumerId?: string;
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+}
+
+export interface ResponseCount {
+  response: string;
+  count: number;
+}
+
+/**
+ * Statistics for one interaction id within one SCO
+ */
+export interface ItemStats {
+  activityId: string;
+  interactionId: string;
+  type: string | null;
+  description: string | null;
+  attempts: number; // interaction records, i.e. times the question was answered
+  learners: number;
+  percentCorrect: number | null; // of the attempts that have a result
+  responses: ResponseCount[]; // most common first
+  averageLatencySeconds: number | null;
+  discrimination: number | null; // -1 to 1
+}
+
+interface InteractionRow {
+  attempt_id: string;
+  activity_id: string;
+  interaction_id: string;
+  interaction_index: number;
+  type: string | null;
+  description: string | null;
+  learner_response: string | null;
+  result: string | null;
+  latency_seconds: number | null;
+  attempt_score: string | null;
+  learner_id: string;
+}
+
+// Share of scored attempts in each of the upper and lower groups used for
+// the discrimination index (Kelley's 27%)
+const DISCRIMINATION_GROUP_SHARE = 0.27;
+
+/**
+ * Builds the item analysis for a course from its stored interaction records.
+ * An interaction is dated by its timestamp, or when it was last committed if
+ * the SCO didn't report one.
+ */
+export async function getItemAnalysis(
+  courseId: string,
+  filters: ItemAnalysisFilters = {}
+): Promise<ItemStats[]> {
+  const result = await query<InteractionRow>(
+    `SELECT i.attempt_id, i.activity_id, i.interaction_id, i.interaction_index, i.type,
+            i.description, i.learner_response, i.result,
+            EXTRACT(EPOCH FROM i.latency)::float8 as latency_seconds,
+            a.score as attempt_score, l.learner_id
+     FROM attempt_interactions i
+     JOIN attempts a ON i.attempt_id = a.id
+     JOIN launches l ON a.launch_id = l.id
+     WHERE l.course_id = $1 AND a.credit = 'credit'
+       AND ($2::text IS NULL OR l.consumer_id::text = $2)
+       AND ($3::timestamp IS NULL OR COALESCE(i.timestamp, i.updated_at) >= $3)
+       AND ($4::timestamp IS NULL OR COALESCE(i.timestamp, i.updated_at) < $4)
+     ORDER BY i.activity_id, i.interaction_index`,
+    [
+      courseId,
+      filters.consumerId || null,
+      filters.from ? filters.from.toISOString() : null,
+      filters.to ? filters.to.toISOString() : null,
+    ]
+  );
+
+  const groups = discriminationGroups(result.rows);
+  const items = new Map<string, InteractionRow[]>();
+
+  for (const row of result.rows) {
+    const key = `${row.activity_id}\n${row.interaction_id}`;
+    const rows = items.get(key) || [];
+    rows.push(row);
+    items.set(key, rows);
+  }
+
+  return Array.from(items.values()).map((rows) => {
+    const judged = rows.filter((r) => r.result !== null);
+    const latencies = rows
+      .map((r) => r.latency_seconds)
+      .filter((latency): latency is number => latency !== null);
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const response = row.learner_response ?? '';
+      counts.set(response, (counts.get(response) || 0) + 1);
+    }
+
+    return {
+      activityId: rows[0].activity_id,
+      interactionId: rows[0].interaction_id,
+      type: rows.find((r) => r.type)?.type || null,
+      description: rows.find((r) => r.description)?.description || null,
+      attempts: rows.length,
+      learners: new Set(rows.map((r) => r.learner_id)).size,
+      percentCorrect: judged.length > 0
+        ? (judged.filter((r) => r.result === 'correct').length / judged.length) * 100
+        : null,
+      responses: Array.from(counts.entries())
+        .map(([response, count]) => ({ response, count }))
+        .sort((a, b) => b.count - a.count),
+      averageLatencySeconds: latencies.length > 0
+        ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+        : null,
+      discrimination: discriminationIndex(rows, groups),
+    };
+  });
+}
+
+/**
+ * Renders item statistics as CSV, one row per item. The response
+ * distribution goes in a single "response: count; ..." column.
+ */
+export function itemAnalysisToCsv(items: ItemStats[]): string {
+  const header = [
+    'SCO',
+    'Interaction ID',
+    'Type',
+    'Description',
+    'Attempts',
+    'Learners',
+    'Percent Correct',
+    'Average Latency (s)',
+    'Discrimination',
+    'Responses',
+  ];
+
+  const lines = items.map((item) => [
+    item.activityId,
+    item.interactionId,
+    item.type,
+    item.description,
+    item.attempts,
+    item.learners,
+    round(item.percentCorrect, 1),
+    round(item.averageLatencySeconds, 1),
+    round(item.discrimination, 2),
+    item.responses.map((r) => `${r.response}: ${r.count}`).join('; '),
+  ]);
+
+  return [header, ...lines].map((cells) => cells.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Splits the scored attempts in the data into upper and lower groups by
+ * attempt score. Returns null when there are too few to compare.
+ */
+function discriminationGroups(
+  rows: InteractionRow[]
+): { upper: Set<string>; lower: Set<string> } | null {
+  const scores = new Map<string, number>();
+  for (const row of rows) {
+    if (row.attempt_score !== null) {
+      scores.set(row.attempt_id, parseFloat(row.attempt_score));
+    }
+  }
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]);
+  const size = Math.floor(ranked.length * DISCRIMINATION_GROUP_SHARE);
+  if (size === 0) return null;
+
+  return {
+    upper: new Set(ranked.slice(0, size).map(([attemptId]) => attemptId)),
+    lower: new Set(ranked.slice(-size).map(([attemptId]) => attemptId)),
+  };
+}
+
+/**
+ * Proportion correct in the upper group minus the lower group. An attempt
+ * that answered the item more than once counts with its last answer.
+ */
+function discriminationIndex(
+  rows: InteractionRow[],
+  groups: { upper: Set<string>; lower: Set<string> } | null
+): number | null {
+  if (!groups) return null;
+
+  const lastAnswers = new Map<string, InteractionRow>();
+  for (const row of rows) {
+    const previous = lastAnswers.get(row.attempt_id);
+    if (!previous || row.interaction_index > previous.interaction_index) {
+      lastAnswers.set(row.attempt_id, row);
+    }
+  }
+
+  const proportionCorrect = (group: Set<string>): number | null => {
+    const answers = Array.from(lastAnswers.values()).filter(
+      (r) => group.has(r.attempt_id) && r.result !== null
+    );
+    if (answers.length === 0) return null;
+    return answers.filter((r) => r.result === 'correct').length / answers.length;
+  };
+
+  const upper = proportionCorrect(groups.upper);
+  const lower = proportionCorrect(groups.lower);
+  return upper !== null && lower !== null ? upper - lower : null;
+}
+
+function round(value: number | null, places: number): number | null {
+  if (value === null) return null;
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Quotes a CSV cell. Text that a spreadsheet would read as a formula is
+ * prefixed with an apostrophe, since learner responses end up here.
+ */
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
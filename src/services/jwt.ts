@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export type JwtPayload = Record<string, unknown> & {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  nonce?: string;
+};
+
+export interface SigningKey {
+  kid: string;
+  privateKey: string; // PEM (PKCS#8)
+}
+
+interface JwksCacheEntry {
+  keys: crypto.JsonWebKey[];
+  fetchedAt: number;
+}
+
+// Platform key sets change rarely; refetch hourly or when an unknown kid shows up
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+const jwksCache = new Map<string, JwksCacheEntry>();
+
+/**
+ * Signs a payload as an RS256 JWT
+ */
+export function signJwt(payload: JwtPayload, key: SigningKey): string {
+  const header: JwtHeader = { alg: 'RS256', typ: 'JWT', kid: key.kid };
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(signingInput), key.privateKey);
+
+  return `${signingInput}.${toBase64Url(signature)}`;
+}
+
+/**
+ * Signs a payload as an HS256 JWT, for tokens this server both issues and checks
+ */
+export function signHmacJwt(payload: JwtPayload, secret: string): string {
+  const header: JwtHeader = { alg: 'HS256', typ: 'JWT' };
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+
+  return `${signingInput}.${toBase64Url(hmacSha256(signingInput, secret))}`;
+}
+
+/**
+ * Verifies an HS256 JWT signed with signHmacJwt and checks that it hasn't expired
+ */
+export function verifyHmacJwt(token: string, secret: string): JwtPayload {
+  const { header, payload } = decodeJwt(token);
+
+  if (header.alg !== 'HS256') {
+    throw new Error(`Unsupported JWT algorithm: ${header.alg}`);
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+  const expected = hmacSha256(`${encodedHeader}.${encodedPayload}`, secret);
+  const signature = base64UrlDecode(encodedSignature);
+
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+    throw new Error('Invalid JWT signature');
+  }
+
+  if (typeof payload.exp !== 'number' || payload.exp < Math.floor(Date.now() / 1000)) {
+    throw new Error('JWT has expired');
+  }
+
+  return payload;
+}
+
+/**
+ * Decodes a JWT without verifying its signature
+ */
+export function decodeJwt(token: string): { header: JwtHeader; payload: JwtPayload } {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed JWT');
+  }
+
+  try {
+    return {
+      header: JSON.parse(base64UrlDecode(parts[0]).toString('utf-8')) as JwtHeader,
+      payload: JSON.parse(base64UrlDecode(parts[1]).toString('utf-8')) as JwtPayload,
+    };
+  } catch {
+    throw new Error('Malformed JWT');
+  }
+}
+
+/**
+ * Verifies an RS256 JWT against a remote JWKS and checks its time claims
+ */
+export async function verifyJwt(token: string, jwksUrl: string): Promise<JwtPayload> {
+  const { header, payload } = decodeJwt(token);
+
+  if (header.alg !== 'RS256') {
+    throw new Error(`Unsupported JWT algorithm: ${header.alg}`);
+  }
+
+  const jwk = await findJwk(jwksUrl, header.kid);
+  if (!jwk) {
+    throw new Error('No matching key found in platform JWKS');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+  const isValid = crypto.verify(
+    'RSA-SHA256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+    base64UrlDecode(encodedSignature)
+  );
+
+  if (!isValid) {
+    throw new Error('Invalid JWT signature');
+  }
+
+  // Allow a small clock skew between us and the platform
+  const now = Math.floor(Date.now() / 1000);
+  const leeway = 60;
+
+  if (typeof payload.exp !== 'number' || payload.exp + leeway < now) {
+    throw new Error('JWT has expired');
+  }
+  if (typeof payload.iat === 'number' && payload.iat - leeway > now) {
+    throw new Error('JWT issued in the future');
+  }
+
+  return payload;
+}
+
+/**
+ * Converts a PEM public key into a JWK suitable for publishing in a JWKS
+ */
+export function publicKeyToJwk(publicKeyPem: string, kid: string): crypto.JsonWebKey {
+  const jwk = crypto.createPublicKey(publicKeyPem).export({ format: 'jwk' });
+  return { ...jwk, kid, alg: 'RS256', use: 'sig' };
+}
+
+/**
+ * Finds a key by kid in a (cached) remote JWKS
+ */
+async function findJwk(jwksUrl: string, kid: string | undefined): Promise<crypto.JsonWebKey | undefined> {
+  const match = (keys: crypto.JsonWebKey[]) =>
+    kid ? keys.find((k) => k.kid === kid) : keys.find((k) => k.kty === 'RSA');
+
+  const cached = jwksCache.get(jwksUrl);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL_MS) {
+    const key = match(cached.keys);
+    if (key) return key;
+  }
+
+  // Cache miss, stale entry or key rotation: refetch
+  const response = await fetch(jwksUrl, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS: ${response.status}`);
+  }
+
+  const jwks = (await response.json()) as { keys?: crypto.JsonWebKey[] };
+  const keys = jwks.keys || [];
+  jwksCache.set(jwksUrl, { keys, fetchedAt: Date.now() });
+
+  return match(keys);
+}
+
+function hmacSha256(input: string, secret: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(input).digest();
+}
+
+function base64UrlEncode(str: string): string {
+  return toBase64Url(Buffer.from(str, 'utf-8'));
+}
+
+function toBase64Url(buf: Buffer): string {
+  return buf.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(str: string): Buffer {
+  return Buffer.from(str.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
@@ -0,0 +1,135 @@
+import { query } from '../db/index.js';
+
+/**
+ * How much personal information from launches is kept for a consumer's
+ * learners. Roles are always kept; names and email only when allowed.
+ */
+export type PrivacyLevel = 'anonymous' | 'name_only' | 'email_only' | 'public';
+
+export const PRIVACY_LEVELS: PrivacyLevel[] = ['anonymous', 'name_only', 'email_only', 'public'];
+
+/**
+ * Who launched, as reported by the LMS
+ */
+export interface LearnerProfile {
+  userId: string;
+  givenName?: string;
+  familyName?: string;
+  fullName?: string;
+  email?: string;
+  roles?: string[];
+}
+
+/**
+ * Learner identity as presented to the SCORM runtime
+ */
+export interface RuntimeLearner {
+  id: string; // the LMS user id
+  name: string | null; // 'Last, First' when the LMS sent both parts
+}
+
+/**
+ * Finds or creates the learner for a consumer's user id, refreshes the
+ * profile fields the consumer's privacy level allows and returns its id.
+ * A learner is identified by (consumer_id, user_id): the same user_id from
+ * two consumers is two different people. A field the LMS left out keeps
+ * its stored value.
+ */
+export async function upsertLearner(consumerId: string, profile: LearnerProfile): Promise<string> {
+  const result = await query<{ id: string }>(
+    `WITH privacy AS (
+       SELECT COALESCE((SELECT privacy_level FROM consumers WHERE id = $1), 'public') AS level
+     )
+     INSERT INTO learners (consumer_id, user_id, given_name, family_name, full_name, email, roles)
+     SELECT $1, $2,
+            CASE WHEN level IN ('name_only', 'public') THEN $3 END,
+            CASE WHEN level IN ('name_only', 'public') THEN $4 END,
+            CASE WHEN level IN ('name_only', 'public') THEN $5 END,
+            CASE WHEN level IN ('email_only', 'public') THEN $6 END,
+            $7::jsonb
+     FROM privacy
+     ON CONFLICT (consumer_id, user_id) DO UPDATE SET
+       given_name = COALESCE(EXCLUDED.given_name, learners.given_name),
+       family_name = COALESCE(EXCLUDED.family_name, learners.family_name),
+       full_name = COALESCE(EXCLUDED.full_name, learners.full_name),
+       email = COALESCE(EXCLUDED.email, learners.email),
+       roles = COALESCE(EXCLUDED.roles, learners.roles),
+       last_seen_at = CURRENT_TIMESTAMP
+     RETURNING id`,
+    [
+      consumerId,
+      profile.userId,
+      profile.givenName || null,
+      profile.familyName || null,
+      profile.fullName || null,
+      profile.email || null,
+      profile.roles ? JSON.stringify(profile.roles) : null,
+    ]
+  );
+
+  return result.rows[0].id;
+}
+
+/**
+ * Clears stored names and email a consumer's privacy level no longer allows
+ */
+export async function applyPrivacyLevel(consumerId: string, level: PrivacyLevel): Promise<void> {
+  const keepName = level === 'name_only' || level === 'public';
+  const keepEmail = level === 'email_only' || level === 'public';
+
+  await query(
+    `UPDATE learners SET
+       given_name = CASE WHEN $2 THEN given_name END,
+       family_name = CASE WHEN $2 THEN family_name END,
+       full_name = CASE WHEN $2 THEN full_name END,
+       email = CASE WHEN $3 THEN email END
+     WHERE consumer_id = $1`,
+    [consumerId, keepName, keepEmail]
+  );
+}
+
+/**
+ * The learner behind an attempt, for cmi.core.student_id/student_name
+ * (SCORM 1.2) and cmi.learner_id/learner_name (SCORM 2004)
+ */
+export async function getRuntimeLearner(attemptId: string): Promise<RuntimeLearner | null> {
+  const result = await query<{
+    user_id: string;
+    given_name: string | null;
+    family_name: string | null;
+    full_name: string | null;
+  }>(
+    `SELECT l.user_id, lr.given_name, lr.family_name, lr.full_name
+     FROM attempts a
+     JOIN launches l ON a.launch_id = l.id
+     LEFT JOIN learners lr ON l.learner_id = lr.id
+     WHERE a.id = $1`,
+    [attemptId]
+  );
+
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return { id: row.user_id, name: formatLearnerName(row.given_name, row.family_name, row.full_name) };
+}
+
+/**
+ * SCORM's 'Last, First' form of a name. Falls back to the full name, or
+ * whichever part is known.
+ */
+export function formatLearnerName(
+  givenName: string | null,
+  familyName: string | null,
+  fullName: string | null
+): string | null {
+  if (givenName && familyName) return `${familyName}, ${givenName}`;
+  return fullName || familyName || givenName || null;
+}
+
+/**
+ * LTI 1.1 sends roles as a comma-separated list of URNs or short names
+ */
+export function parseLtiRoles(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(',').map((role) => role.trim()).filter((role) => role !== '');
+}
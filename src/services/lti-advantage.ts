@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { pool, query } from '../db/index.js';
+import { config } from '../config.js';
+import { verifyJwt, publicKeyToJwk, JwtPayload, SigningKey } from './jwt.js';
+import { LtiLaunchData } from './lti-provider.js';
+
+// LTI 1.3 claim URIs
+export const LTI_CLAIMS = {
+  messageType: 'https://purl.imsglobal.org/spec/lti/claim/message_type',
+  version: 'https://purl.imsglobal.org/spec/lti/claim/version',
+  deploymentId: 'https://purl.imsglobal.org/spec/lti/claim/deployment_id',
+  targetLinkUri: 'https://purl.imsglobal.org/spec/lti/claim/target_link_uri',
+  resourceLink: 'https://purl.imsglobal.org/spec/lti/claim/resource_link',
+  context: 'https://purl.imsglobal.org/spec/lti/claim/context',
+  roles: 'https://purl.imsglobal.org/spec/lti/claim/roles',
+  custom: 'https://purl.imsglobal.org/spec/lti/claim/custom',
+  ags: 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint',
+  deepLinkingSettings: 'https://purl.imsglobal.org/spec/lti-dl/claim/deep_linking_settings',
+  contentItems: 'https://purl.imsglobal.org/spec/lti-dl/claim/content_items',
+  deepLinkingData: 'https://purl.imsglobal.org/spec/lti-dl/claim/data',
+} as const;
+
+export interface LtiPlatform {
+  id: string;
+  consumer_id: string;
+  issuer: string;
+  client_id: string;
+  deployment_id: string | null;
+  auth_login_url: string;
+  auth_token_url: string | null;
+  jwks_url: string;
+}
+
+export interface OidcLoginParams {
+  iss?: string;
+  login_hint?: string;
+  target_link_uri?: string;
+  lti_message_hint?: string;
+  client_id?: string;
+  lti_deployment_id?: string;
+}
+
+export interface Lti13Launch {
+  platform: LtiPlatform;
+  claims: JwtPayload;
+  ltiData: LtiLaunchData;
+}
+
+// OIDC state is only valid for the few seconds the platform round-trip takes
+const OIDC_STATE_TTL_MINUTES = 10;
+
+// Advisory lock taken while the first signing key is created, so concurrent
+// first uses (even across server instances) agree on one key
+const SIGNING_KEY_LOCK_ID = 0x4c54494b;
+
+/**
+ * Finds an active platform registration by issuer (and client_id and
+ * deployment when given). A registration for the exact deployment wins over
+ * one without a deployment id, which accepts any deployment.
+ */
+export async function findPlatform(
+  issuer: string,
+  clientId?: string,
+  deploymentId?: string
+): Promise<LtiPlatform | null> {
+  const result = await query<LtiPlatform>(
+    `SELECT p.id, p.consumer_id, p.issuer, p.client_id, p.deployment_id,
+            p.auth_login_url, p.auth_token_url, p.jwks_url
+     FROM lti_platforms p
+     JOIN consumers c ON p.consumer_id = c.id
+     WHERE p.issuer = $1 AND ($2::text IS NULL OR p.client_id = $2)
+       AND ($3::text IS NULL OR p.deployment_id = $3 OR p.deployment_id IS NULL)
+       AND p.active = true AND c.active = true
+     ORDER BY (p.deployment_id IS NOT DISTINCT FROM $3) DESC, p.created_at
+     LIMIT 1`,
+    [issuer, clientId || null, deploymentId || null]
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Handles OIDC third-party login initiation and returns the platform
+ * authorization URL the browser should be redirected to
+ */
+export async function buildOidcAuthRedirect(params: OidcLoginParams): Promise<string> {
+  if (!params.iss || !params.login_hint) {
+    throw new Error('Missing iss or login_hint');
+  }
+
+  const platform = await findPlatform(params.iss, params.client_id, params.lti_deployment_id);
+  if (!platform) {
+    throw new Error(
+      params.lti_deployment_id && (await findPlatform(params.iss, params.client_id))
+        ? 'Unknown deployment'
+        : 'Unknown platform'
+    );
+  }
+
+  // Drop states from abandoned logins
+  await query(
+    'DELETE FROM lti_oidc_states WHERE created_at < NOW() - make_interval(mins => $1)',
+    [OIDC_STATE_TTL_MINUTES]
+  );
+
+  const state = crypto.randomBytes(24).toString('hex');
+  const nonce = crypto.randomBytes(24).toString('hex');
+
+  await query(
+    'INSERT INTO lti_oidc_states (state, nonce, platform_id) VALUES ($1, $2, $3)',
+    [state, nonce, platform.id]
+  );
+
+  const authUrl = new URL(platform.auth_login_url);
+  authUrl.searchParams.set('scope', 'openid');
+  authUrl.searchParams.set('response_type', 'id_token');
+  authUrl.searchParams.set('response_mode', 'form_post');
+  authUrl.searchParams.set('prompt', 'none');
+  authUrl.searchParams.set('client_id', platform.client_id);
+  authUrl.searchParams.set('redirect_uri', `${config.baseUrl}/lti/1.3/launch`);
+  authUrl.searchParams.set('login_hint', params.login_hint);
+  authUrl.searchParams.set('state', state);
+  authUrl.searchParams.set('nonce', nonce);
+  if (params.lti_message_hint) {
+    authUrl.searchParams.set('lti_message_hint', params.lti_message_hint);
+  }
+
+  return authUrl.toString();
+}
+
+/**
+ * Validates an LTI 1.3 id_token launch against the stored OIDC state
+ */
+export async function validateLti13Launch(idToken: string, state: string): Promise<Lti13Launch> {
+  // State is single-use: consume it before doing anything else
+  const stateResult = await query<{ nonce: string; platform_id: string }>(
+    `DELETE FROM lti_oidc_states
+     WHERE state = $1 AND created_at > NOW() - make_interval(mins => $2)
+     RETURNING nonce, platform_id`,
+    [state, OIDC_STATE_TTL_MINUTES]
+  );
+
+  if (stateResult.rows.length === 0) {
+    throw new Error('Invalid or expired state');
+  }
+
+  const { nonce, platform_id } = stateResult.rows[0];
+
+  const platformResult = await query<LtiPlatform>(
+    `SELECT id, consumer_id, issuer, client_id, deployment_id,
+            auth_login_url, auth_token_url, jwks_url
+     FROM lti_platforms WHERE id = $1 AND active = true`,
+    [platform_id]
+  );
+
+  if (platformResult.rows.length === 0) {
+    throw new Error('Unknown platform');
+  }
+
+  const loginPlatform = platformResult.rows[0];
+  const claims = await verifyJwt(idToken, loginPlatform.jwks_url);
+
+  if (claims.iss !== loginPlatform.issuer) {
+    throw new Error('Issuer mismatch');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(loginPlatform.client_id)) {
+    throw new Error('Audience mismatch');
+  }
+  if (audiences.length > 1 && claims.azp !== loginPlatform.client_id) {
+    throw new Error('Authorized party mismatch');
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new Error('Nonce mismatch');
+  }
+
+  if (claims[LTI_CLAIMS.version] !== '1.3.0') {
+    throw new Error('Unsupported LTI version');
+  }
+
+  // Logins without lti_deployment_id may have picked another deployment's
+  // registration for the same issuer and client_id
+  const deploymentId = claims[LTI_CLAIMS.deploymentId] as string | undefined;
+  const platform =
+    deploymentId && loginPlatform.deployment_id !== deploymentId
+      ? await findPlatform(loginPlatform.issuer, loginPlatform.client_id, deploymentId)
+      : loginPlatform;
+
+  if (!deploymentId || !platform) {
+    throw new Error('Unknown deployment');
+  }
+  if (platform.jwks_url !== loginPlatform.jwks_url) {
+    await verifyJwt(idToken, platform.jwks_url);
+  }
+
+  return {
+    platform,
+    claims,
+    ltiData: extractLaunchData(claims),
+  };
+}
+
+/**
+ * Maps id_token claims onto the launch fields shared with LTI 1.1
+ */
+function extractLaunchData(claims: JwtPayload): LtiLaunchData {
+  const context = claims[LTI_CLAIMS.context] as { id?: string } | undefined;
+  const resourceLink = claims[LTI_CLAIMS.resourceLink] as { id?: string } | undefined;
+  const custom = claims[LTI_CLAIMS.custom] as Record<string, string> | undefined;
+
+  return {
+    userId: claims.sub || 'anonymous',
+    contextId: context?.id,
+    resourceLinkId: resourceLink?.id,
+    customCourseId: custom?.course_id,
+    customMode: custom?.mode,
+    givenName: claims.given_name as string | undefined,
+    familyName: claims.family_name as string | undefined,
+    fullName: claims.name as string | undefined,
+    email: claims.email as string | undefined,
+    roles: claims[LTI_CLAIMS.roles] as string[] | undefined,
+  };
+}
+
+/**
+ * Returns the tool's active signing key, generating one on first use. The
+ * first key is created under an advisory lock and re-read afterwards, so
+ * concurrent callers all get the same key.
+ */
+export async function getToolSigningKey(): Promise<SigningKey> {
+  const existing = await findActiveSigningKey();
+  if (existing) return existing;
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock($1)', [SIGNING_KEY_LOCK_ID]);
+
+    const locked = await client.query('SELECT 1 FROM lti_keys WHERE active = true LIMIT 1');
+
+    if (locked.rows.length === 0) {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+
+      await client.query(
+        'INSERT INTO lti_keys (kid, public_key, private_key) VALUES ($1, $2, $3)',
+        [uuidv4(), publicKey, privateKey]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const created = await findActiveSigningKey();
+  if (!created) {
+    throw new Error('No active tool signing key');
+  }
+  return created;
+}
+
+async function findActiveSigningKey(): Promise<SigningKey | null> {
+  const result = await query<{ kid: string; private_key: string }>(
+    'SELECT kid, private_key FROM lti_keys WHERE active = true ORDER BY created_at DESC LIMIT 1'
+  );
+
+  const row = result.rows[0];
+  return row ? { kid: row.kid, privateKey: row.private_key } : null;
+}
+
+/**
+ * Builds the tool's public JWKS
+ */
+export async function getToolJwks(): Promise<{ keys: crypto.JsonWebKey[] }> {
+  // Make sure at least one key exists before publishing
+  await getToolSigningKey();
+
+  const result = await query<{ kid: string; public_key: string }>(
+    'SELECT kid, public_key FROM lti_keys WHERE active = true ORDER BY created_at DESC'
+  );
+
+  return {
+    keys: result.rows.map((row) => publicKeyToJwk(row.public_key, row.kid)),
+  };
+}
@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import { query } from '../db/index.js';
+import { signJwt } from './jwt.js';
+import { getToolSigningKey, LtiPlatform } from './lti-advantage.js';
+
+// AGS scopes
+export const AGS_SCOPES = {
+  lineItem: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+  lineItemReadOnly: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem.readonly',
+  score: 'https://purl.imsglobal.org/spec/lti-ags/scope/score',
+} as const;
+
+/**
+ * AGS endpoint claim from the launch id_token
+ */
+export interface AgsEndpoint {
+  scope?: string[];
+  lineitems?: string;
+  lineitem?: string;
+}
+
+export interface AgsResult {
+  score: number | null; // 0.0 to 1.0
+  completionStatus: string;
+  successStatus: string | null;
+}
+
+export interface AgsTarget {
+  platformId: string;
+  endpoint: AgsEndpoint;
+  contextId: string | null;
+  resourceLinkId: string | null;
+  courseId: string;
+  userId: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+const tokenCache = new Map<string, CachedToken>();
+
+/**
+ * Publishes an attempt result to the platform gradebook via LTI AGS
+ */
+export async function sendScoreToPlatform(target: AgsTarget, result: AgsResult): Promise<void> {
+  const platform = await getPlatform(target.platformId);
+
+  const lineItemUrl = await resolveLineItem(platform, target);
+  if (!lineItemUrl) {
+    throw new Error('No AGS line item available for this launch');
+  }
+
+  const accessToken = await getAccessToken(platform, [AGS_SCOPES.score]);
+
+  const score: Record<string, unknown> = {
+    userId: target.userId,
+    activityProgress: toActivityProgress(result.completionStatus),
+    gradingProgress: toGradingProgress(result),
+    timestamp: new Date().toISOString(),
+  };
+
+  if (result.score !== null) {
+    // Clamp score to 0-1 range and report out of 100
+    score.scoreGiven = Math.round(Math.max(0, Math.min(1, result.score)) * 10000) / 100;
+    score.scoreMaximum = 100;
+  }
+
+  const response = await fetch(appendPath(lineItemUrl, '/scores'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/vnd.ims.lis.v1.score+json',
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(score),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`AGS score publish failed: ${response.status} - ${errorText}`);
+  }
+
+  console.log(`AGS score sent for user ${target.userId} to ${lineItemUrl}`);
+}
+
+/**
+ * Maps our completion status onto the AGS activityProgress vocabulary
+ */
+function toActivityProgress(completionStatus: string): string {
+  switch (completionStatus) {
+    case 'completed':
+      return 'Completed';
+    case 'incomplete':
+      return 'InProgress';
+    default:
+      return 'Initialized';
+  }
+}
+
+/**
+ * Maps our completion/success status onto the AGS gradingProgress vocabulary
+ */
+function toGradingProgress(result: AgsResult): string {
+  if (result.score === null) {
+    return 'NotReady';
+  }
+  if (result.completionStatus === 'completed' || result.successStatus) {
+    return 'FullyGraded';
+  }
+  return 'Pending';
+}
+
+/**
+ * Finds the line item for this launch: the one bound to the resource link,
+ * a previously created one for the course, or a newly created one
+ */
+async function resolveLineItem(platform: LtiPlatform, target: AgsTarget): Promise<string | null> {
+  // Platform-provided line item for the resource link
+  if (target.endpoint.lineitem) {
+    return target.endpoint.lineitem;
+  }
+
+  const lineItemsUrl = target.endpoint.lineitems;
+  if (!lineItemsUrl) {
+    return null;
+  }
+
+  // Line item we already created or found for this course
+  const cached = await query<{ lineitem_url: string }>(
+    `SELECT lineitem_url FROM lti_line_items
+     WHERE platform_id = $1 AND context_id = $2 AND course_id = $3`,
+    [platform.id, target.contextId || '', target.courseId]
+  );
+
+  if (cached.rows.length > 0) {
+    return cached.rows[0].lineitem_url;
+  }
+
+  const scopes = target.endpoint.scope || [];
+  const canWrite = scopes.includes(AGS_SCOPES.lineItem);
+  const accessToken = await getAccessToken(
+    platform,
+    [canWrite ? AGS_SCOPES.lineItem : AGS_SCOPES.lineItemReadOnly]
+  );
+
+  // Look up an existing line item tagged with this course
+  const lookupUrl = new URL(lineItemsUrl);
+  lookupUrl.searchParams.set('resource_id', target.courseId);
+
+  const lookupResponse = await fetch(lookupUrl.toString(), {
+    headers: {
+      Accept: 'application/vnd.ims.lis.v2.lineitemcontainer+json',
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+
+  let lineItemUrl: string | null = null;
+
+  if (lookupResponse.ok) {
+    const items = (await lookupResponse.json()) as { id: string }[];
+    lineItemUrl = items[0]?.id || null;
+  }
+
+  // Create one if the platform lets us
+  if (!lineItemUrl && canWrite) {
+    const courseResult = await query<{ title: string }>(
+      'SELECT title FROM courses WHERE id = $1',
+      [target.courseId]
+    );
+
+    const createResponse = await fetch(lineItemsUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/vnd.ims.lis.v2.lineitem+json',
+        Accept: 'application/vnd.ims.lis.v2.lineitem+json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({
+        scoreMaximum: 100,
+        label: courseResult.rows[0]?.title || 'SCORM Course',
+        resourceId: target.courseId,
+        ...(target.resourceLinkId ? { resourceLinkId: target.resourceLinkId } : {}),
+      }),
+    });
+
+    if (!createResponse.ok) {
+      const errorText = await createResponse.text();
+      throw new Error(`AGS line item create failed: ${createResponse.status} - ${errorText}`);
+    }
+
+    const created = (await createResponse.json()) as { id: string };
+    lineItemUrl = created.id;
+  }
+
+  if (lineItemUrl) {
+    await query(
+      `INSERT INTO lti_line_items (platform_id, context_id, course_id, lineitem_url)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (platform_id, context_id, course_id) DO NOTHING`,
+      [platform.id, target.contextId || '', target.courseId, lineItemUrl]
+    );
+  }
+
+  return lineItemUrl;
+}
+
+/**
+ * Gets an OAuth2 access token from the platform using the client-credentials
+ * grant with a signed JWT client assertion
+ */
+async function getAccessToken(platform: LtiPlatform, scopes: string[]): Promise<string> {
+  if (!platform.auth_token_url) {
+    throw new Error('Platform has no access token URL configured');
+  }
+
+  const scope = scopes.join(' ');
+  const cacheKey = `${platform.id}|${scope}`;
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.accessToken;
+  }
+
+  const key = await getToolSigningKey();
+  const now = Math.floor(Date.now() / 1000);
+  const clientAssertion = signJwt(
+    {
+      iss: platform.client_id,
+      sub: platform.client_id,
+      aud: platform.auth_token_url,
+      iat: now,
+      exp: now + 300,
+      jti: crypto.randomUUID(),
+    },
+    key
+  );
+
+  const response = await fetch(platform.auth_token_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+      client_assertion: clientAssertion,
+      scope,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Access token request failed: ${response.status} - ${errorText}`);
+  }
+
+  const token = (await response.json()) as { access_token: string; expires_in?: number };
+
+  // Refresh a minute early so in-flight requests don't race expiry
+  const expiresIn = (token.expires_in || 3600) - 60;
+  tokenCache.set(cacheKey, {
+    accessToken: token.access_token,
+    expiresAt: Date.now() + expiresIn * 1000,
+  });
+
+  return token.access_token;
+}
+
+async function getPlatform(platformId: string): Promise<LtiPlatform> {
+  const result = await query<LtiPlatform>(
+    `SELECT id, consumer_id, issuer, client_id, deployment_id,
+            auth_login_url, auth_token_url, jwks_url
+     FROM lti_platforms WHERE id = $1`,
+    [platformId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('Platform not found');
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Appends a path segment to a URL that may carry a query string
+ */
+function appendPath(url: string, suffix: string): string {
+  const parsed = new URL(url);
+  parsed.pathname = parsed.pathname.replace(/\/$/, '') + suffix;
+  return parsed.toString();
+}
@@ -7,6 +7,12 @@ export interface LtiLaunchData {
   lisOutcomeServiceUrl?: string;
   lisResultSourcedid?: string;
   customCourseId?: string;
+  customMode?: string; // lesson mode requested by the link's "mode" custom parameter
+  givenName?: string;
+  familyName?: string;
+  fullName?: string;
+  email?: string;
+  roles?: string[];
 }
 
 /**
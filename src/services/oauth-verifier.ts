@@ -0,0 +1,134 @@
+import { query } from '../db/index.js';
+import { config } from '../config.js';
+import { validateLtiLaunch } from './lti-provider.js';
+
+/**
+ * Reason codes for rejected OAuth 1.0a requests (shown on error pages)
+ */
+export type OAuthRejectReason =
+  | 'oauth_consumer_key_missing'
+  | 'oauth_consumer_unknown'
+  | 'oauth_signature_method_unsupported'
+  | 'oauth_timestamp_missing'
+  | 'oauth_timestamp_out_of_range'
+  | 'oauth_nonce_missing'
+  | 'oauth_signature_invalid'
+  | 'oauth_nonce_replayed';
+
+export interface OAuthConsumer {
+  id: string;
+  lti_consumer_key: string;
+  lti_consumer_secret: string;
+}
+
+export type OAuthVerification =
+  | { valid: true; consumer: OAuthConsumer }
+  | { valid: false; reason: OAuthRejectReason; message: string };
+
+// Expired nonces are purged on this interval
+const NONCE_CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+let cleanupTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Verifies an OAuth 1.0a signed request from an LTI consumer: signature,
+ * timestamp within the configured clock-skew window, and a nonce that has
+ * not been seen before. Use for every OAuth1-signed endpoint.
+ */
+export async function verifyOAuthRequest(
+  params: Record<string, string>,
+  url: string
+): Promise<OAuthVerification> {
+  const consumerKey = params.oauth_consumer_key;
+  if (!consumerKey) {
+    return reject('oauth_consumer_key_missing', 'Missing oauth_consumer_key');
+  }
+
+  const consumerResult = await query<OAuthConsumer>(
+    `SELECT id, lti_consumer_key, lti_consumer_secret
+     FROM consumers WHERE lti_consumer_key = $1 AND active = true`,
+    [consumerKey]
+  );
+
+  if (consumerResult.rows.length === 0) {
+    return reject('oauth_consumer_unknown', 'Unknown consumer');
+  }
+
+  const consumer = consumerResult.rows[0];
+
+  if (params.oauth_signature_method && params.oauth_signature_method !== 'HMAC-SHA1') {
+    return reject(
+      'oauth_signature_method_unsupported',
+      `Unsupported signature method: ${params.oauth_signature_method}`
+    );
+  }
+
+  const timestamp = parseInt(params.oauth_timestamp, 10);
+  if (!params.oauth_timestamp || Number.isNaN(timestamp)) {
+    return reject('oauth_timestamp_missing', 'Missing or invalid oauth_timestamp');
+  }
+
+  const skew = config.lti.oauthMaxSkewSeconds;
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > skew) {
+    return reject(
+      'oauth_timestamp_out_of_range',
+      'The request timestamp is too old or too far in the future. Check that the LMS server clock is correct and relaunch.'
+    );
+  }
+
+  if (!params.oauth_nonce) {
+    return reject('oauth_nonce_missing', 'Missing oauth_nonce');
+  }
+
+  // Check the signature before recording the nonce so forged requests
+  // can't use up nonces
+  if (!validateLtiLaunch(params, consumer.lti_consumer_secret, url)) {
+    return reject('oauth_signature_invalid', 'Invalid OAuth signature');
+  }
+
+  // A nonce only needs remembering while its timestamp is still acceptable
+  const recorded = await query(
+    `INSERT INTO oauth_nonces (consumer_key, nonce, expires_at)
+     VALUES ($1, $2, to_timestamp($3) + make_interval(secs => $4))
+     ON CONFLICT (consumer_key, nonce) DO NOTHING`,
+    [consumerKey, params.oauth_nonce, timestamp, skew]
+  );
+
+  if ((recorded.rowCount ?? 0) === 0) {
+    return reject(
+      'oauth_nonce_replayed',
+      'This launch request has already been used. Please relaunch from the LMS.'
+    );
+  }
+
+  return { valid: true, consumer };
+}
+
+/**
+ * Removes nonces whose timestamps can no longer pass the skew check
+ */
+export async function purgeExpiredNonces(): Promise<void> {
+  try {
+    await query('DELETE FROM oauth_nonces WHERE expires_at < CURRENT_TIMESTAMP');
+  } catch (error) {
+    console.error('Nonce cleanup error:', error);
+  }
+}
+
+/**
+ * Starts periodic cleanup of expired nonces
+ */
+export function startNonceCleanup(): void {
+  if (cleanupTimer) return;
+
+  cleanupTimer = setInterval(() => {
+    purgeExpiredNonces();
+  }, NONCE_CLEANUP_INTERVAL_MS);
+
+  cleanupTimer.unref();
+}
+
+function reject(reason: OAuthRejectReason, message: string): OAuthVerification {
+  return { valid: false, reason, message };
+}
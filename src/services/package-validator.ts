@@ -0,0 +1,578 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseString } from 'xml2js';
+import { promisify } from 'util';
+import {
+  attributes,
+  childElements,
+  identifyScormVersion,
+  parseManifestRoot,
+  ItemData,
+  ManifestData,
+  ScormEdition,
+  ScormIdentity,
+} from './content-manager.js';
+
+const parseXml = promisify(parseString);
+
+type XmlNode = Record<string, unknown>;
+
+/**
+ * Errors stop a package from launching or tracking reliably and block the
+ * upload; warnings are departures from the CAM the player tolerates.
+ */
+export type FindingSeverity = 'error' | 'warning';
+
+export type FindingCode =
+  | 'manifest_missing'
+  | 'manifest_invalid'
+  | 'unknown_version'
+  | 'missing_element'
+  | 'missing_attribute'
+  | 'invalid_value'
+  | 'invalid_structure'
+  | 'version_mismatch'
+  | 'duplicate_identifier'
+  | 'unknown_reference'
+  | 'missing_resource_href'
+  | 'no_sco'
+  | 'file_missing'
+  | 'file_unreferenced'
+  | 'unsupported_feature';
+
+export interface ValidationFinding {
+  severity: FindingSeverity;
+  code: FindingCode;
+  message: string;
+  identifier?: string; // manifest element the finding is about
+  file?: string; // path within the package
+}
+
+export interface ValidationReport {
+  valid: boolean; // no errors
+  scormVersion: '1.2' | '2004' | null; // the version the player will run the package as
+  edition: ScormEdition | null;
+  title: string | null;
+  counts: {
+    organizations: number;
+    items: number;
+    resources: number;
+    scos: number;
+    files: number;
+  };
+  findings: ValidationFinding[]; // errors first
+}
+
+// Files a package carries for the manifest rather than the content
+const SCHEMA_FILE_EXTENSIONS = ['.xsd', '.dtd'];
+
+/**
+ * Checks an extracted package against the SCORM 1.2 and 2004 Content
+ * Aggregation Model: the manifest's required elements and attributes, its
+ * identifier references and item structure, and that every resource and
+ * <file> href exists in the package. Files the manifest doesn't list are
+ * reported too, since they're missing from the package's declared content.
+ */
+export async function validatePackage(packageDir: string): Promise<ValidationReport> {
+  const findings: ValidationFinding[] = [];
+  const manifestPath = path.join(packageDir, 'imsmanifest.xml');
+
+  let root: XmlNode | undefined;
+  try {
+    const xmlContent = await fs.readFile(manifestPath, 'utf-8');
+    root = ((await parseXml(xmlContent)) as { manifest?: XmlNode }).manifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      findings.push({
+        severity: 'error',
+        code: 'manifest_missing',
+        message: 'imsmanifest.xml is missing from the package root',
+      });
+    } else {
+      findings.push({
+        severity: 'error',
+        code: 'manifest_invalid',
+        message: `imsmanifest.xml is not well-formed XML: ${String((error as Error).message).replace(/\n/g, ', ')}`,
+        file: 'imsmanifest.xml',
+      });
+    }
+    return buildReport(findings, null, 0);
+  }
+
+  if (!root) {
+    findings.push({
+      severity: 'error',
+      code: 'manifest_invalid',
+      message: 'imsmanifest.xml has no <manifest> root element',
+      file: 'imsmanifest.xml',
+    });
+    return buildReport(findings, null, 0);
+  }
+
+  const identity = identifyScormVersion(root);
+  if (!identity) {
+    findings.push({
+      severity: 'error',
+      code: 'unknown_version',
+      message:
+        "The manifest doesn't identify itself as SCORM 1.2 or 2004: it has no recognised <schemaversion> and no SCORM namespaces",
+      file: 'imsmanifest.xml',
+    });
+    return buildReport(findings, null, 0);
+  }
+
+  const manifest = parseManifestRoot(root);
+  checkSchemaVersion(root, identity, findings);
+
+  checkStructure(root, manifest.scormVersion, findings);
+  checkIdentifiers(root, findings);
+  checkReferences(manifest, findings);
+
+  const packageFiles = await listFiles(packageDir);
+  checkFiles(root, manifest, packageFiles, findings);
+
+  return buildReport(findings, manifest, packageFiles.length);
+}
+
+/**
+ * Both CAM versions require <metadata> with <schema> and <schemaversion>;
+ * the declared version should agree with the manifest's namespaces
+ */
+function checkSchemaVersion(root: XmlNode, identity: ScormIdentity, findings: ValidationFinding[]): void {
+  const metadata = childElements(root, 'metadata')[0];
+  if (!metadata) {
+    findings.push({
+      severity: 'warning',
+      code: 'missing_element',
+      message: 'The manifest has no <metadata> declaring its schema and schemaversion',
+    });
+    return;
+  }
+
+  const schema = elementText(childElements(metadata, 'schema')[0]);
+  if (schema !== 'ADL SCORM') {
+    findings.push({
+      severity: 'warning',
+      code: schema ? 'invalid_value' : 'missing_element',
+      message: schema
+        ? `<schema> is "${schema}" rather than "ADL SCORM"`
+        : 'The manifest metadata has no <schema>',
+    });
+  }
+
+  if (!identity.declaredVersion) {
+    findings.push({
+      severity: 'warning',
+      code: 'missing_element',
+      message: 'The manifest metadata has no <schemaversion>',
+    });
+  } else if (identity.identifiedBy === 'namespaces') {
+    findings.push({
+      severity: 'warning',
+      code: 'invalid_value',
+      message: `<schemaversion> "${identity.declaredVersion}" isn't a SCORM 1.2 or 2004 version`,
+    });
+  } else if (identity.namespaceVersion && identity.namespaceVersion !== identity.scormVersion) {
+    findings.push({
+      severity: 'warning',
+      code: 'version_mismatch',
+      message: `<schemaversion> declares SCORM ${identity.edition} but the manifest's namespaces are SCORM ${identity.namespaceVersion}; the package will run as SCORM ${identity.scormVersion}`,
+    });
+  }
+}
+
+/**
+ * Required elements and attributes, and the item tree rules. In SCORM 2004
+ * an item either has child items or references a resource, never both.
+ */
+function checkStructure(root: XmlNode, scormVersion: '1.2' | '2004', findings: ValidationFinding[]): void {
+  if (!attributes(root).identifier) {
+    findings.push({ severity: 'warning', code: 'missing_attribute', message: '<manifest> has no identifier' });
+  }
+
+  const organizations = childElements(root, 'organizations')[0];
+  if (!organizations) {
+    findings.push({ severity: 'error', code: 'missing_element', message: 'The manifest has no <organizations>' });
+  } else if (childElements(organizations, 'organization').length > 0 && !attributes(organizations).default) {
+    findings.push({
+      severity: 'warning',
+      code: 'missing_attribute',
+      message: '<organizations> has no default organization',
+    });
+  }
+
+  for (const organization of childElements(organizations, 'organization')) {
+    const identifier = attributes(organization).identifier;
+    if (!identifier) {
+      findings.push({ severity: 'error', code: 'missing_attribute', message: 'An <organization> has no identifier' });
+    }
+    if (!elementText(childElements(organization, 'title')[0])) {
+      findings.push({
+        severity: 'warning',
+        code: 'missing_element',
+        message: `Organization ${identifier || '(unnamed)'} has no title`,
+        identifier,
+      });
+    }
+    if (childElements(organization, 'item').length === 0) {
+      findings.push({
+        severity: 'error',
+        code: 'invalid_structure',
+        message: `Organization ${identifier || '(unnamed)'} has no items`,
+        identifier,
+      });
+    }
+    checkItems(childElements(organization, 'item'), scormVersion, findings);
+  }
+
+  const resources = childElements(root, 'resources')[0];
+  if (!resources) {
+    findings.push({ severity: 'error', code: 'missing_element', message: 'The manifest has no <resources>' });
+    return;
+  }
+
+  if (attributes(resources)['xml:base']) {
+    findings.push({
+      severity: 'warning',
+      code: 'unsupported_feature',
+      message: '<resources> sets xml:base, which the player ignores when resolving hrefs',
+    });
+  }
+
+  for (const resource of childElements(resources, 'resource')) {
+    const attrs = attributes(resource);
+    const identifier = attrs.identifier;
+    const label = identifier || '(unnamed)';
+
+    if (!identifier) {
+      findings.push({ severity: 'error', code: 'missing_attribute', message: 'A <resource> has no identifier' });
+    }
+    if (!attrs.type) {
+      findings.push({
+        severity: 'warning',
+        code: 'missing_attribute',
+        message: `Resource ${label} has no type`,
+        identifier,
+      });
+    }
+    if (attrs['xml:base']) {
+      findings.push({
+        severity: 'warning',
+        code: 'unsupported_feature',
+        message: `Resource ${label} sets xml:base, which the player ignores when resolving hrefs`,
+        identifier,
+      });
+    }
+
+    const scormTypeKey = Object.keys(attrs).find((key) => key.split(':').pop()?.toLowerCase() === 'scormtype');
+    const scormType = scormTypeKey ? attrs[scormTypeKey] : undefined;
+    if (!scormType) {
+      findings.push({
+        severity: 'warning',
+        code: 'missing_attribute',
+        message: `Resource ${label} has no adlcp:scormType`,
+        identifier,
+      });
+    } else if (!['sco', 'asset'].includes(scormType.toLowerCase())) {
+      findings.push({
+        severity: 'warning',
+        code: 'invalid_value',
+        message: `Resource ${label} has scormType "${scormType}" rather than "sco" or "asset"`,
+        identifier,
+      });
+    }
+  }
+}
+
+function checkItems(items: XmlNode[], scormVersion: '1.2' | '2004', findings: ValidationFinding[]): void {
+  for (const item of items) {
+    const attrs = attributes(item);
+    const identifier = attrs.identifier;
+    const label = identifier || '(unnamed)';
+    const children = childElements(item, 'item');
+
+    if (!identifier) {
+      findings.push({ severity: 'error', code: 'missing_attribute', message: 'An <item> has no identifier' });
+    }
+    if (!elementText(childElements(item, 'title')[0])) {
+      findings.push({
+        severity: 'warning',
+        code: 'missing_element',
+        message: `Item ${label} has no title`,
+        identifier,
+      });
+    }
+
+    if (children.length === 0 && !attrs.identifierref) {
+      findings.push({
+        severity: scormVersion === '2004' ? 'error' : 'warning',
+        code: 'invalid_structure',
+        message: `Item ${label} has no child items and doesn't reference a resource`,
+        identifier,
+      });
+    } else if (children.length > 0 && attrs.identifierref && scormVersion === '2004') {
+      findings.push({
+        severity: 'error',
+        code: 'invalid_structure',
+        message: `Item ${label} has child items and also references resource ${attrs.identifierref}`,
+        identifier,
+      });
+    }
+
+    checkItems(children, scormVersion, findings);
+  }
+}
+
+/**
+ * Identifiers of the manifest, organizations, items and resources share one
+ * namespace (xs:ID), so the same value may only be used once
+ */
+function checkIdentifiers(root: XmlNode, findings: ValidationFinding[]): void {
+  const seen = new Set<string>();
+  const reported = new Set<string>();
+
+  const visit = (node: XmlNode | undefined) => {
+    const identifier = attributes(node).identifier;
+    if (!identifier) return;
+    if (seen.has(identifier) && !reported.has(identifier)) {
+      reported.add(identifier);
+      findings.push({
+        severity: 'error',
+        code: 'duplicate_identifier',
+        message: `Identifier ${identifier} is used more than once`,
+        identifier,
+      });
+    }
+    seen.add(identifier);
+  };
+
+  const visitItems = (items: XmlNode[]) => {
+    for (const item of items) {
+      visit(item);
+      visitItems(childElements(item, 'item'));
+    }
+  };
+
+  visit(root);
+  for (const organization of childElements(childElements(root, 'organizations')[0], 'organization')) {
+    visit(organization);
+    visitItems(childElements(organization, 'item'));
+  }
+  for (const resource of childElements(childElements(root, 'resources')[0], 'resource')) {
+    visit(resource);
+  }
+}
+
+/**
+ * The default organization, item identifierrefs and resource dependencies
+ * must name elements that exist, and items must launch something
+ */
+function checkReferences(manifest: ManifestData, findings: ValidationFinding[]): void {
+  const resources = new Map(manifest.resources.map((r) => [r.identifier, r]));
+
+  if (
+    manifest.defaultOrganization &&
+    !manifest.organizations.some((o) => o.identifier === manifest.defaultOrganization)
+  ) {
+    findings.push({
+      severity: 'error',
+      code: 'unknown_reference',
+      message: `The default organization ${manifest.defaultOrganization} doesn't exist`,
+      identifier: manifest.defaultOrganization,
+    });
+  }
+
+  const visitItems = (items: ItemData[]) => {
+    for (const item of items) {
+      if (item.resourceId) {
+        const resource = resources.get(item.resourceId);
+        if (!resource) {
+          findings.push({
+            severity: 'error',
+            code: 'unknown_reference',
+            message: `Item ${item.identifier} references resource ${item.resourceId}, which doesn't exist`,
+            identifier: item.identifier,
+          });
+        } else if (!resource.href) {
+          findings.push({
+            severity: 'error',
+            code: 'missing_resource_href',
+            message: `Item ${item.identifier} launches resource ${resource.identifier}, which has no href`,
+            identifier: item.identifier,
+          });
+        }
+      }
+      visitItems(item.items || []);
+    }
+  };
+
+  for (const organization of manifest.organizations) {
+    visitItems(organization.items);
+  }
+
+  for (const resource of manifest.resources) {
+    for (const dependency of resource.dependencies) {
+      if (!resources.has(dependency)) {
+        findings.push({
+          severity: 'error',
+          code: 'unknown_reference',
+          message: `Resource ${resource.identifier} depends on resource ${dependency}, which doesn't exist`,
+          identifier: resource.identifier,
+        });
+      }
+    }
+  }
+
+  if (!manifest.resources.some((r) => r.scormType?.toLowerCase() === 'sco')) {
+    findings.push({
+      severity: 'warning',
+      code: 'no_sco',
+      message: 'No resource is a SCO, so the package will never report progress or scores',
+    });
+  }
+}
+
+/**
+ * Resource hrefs are what the player launches, so a missing one is an error;
+ * a missing <file> only means the manifest's file list is out of date
+ */
+function checkFiles(
+  root: XmlNode,
+  manifest: ManifestData,
+  packageFiles: string[],
+  findings: ValidationFinding[]
+): void {
+  const present = new Set(packageFiles);
+  const presentLowerCase = new Map(packageFiles.map((f) => [f.toLowerCase(), f]));
+  const referenced = new Set<string>(['imsmanifest.xml', ...collectLocations(root)]);
+
+  const check = (href: string, severity: FindingSeverity, message: string, identifier: string) => {
+    const file = packagePath(href);
+    if (file === null) return;
+    referenced.add(file);
+    if (present.has(file)) return;
+
+    const differentCase = presentLowerCase.get(file.toLowerCase());
+    findings.push({
+      severity,
+      code: 'file_missing',
+      message: differentCase ? `${message} (the package has ${differentCase}; paths are case-sensitive)` : message,
+      identifier,
+      file,
+    });
+  };
+
+  for (const resource of manifest.resources) {
+    if (resource.href) {
+      check(
+        resource.href,
+        'error',
+        `Resource ${resource.identifier} launches ${resource.href}, which isn't in the package`,
+        resource.identifier
+      );
+    }
+    for (const href of resource.files) {
+      check(
+        href,
+        'warning',
+        `Resource ${resource.identifier} lists file ${href}, which isn't in the package`,
+        resource.identifier
+      );
+    }
+  }
+
+  for (const file of packageFiles) {
+    if (referenced.has(file) || SCHEMA_FILE_EXTENSIONS.includes(path.extname(file).toLowerCase())) continue;
+    findings.push({
+      severity: 'warning',
+      code: 'file_unreferenced',
+      message: `${file} isn't listed by any resource`,
+      file,
+    });
+  }
+}
+
+/**
+ * Package-relative path of an href, without query string or fragment.
+ * Returns null for absolute URLs, which point outside the package.
+ */
+function packagePath(href: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('//')) return null;
+
+  let file = href.split(/[?#]/)[0];
+  try {
+    file = decodeURIComponent(file);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  return path.posix.normalize(file.replace(/\\/g, '/')).replace(/^\/+/, '');
+}
+
+/**
+ * Metadata files referenced by <adlcp:location> anywhere in the manifest
+ */
+function collectLocations(node: unknown): string[] {
+  if (Array.isArray(node)) return node.flatMap(collectLocations);
+  if (typeof node !== 'object' || node === null) return [];
+
+  return Object.entries(node as XmlNode).flatMap(([key, value]) => {
+    if (key.split(':').pop()?.toLowerCase() === 'location') {
+      return (value as unknown[])
+        .map((v) => packagePath(elementText(typeof v === 'object' && v !== null ? (v as XmlNode) : { _: v })))
+        .filter((file): file is string => !!file);
+    }
+    return key === '$' ? [] : collectLocations(value);
+  });
+}
+
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(path.join(dir, entry.name), relative)));
+    } else {
+      files.push(relative);
+    }
+  }
+
+  return files;
+}
+
+function buildReport(
+  findings: ValidationFinding[],
+  manifest: ManifestData | null,
+  fileCount: number
+): ValidationReport {
+  const countItems = (items: ItemData[]): number =>
+    items.reduce((sum, item) => sum + 1 + countItems(item.items || []), 0);
+
+  return {
+    valid: !findings.some((f) => f.severity === 'error'),
+    scormVersion: manifest?.scormVersion ?? null,
+    edition: manifest?.edition ?? null,
+    title: manifest?.title ?? null,
+    counts: {
+      organizations: manifest?.organizations.length ?? 0,
+      items: manifest?.organizations.reduce((sum, o) => sum + countItems(o.items), 0) ?? 0,
+      resources: manifest?.resources.length ?? 0,
+      scos: manifest?.resources.filter((r) => r.scormType?.toLowerCase() === 'sco').length ?? 0,
+      files: fileCount,
+    },
+    findings: [
+      ...findings.filter((f) => f.severity === 'error'),
+      ...findings.filter((f) => f.severity === 'warning'),
+    ],
+  };
+}
+
+function elementText(node: XmlNode | undefined): string {
+  const text = node?._;
+  if (typeof text === 'string') return text.trim();
+
+  // LOM-style values wrap the text in <langstring> or <string>
+  const wrapped = node ? childElements(node, 'langstring')[0] || childElements(node, 'string')[0] : undefined;
+  return wrapped ? elementText(wrapped) : '';
+}
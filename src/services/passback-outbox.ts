@@ -0,0 +1,293 @@
+import { query } from '../db/index.js';
+import { config } from '../config.js';
+import { sendGradeToLms } from './lti-outcomes.js';
+import { sendScoreToPlatform, AgsEndpoint, AgsResult, AgsTarget, AGS_SCOPES } from './lti-ags.js';
+import { sendXapiStatement, XapiStatementData } from './xapi-client.js';
+import { LTI_CLAIMS } from './lti-advantage.js';
+import { formatTimespan } from './cmi-schema.js';
+import { selectGrade } from './attempt-policy.js';
+
+export type DeliveryKind = 'lti_outcome' | 'ags_score' | 'xapi_statement';
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+interface LtiOutcomePayload {
+  consumerId: string;
+  outcomeServiceUrl: string;
+  sourcedid: string;
+  score: number;
+}
+
+interface AgsScorePayload {
+  target: AgsTarget;
+  result: AgsResult;
+}
+
+interface XapiStatementPayload {
+  consumerId: string;
+  userId: string;
+  courseId: string;
+  statement: XapiStatementData;
+}
+
+interface OutboxRow {
+  id: string;
+  attempt_id: string;
+  kind: DeliveryKind;
+  payload: LtiOutcomePayload | AgsScorePayload | XapiStatementPayload;
+  attempts: number;
+}
+
+// Grades replace each other, so only the newest pending one is worth sending
+const REPLACEABLE_KINDS: DeliveryKind[] = ['lti_outcome', 'ags_score'];
+
+// How long a claimed delivery stays locked before another worker may retry it
+const CLAIM_LEASE_SECONDS = 300;
+
+const BATCH_SIZE = 20;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let processing = false;
+
+/**
+ * Queues grade passback and xAPI deliveries for an attempt's current result.
+ * Reads the attempt and its launch, so call it after the attempt is updated.
+ * Grades follow the attempt policy's grade selection; xAPI statements
+ * describe this attempt. No-credit attempts queue nothing.
+ */
+export async function enqueueAttemptPassback(attemptId: string): Promise<number> {
+  const result = await query<{
+    score: string | null;
+    completion_status: string;
+    success_status: string | null;
+    time_spent_seconds: number | null;
+    consumer_id: string;
+    lis_outcome_service_url: string | null;
+    lis_result_sourcedid: string | null;
+    user_id: string;
+    course_id: string;
+    context_id: string | null;
+    resource_link_id: string | null;
+    platform_id: string | null;
+    launch_data: Record<string, unknown>;
+  }>(
+    `SELECT a.score, a.completion_status, a.success_status,
+            EXTRACT(EPOCH FROM a.time_spent)::float8 AS time_spent_seconds,
+            l.consumer_id, l.lis_outcome_service_url, l.lis_result_sourcedid,
+            l.user_id, l.course_id, l.context_id, l.resource_link_id,
+            l.platform_id, l.launch_data
+     FROM attempts a
+     JOIN launches l ON a.launch_id = l.id
+     WHERE a.id = $1 AND a.credit = 'credit'`,
+    [attemptId]
+  );
+
+  if (result.rows.length === 0) {
+    return 0;
+  }
+
+  const row = result.rows[0];
+  const normalizedScore = row.score !== null ? parseFloat(row.score) / 100 : null;
+  const grade = await selectGrade(attemptId);
+  const gradeScore = grade?.score != null ? grade.score / 100 : null;
+  const deliveries: { kind: DeliveryKind; payload: unknown }[] = [];
+
+  // LTI 1.1 grade passback (if available)
+  if (row.lis_outcome_service_url && row.lis_result_sourcedid && gradeScore !== null) {
+    deliveries.push({
+      kind: 'lti_outcome',
+      payload: {
+        consumerId: row.consumer_id,
+        outcomeServiceUrl: row.lis_outcome_service_url,
+        sourcedid: row.lis_result_sourcedid,
+        score: gradeScore,
+      },
+    });
+  }
+
+  // LTI 1.3 AGS score (if the platform granted the score scope)
+  const agsEndpoint = row.launch_data?.[LTI_CLAIMS.ags] as AgsEndpoint | undefined;
+  if (row.platform_id && agsEndpoint?.scope?.includes(AGS_SCOPES.score)) {
+    deliveries.push({
+      kind: 'ags_score',
+      payload: {
+        target: {
+          platformId: row.platform_id,
+          endpoint: agsEndpoint,
+          contextId: row.context_id,
+          resourceLinkId: row.resource_link_id,
+          courseId: row.course_id,
+          userId: row.user_id,
+        },
+        result: {
+          score: gradeScore,
+          completionStatus: grade?.completionStatus ?? row.completion_status,
+          successStatus: grade ? grade.successStatus : row.success_status,
+        },
+      },
+    });
+  }
+
+  // xAPI statement (for dispatch mode)
+  const launchData = row.launch_data as { type?: string };
+  if (launchData?.type === 'dispatch') {
+    deliveries.push({
+      kind: 'xapi_statement',
+      payload: {
+        consumerId: row.consumer_id,
+        userId: row.user_id,
+        courseId: row.course_id,
+        statement: {
+          verb: row.completion_status === 'completed' ? 'completed' : 'progressed',
+          score: normalizedScore,
+          success: row.success_status === 'passed',
+          // ISO 8601, which is also the SCORM 2004 timespan format
+          ...(row.time_spent_seconds ? { duration: formatTimespan('2004', row.time_spent_seconds) } : {}),
+        },
+      },
+    });
+  }
+
+  for (const delivery of deliveries) {
+    if (REPLACEABLE_KINDS.includes(delivery.kind)) {
+      await query(
+        `DELETE FROM passback_outbox
+         WHERE attempt_id = $1 AND kind = $2 AND status = 'pending'`,
+        [attemptId, delivery.kind]
+      );
+    }
+
+    await query(
+      'INSERT INTO passback_outbox (attempt_id, kind, payload) VALUES ($1, $2, $3)',
+      [attemptId, delivery.kind, JSON.stringify(delivery.payload)]
+    );
+  }
+
+  return deliveries.length;
+}
+
+/**
+ * Puts a failed or dead-lettered delivery back in the queue for immediate delivery
+ */
+export async function retryDelivery(deliveryId: string): Promise<boolean> {
+  const result = await query(
+    `UPDATE passback_outbox SET
+       status = 'pending',
+       attempts = 0,
+       next_attempt_at = CURRENT_TIMESTAMP,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND status != 'delivered'`,
+    [deliveryId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Delivers due outbox entries. Safe to call at any time; overlapping calls
+ * in this process are skipped and rows are claimed so other instances don't
+ * send the same delivery.
+ */
+export async function processOutbox(): Promise<void> {
+  if (processing) return;
+  processing = true;
+
+  try {
+    const claimed = await query<OutboxRow>(
+      `UPDATE passback_outbox SET
+         attempts = attempts + 1,
+         next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $2),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id IN (
+         SELECT id FROM passback_outbox
+         WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY next_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id, attempt_id, kind, payload, attempts`,
+      [BATCH_SIZE, CLAIM_LEASE_SECONDS]
+    );
+
+    for (const row of claimed.rows) {
+      await deliver(row);
+    }
+  } catch (error) {
+    console.error('Passback outbox error:', error);
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Starts the background worker that retries pending deliveries
+ */
+export function startPassbackWorker(): void {
+  if (workerTimer) return;
+
+  workerTimer = setInterval(() => {
+    processOutbox();
+  }, config.passback.pollIntervalMs);
+
+  // Don't keep the process alive just for the worker
+  workerTimer.unref();
+}
+
+async function deliver(row: OutboxRow): Promise<void> {
+  try {
+    switch (row.kind) {
+      case 'lti_outcome': {
+        const p = row.payload as LtiOutcomePayload;
+        await sendGradeToLms(p.consumerId, p.outcomeServiceUrl, p.sourcedid, p.score);
+        break;
+      }
+      case 'ags_score': {
+        const p = row.payload as AgsScorePayload;
+        await sendScoreToPlatform(p.target, p.result);
+        break;
+      }
+      case 'xapi_statement': {
+        const p = row.payload as XapiStatementPayload;
+        await sendXapiStatement(p.consumerId, p.userId, p.courseId, p.statement);
+        break;
+      }
+      default:
+        throw new Error(`Unknown delivery kind: ${row.kind}`);
+    }
+
+    await query(
+      `UPDATE passback_outbox SET
+         status = 'delivered',
+         last_error = NULL,
+         delivered_at = CURRENT_TIMESTAMP,
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [row.id]
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const dead = row.attempts >= config.passback.maxAttempts;
+
+    console.error(
+      `Passback ${row.kind} for attempt ${row.attempt_id} failed (try ${row.attempts})${dead ? ', dead-lettered' : ''}:`,
+      message
+    );
+
+    await query(
+      `UPDATE passback_outbox SET
+         status = $2,
+         last_error = $3,
+         next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $4),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [row.id, dead ? 'dead' : 'pending', message, backoffSeconds(row.attempts)]
+    );
+  }
+}
+
+/**
+ * Exponential backoff: base, 2x base, 4x base, ... capped at the max delay
+ */
+function backoffSeconds(attempts: number): number {
+  const delay = config.passback.baseDelaySeconds * Math.pow(2, Math.max(0, attempts - 1));
+  return Math.min(delay, config.passback.maxDelaySeconds);
+}
@@ -0,0 +1,1550 @@
+import { query } from '../db/index.js';
+import {
+  ManifestData,
+  ItemData,
+  ResourceData,
+  SequencingData,
+  SequencingRule,
+  RollupRule,
+  RuleCondition,
+  ObjectiveDefinition,
+  ScormEdition,
+} from './content-manager.js';
+import { formatTimespan, parseTimespan, runtimeVersion } from './cmi-schema.js';
+
+export type NavigationRequest =
+  | 'start'
+  | 'resumeAll'
+  | 'continue'
+  | 'previous'
+  | 'choice'
+  | 'exit'
+  | 'exitAll'
+  | 'suspendAll'
+  | 'abandon'
+  | 'abandonAll';
+
+export const NAVIGATION_REQUESTS: NavigationRequest[] = [
+  'start',
+  'resumeAll',
+  'continue',
+  'previous',
+  'choice',
+  'exit',
+  'exitAll',
+  'suspendAll',
+  'abandon',
+  'abandonAll',
+];
+
+/**
+ * How a SCORM 1.2 course's SCO results combine into the attempt result
+ */
+export type ScoRollupMethod = 'average' | 'all_complete' | 'weighted';
+
+export const SCO_ROLLUP_METHODS: ScoRollupMethod[] = ['average', 'all_complete', 'weighted'];
+
+export interface ActivityNode {
+  id: string;
+  title: string;
+  href: string | null;
+  visible: boolean;
+  launch: LaunchSettings;
+  parent: ActivityNode | null;
+  children: ActivityNode[];
+  sequencing: ResolvedSequencing;
+}
+
+/**
+ * Run-time values an item's manifest entry supplies to its SCO
+ */
+export interface LaunchSettings {
+  launchData: string;
+  masteryScore: number | null; // SCORM 1.2 only
+  maxTimeAllowed: string; // SCORM 1.2 only
+  timeLimitAction: string;
+}
+
+const DEFAULT_LAUNCH: LaunchSettings = {
+  launchData: '',
+  masteryScore: null,
+  maxTimeAllowed: '',
+  timeLimitAction: 'continue,no message',
+};
+
+/**
+ * Sequencing definition with the IMS SS defaults applied
+ */
+interface ResolvedSequencing {
+  choice: boolean;
+  choiceExit: boolean;
+  flow: boolean;
+  forwardOnly: boolean;
+  preConditionRules: SequencingRule[];
+  exitConditionRules: SequencingRule[];
+  postConditionRules: SequencingRule[];
+  attemptLimit: number | null;
+  rollupRules: RollupRule[];
+  rollupObjectiveSatisfied: boolean;
+  rollupProgressCompletion: boolean;
+  objectiveMeasureWeight: number;
+  primaryObjective: ObjectiveDefinition;
+  objectives: ObjectiveDefinition[];
+  tracked: boolean;
+  completionSetByContent: boolean;
+  objectiveSetByContent: boolean;
+}
+
+interface ObjectiveState {
+  satisfied: boolean | null;
+  measure: number | null;
+}
+
+export interface ActivityState {
+  attemptCount: number;
+  completionStatus: 'unknown' | 'completed' | 'incomplete';
+  successStatus: 'unknown' | 'passed' | 'failed';
+  scoreScaled: number | null;
+  progressMeasure: number | null;
+  active: boolean;
+  suspended: boolean;
+  objectives: Record<string, ObjectiveState>;
+  cmiData: Record<string, string>;
+  timeSpent: number; // seconds, over this attempt of the activity
+}
+
+interface SequencingSession {
+  attemptId: string;
+  scormVersion: '1.2' | '2004';
+  scoRollup: { method: ScoRollupMethod; weights: Record<string, number> };
+  root: ActivityNode;
+  activities: Map<string, ActivityNode>;
+  states: Map<string, ActivityState>;
+  currentActivity: string | null;
+  suspendedActivity: string | null;
+  globalObjectives: Record<string, ObjectiveState>;
+}
+
+export interface TocEntry {
+  id: string;
+  title: string;
+  depth: number;
+  isLeaf: boolean;
+  completionStatus: string;
+  successStatus: string;
+  current: boolean;
+  choosable: boolean;
+}
+
+export interface ActivityDelivery {
+  activityId: string;
+  title: string;
+  href: string;
+  cmiData: Record<string, string>;
+  totalTime: string;
+  launch: LaunchSettings;
+}
+
+export interface NavigationResult {
+  delivery: ActivityDelivery | null;
+  ended: boolean;
+  error: string | null;
+  toc: TocEntry[];
+  canContinue: boolean;
+  canPrevious: boolean;
+}
+
+/**
+ * Attempt-level status produced by rolling up the activity tree
+ */
+export interface RolledUpStatus {
+  score: number | null; // -1.0 to 1.0 (scaled)
+  completionStatus: 'completed' | 'incomplete';
+  successStatus: 'passed' | 'failed' | null;
+  progressMeasure: number | null;
+}
+
+type FlowResult = { activity: ActivityNode } | { end: true } | { error: string };
+
+// Navigation and commits for one attempt are applied one at a time
+const attemptLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Builds the activity tree for the manifest's default organization
+ */
+export function buildActivityTree(manifest: ManifestData): ActivityNode {
+  const org =
+    manifest.organizations.find((o) => o.identifier === manifest.defaultOrganization) ||
+    manifest.organizations[0];
+
+  const resources = new Map<string, ResourceData>(
+    manifest.resources.map((r) => [r.identifier, r])
+  );
+
+  if (!org) {
+    return createNode('root', manifest.title, manifest.launchPath, null, undefined);
+  }
+
+  const root = createNode(org.identifier, org.title || manifest.title, null, null, org.sequencing);
+  root.children = buildChildren(org.items, root, resources);
+
+  // An organization without items launches the package entry point
+  if (root.children.length === 0) {
+    root.href = manifest.launchPath;
+  }
+
+  if (manifest.scormVersion === '1.2') {
+    applyScorm12Defaults(root);
+  }
+
+  return root;
+}
+
+/**
+ * SCORM 1.2 has no sequencing: the learner moves freely between SCOs in
+ * order, and only the SCO itself decides whether it was passed
+ */
+function applyScorm12Defaults(node: ActivityNode): void {
+  node.sequencing.flow = true;
+  node.sequencing.objectiveSetByContent = true;
+  node.children.forEach(applyScorm12Defaults);
+}
+
+function buildChildren(
+  items: ItemData[],
+  parent: ActivityNode,
+  resources: Map<string, ResourceData>
+): ActivityNode[] {
+  return items.map((item) => {
+    const href = item.resourceId ? resources.get(item.resourceId)?.href || null : null;
+    const node = createNode(
+      item.identifier,
+      item.title,
+      href ? appendParameters(href, item.parameters) : null,
+      parent,
+      item.sequencing
+    );
+    node.visible = item.isVisible !== false;
+    node.launch = {
+      launchData: item.dataFromLms ?? DEFAULT_LAUNCH.launchData,
+      masteryScore: item.masteryScore ?? DEFAULT_LAUNCH.masteryScore,
+      maxTimeAllowed: item.maxTimeAllowed ?? DEFAULT_LAUNCH.maxTimeAllowed,
+      timeLimitAction: item.timeLimitAction ?? DEFAULT_LAUNCH.timeLimitAction,
+    };
+    node.children = buildChildren(item.items || [], node, resources);
+    return node;
+  });
+}
+
+/**
+ * Appends an item's parameters to its resource href (IMS CP / SCORM CAM rules)
+ */
+function appendParameters(href: string, parameters: string | undefined): string {
+  if (!parameters) return href;
+
+  if (parameters.startsWith('#')) {
+    return href.includes('#') ? href : href + parameters;
+  }
+
+  const queryString = parameters.startsWith('?') ? parameters.slice(1) : parameters;
+  return href + (href.includes('?') ? '&' : '?') + queryString;
+}
+
+function createNode(
+  id: string,
+  title: string,
+  href: string | null,
+  parent: ActivityNode | null,
+  sequencing: SequencingData | undefined
+): ActivityNode {
+  return {
+    id,
+    title,
+    href,
+    visible: true,
+    launch: DEFAULT_LAUNCH,
+    parent,
+    children: [],
+    sequencing: resolveSequencing(sequencing),
+  };
+}
+
+function resolveSequencing(seq: SequencingData | undefined): ResolvedSequencing {
+  const objectives = seq?.objectives || [];
+
+  return {
+    choice: seq?.controlMode?.choice ?? true,
+    choiceExit: seq?.controlMode?.choiceExit ?? true,
+    flow: seq?.controlMode?.flow ?? false,
+    forwardOnly: seq?.controlMode?.forwardOnly ?? false,
+    preConditionRules: seq?.preConditionRules || [],
+    exitConditionRules: seq?.exitConditionRules || [],
+    postConditionRules: seq?.postConditionRules || [],
+    attemptLimit: seq?.limitConditions?.attemptLimit || null,
+    rollupRules: seq?.rollupRules || [],
+    rollupObjectiveSatisfied: seq?.rollupControls?.rollupObjectiveSatisfied ?? true,
+    rollupProgressCompletion: seq?.rollupControls?.rollupProgressCompletion ?? true,
+    objectiveMeasureWeight: seq?.rollupControls?.objectiveMeasureWeight ?? 1,
+    primaryObjective: objectives.find((o) => o.primary) || {
+      id: '',
+      primary: true,
+      satisfiedByMeasure: false,
+      minNormalizedMeasure: 1,
+      mapInfo: [],
+    },
+    objectives: objectives.filter((o) => !o.primary),
+    tracked: seq?.deliveryControls?.tracked ?? true,
+    completionSetByContent: seq?.deliveryControls?.completionSetByContent ?? false,
+    objectiveSetByContent: seq?.deliveryControls?.objectiveSetByContent ?? false,
+  };
+}
+
+/**
+ * Processes a navigation request for an attempt. When activityId and cmiData
+ * are given, the SCO's session has ended: its final data is recorded before
+ * the request so the sequencing decision sees it, and its session time is
+ * added to the activity's total (sessionSeconds is what was added).
+ */
+export async function navigate(
+  attemptId: string,
+  request: NavigationRequest,
+  options: { target?: string; activityId?: string; cmiData?: Record<string, string> } = {}
+): Promise<{ navigation: NavigationResult; status: RolledUpStatus; sessionSeconds: number } | null> {
+  return withAttemptLock(attemptId, async () => {
+    const session = await loadSession(attemptId);
+    if (!session) return null;
+
+    let sessionSeconds = 0;
+    if (options.activityId && options.cmiData) {
+      recordActivityData(session, options.activityId, options.cmiData);
+      sessionSeconds = recordSessionTime(session, options.activityId, options.cmiData);
+    }
+
+    const navigation = processNavigationRequest(session, request, options.target);
+    await saveSession(session, navigation.ended);
+
+    return { navigation, status: rolledUpStatus(session), sessionSeconds };
+  });
+}
+
+/**
+ * Records a SCO commit against its activity and rolls the result up the tree
+ */
+export async function commitActivity(
+  attemptId: string,
+  activityId: string,
+  cmiData: Record<string, string>
+): Promise<RolledUpStatus | null> {
+  return withAttemptLock(attemptId, async () => {
+    const session = await loadSession(attemptId);
+    if (!session || !session.activities.has(activityId)) return null;
+
+    recordActivityData(session, activityId, cmiData);
+    await saveSession(session, false);
+
+    return rolledUpStatus(session);
+  });
+}
+
+async function withAttemptLock<T>(attemptId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = attemptLocks.get(attemptId) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  attemptLocks.set(attemptId, run);
+
+  try {
+    return await run;
+  } finally {
+    if (attemptLocks.get(attemptId) === run) {
+      attemptLocks.delete(attemptId);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Navigation request processing
+
+function processNavigationRequest(
+  session: SequencingSession,
+  request: NavigationRequest,
+  target?: string
+): NavigationResult {
+  let delivery: ActivityDelivery | null = null;
+  let ended = false;
+  let error: string | null = null;
+
+  const current = session.currentActivity ? session.activities.get(session.currentActivity) || null : null;
+  const currentActive = current ? state(session, current).active : false;
+
+  const deliverOrFail = (result: FlowResult) => {
+    if ('activity' in result) {
+      delivery = deliver(session, result.activity);
+    } else if ('end' in result) {
+      ended = endSession(session);
+    } else {
+      error = result.error;
+    }
+  };
+
+  switch (request) {
+    case 'start':
+    case 'resumeAll': {
+      if (session.suspendedActivity && session.activities.has(session.suspendedActivity)) {
+        delivery = deliver(session, session.activities.get(session.suspendedActivity)!);
+      } else if (current && currentActive) {
+        // The browser was closed mid-session; pick up where the learner was
+        delivery = deliver(session, current, true);
+      } else if (request === 'resumeAll') {
+        error = 'There is no suspended activity to resume';
+      } else if (!current) {
+        const result = flowFrom(session, session.root, 'forward', true);
+        if (!('error' in result)) {
+          deliverOrFail(result);
+        } else {
+          // Without flow the learner starts by choosing; a lone SCO is simply launched
+          const deliverable = leavesOf(session.root).filter((leaf) => canDeliver(session, leaf));
+          if (deliverable.length === 1) {
+            delivery = deliver(session, deliverable[0]);
+          }
+        }
+      }
+      // Otherwise the last activity was exited without ending the session,
+      // so nothing is delivered and the learner chooses what's next
+      break;
+    }
+
+    case 'continue':
+    case 'previous': {
+      if (!current) {
+        error = 'No current activity';
+        break;
+      }
+      if (request === 'previous' && current.parent?.sequencing.forwardOnly) {
+        error = 'Previous is not allowed here';
+        break;
+      }
+      const postRequest = currentActive ? terminate(session, current) : null;
+      const effective = postRequest || request;
+      deliverOrFail(processSequencingRequest(session, effective));
+      break;
+    }
+
+    case 'choice': {
+      const targetNode = target ? session.activities.get(target) : undefined;
+      if (!targetNode) {
+        error = 'Unknown activity';
+        break;
+      }
+      const invalid = choiceError(session, targetNode, current, currentActive);
+      if (invalid) {
+        error = invalid;
+        break;
+      }
+      const postRequest = current && currentActive ? terminate(session, current) : null;
+      if (postRequest === 'exitAll') {
+        ended = endSession(session);
+        break;
+      }
+      if (targetNode.children.length === 0) {
+        deliverOrFail(
+          canDeliver(session, targetNode) ? { activity: targetNode } : { error: 'Activity is not available' }
+        );
+      } else {
+        deliverOrFail(flowFrom(session, targetNode, 'forward', true));
+      }
+      break;
+    }
+
+    case 'exit':
+    case 'abandon': {
+      if (!current || !currentActive) {
+        error = 'No active activity to exit';
+        break;
+      }
+      const postRequest = terminate(session, current, request === 'abandon');
+      if (postRequest) {
+        deliverOrFail(processSequencingRequest(session, postRequest));
+      } else if (leavesOf(session.root).length === 1) {
+        // Single-SCO packages end with their only SCO unless it suspended
+        if (state(session, current).suspended) {
+          suspend(session, current);
+          ended = true;
+        } else {
+          ended = endSession(session);
+        }
+      }
+      break;
+    }
+
+    case 'exitAll':
+    case 'abandonAll': {
+      if (current && currentActive) {
+        terminate(session, current, request === 'abandonAll');
+      }
+      ended = endSession(session);
+      break;
+    }
+
+    case 'suspendAll': {
+      if (!current) {
+        error = 'No current activity to suspend';
+        break;
+      }
+      suspend(session, current);
+      ended = true;
+      break;
+    }
+  }
+
+  return {
+    delivery,
+    ended,
+    error,
+    toc: buildToc(session),
+    canContinue: !ended && canFlow(session, 'continue'),
+    canPrevious: !ended && canFlow(session, 'previous'),
+  };
+}
+
+/**
+ * Sequencing requests that follow termination (post-condition results or
+ * the learner's continue/previous)
+ */
+function processSequencingRequest(session: SequencingSession, request: string): FlowResult {
+  const current = session.currentActivity ? session.activities.get(session.currentActivity) : undefined;
+  if (!current) return { error: 'No current activity' };
+
+  switch (request) {
+    case 'continue':
+      return flowFrom(session, current, 'forward', false);
+    case 'previous':
+      return flowFrom(session, current, 'backward', false);
+    // Delivery counts the new attempt on the retried activity and its subtree
+    case 'retry': {
+      resetTracking(session, current);
+      return current.children.length === 0 ? { activity: current } : flowFrom(session, current, 'forward', true);
+    }
+    case 'retryAll': {
+      resetTracking(session, session.root);
+      session.currentActivity = null;
+      return flowFrom(session, session.root, 'forward', true);
+    }
+    case 'exitAll':
+      return { end: true };
+    default:
+      return { error: `Unsupported sequencing request: ${request}` };
+  }
+}
+
+/**
+ * Flow from an activity to the next deliverable leaf. With includeStart the
+ * traversal starts at (and may enter) the given activity.
+ */
+function flowFrom(
+  session: SequencingSession,
+  from: ActivityNode,
+  direction: 'forward' | 'backward',
+  includeStart: boolean
+): FlowResult {
+  let candidate: ActivityNode | null | 'end' = includeStart ? from : traverseOut(session, from, direction);
+
+  while (candidate && candidate !== 'end') {
+    const node: ActivityNode = candidate;
+
+    if (node.parent && !node.parent.sequencing.flow) {
+      return { error: 'Flow navigation is not allowed here' };
+    }
+
+    if (firedRuleAction(session, node, node.sequencing.preConditionRules, ['skip'])) {
+      candidate = traverseOut(session, node, direction);
+      continue;
+    }
+
+    if (!canDeliver(session, node)) {
+      return { error: `${node.title || node.id} is not available` };
+    }
+
+    if (node.children.length === 0) {
+      return { activity: node };
+    }
+
+    if (!node.sequencing.flow) {
+      return { error: 'Flow navigation is not allowed here' };
+    }
+
+    candidate = direction === 'forward' || node.sequencing.forwardOnly
+      ? node.children[0]
+      : node.children[node.children.length - 1];
+  }
+
+  if (candidate === 'end') {
+    return direction === 'forward' ? { end: true } : { error: 'Already at the first activity' };
+  }
+
+  return { error: 'No activity available' };
+}
+
+/**
+ * Moves to the next or previous sibling, climbing the tree as needed.
+ * Returns 'end' when the traversal runs off the edge of the tree.
+ */
+function traverseOut(
+  session: SequencingSession,
+  node: ActivityNode,
+  direction: 'forward' | 'backward'
+): ActivityNode | null | 'end' {
+  let current = node;
+
+  while (current.parent) {
+    const parent: ActivityNode = current.parent;
+
+    if (
+      direction === 'forward' &&
+      firedRuleAction(session, current, current.sequencing.preConditionRules, ['stopForwardTraversal'])
+    ) {
+      return null;
+    }
+    if (direction === 'backward' && parent.sequencing.forwardOnly) {
+      return null;
+    }
+
+    const index = parent.children.indexOf(current);
+    const next = direction === 'forward' ? parent.children[index + 1] : parent.children[index - 1];
+    if (next) return next;
+
+    current = parent;
+  }
+
+  return 'end';
+}
+
+function canFlow(session: SequencingSession, request: 'continue' | 'previous'): boolean {
+  const current = session.currentActivity ? session.activities.get(session.currentActivity) : undefined;
+  if (!current || !current.parent?.sequencing.flow) return false;
+  if (request === 'previous' && current.parent.sequencing.forwardOnly) return false;
+
+  const result = flowFrom(session, current, request === 'continue' ? 'forward' : 'backward', false);
+  return 'activity' in result || ('end' in result && request === 'continue');
+}
+
+/**
+ * Checks a choice request; returns why it isn't allowed, or null
+ */
+function choiceError(
+  session: SequencingSession,
+  target: ActivityNode,
+  current: ActivityNode | null,
+  currentActive: boolean
+): string | null {
+  const targetPath = ancestorsOf(target, true);
+  const common = current ? commonAncestor(current, target) : null;
+
+  for (const node of targetPath) {
+    if (firedRuleAction(session, node, node.sequencing.preConditionRules, ['hiddenFromChoice'])) {
+      return 'Activity is hidden from choice';
+    }
+    if (firedRuleAction(session, node, node.sequencing.preConditionRules, ['disabled'])) {
+      return 'Activity is disabled';
+    }
+    if (node === common) break;
+    if (node.parent && !node.parent.sequencing.choice) {
+      return 'Choice navigation is not allowed here';
+    }
+  }
+
+  if (current && common) {
+    // Forward-only clusters don't allow jumping back
+    if (common.sequencing.forwardOnly && preorderIndex(session, target) < preorderIndex(session, current)) {
+      return 'Only forward navigation is allowed here';
+    }
+
+    // Active clusters may forbid leaving them by choice
+    if (currentActive) {
+      for (const node of ancestorsOf(current, true)) {
+        if (node === common) break;
+        if (!node.sequencing.choiceExit && state(session, node).active) {
+          return 'The current activity must be completed before choosing another';
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function canDeliver(session: SequencingSession, node: ActivityNode): boolean {
+  if (firedRuleAction(session, node, node.sequencing.preConditionRules, ['disabled'])) {
+    return false;
+  }
+
+  // attemptAbsoluteDurationLimit is parsed but, as SCORM 2004 allows, not enforced
+  const nodeState = state(session, node);
+  if (
+    node.sequencing.attemptLimit !== null &&
+    nodeState.attemptCount >= node.sequencing.attemptLimit &&
+    !nodeState.suspended
+  ) {
+    return false;
+  }
+
+  return node.children.length > 0 || node.href !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Delivery, termination and session end
+
+function deliver(session: SequencingSession, node: ActivityNode, resume = false): ActivityDelivery {
+  const nodeState = state(session, node);
+
+  // SCORM 1.2 SCOs keep their data for the whole attempt when revisited
+  const revisit = session.scormVersion === '1.2' && nodeState.attemptCount > 0;
+
+  if (!nodeState.suspended && !resume && !revisit) {
+    startNewAttempt(session, node);
+  }
+
+  // Every activity from the root to the delivered one is now active
+  for (const ancestor of ancestorsOf(node, true)) {
+    const ancestorState = state(session, ancestor);
+    if (!ancestorState.active && !ancestorState.suspended && ancestor !== node) {
+      ancestorState.attemptCount += 1;
+    }
+    ancestorState.active = true;
+    ancestorState.suspended = false;
+  }
+
+  session.currentActivity = node.id;
+  session.suspendedActivity = null;
+
+  // session_time belongs to the session that reported it
+  const cmiData = { ...nodeState.cmiData };
+  delete cmiData[sessionTimeElement(session)];
+
+  return {
+    activityId: node.id,
+    title: node.title,
+    href: node.href || '',
+    cmiData,
+    totalTime: formatTimespan(session.scormVersion, nodeState.timeSpent),
+    launch: node.launch,
+  };
+}
+
+/**
+ * Begins a fresh attempt on an activity, clearing its subtree's tracking data
+ */
+function startNewAttempt(session: SequencingSession, node: ActivityNode): void {
+  state(session, node).attemptCount += 1;
+  resetTracking(session, node);
+}
+
+function resetTracking(session: SequencingSession, node: ActivityNode): void {
+  Object.assign(state(session, node), {
+    completionStatus: 'unknown',
+    successStatus: 'unknown',
+    scoreScaled: null,
+    progressMeasure: null,
+    active: false,
+    suspended: false,
+    objectives: {},
+    cmiData: {},
+    timeSpent: 0,
+  });
+  node.children.forEach((child) => resetTracking(session, child));
+}
+
+/**
+ * Ends the current activity's attempt, applies exit and post-condition rules,
+ * and returns the sequencing request they produce (if any)
+ */
+function terminate(session: SequencingSession, current: ActivityNode, abandon = false): string | null {
+  const currentState = state(session, current);
+
+  if (!abandon) {
+    endAttempt(session, current);
+  }
+  currentState.active = false;
+
+  if (abandon) return null;
+
+  // Exit condition rules: the outermost ancestor whose rule fires is exited
+  let exitTarget: ActivityNode = current;
+  for (const ancestor of ancestorsOf(current, false).reverse()) {
+    if (firedRuleAction(session, ancestor, ancestor.sequencing.exitConditionRules, ['exit'])) {
+      exitTarget = ancestor;
+      break;
+    }
+  }
+  if (exitTarget !== current) {
+    for (const node of ancestorsOf(current, false)) {
+      endAttempt(session, node);
+      state(session, node).active = false;
+      if (node === exitTarget) break;
+    }
+    session.currentActivity = exitTarget.id;
+  }
+
+  // Post-condition rules, climbing on exitParent
+  let node: ActivityNode | null = exitTarget;
+  while (node) {
+    const action = firedRuleAction(session, node, node.sequencing.postConditionRules, [
+      'exitParent',
+      'exitAll',
+      'retry',
+      'retryAll',
+      'continue',
+      'previous',
+    ]);
+
+    if (action === 'exitParent' && node.parent) {
+      endAttempt(session, node.parent);
+      state(session, node.parent).active = false;
+      session.currentActivity = node.parent.id;
+      node = node.parent;
+      continue;
+    }
+
+    if (action === 'exitParent') return null;
+    return action;
+  }
+
+  return null;
+}
+
+/**
+ * End Attempt: applies the delivery-control defaults and rolls up
+ */
+function endAttempt(session: SequencingSession, node: ActivityNode): void {
+  const nodeState = state(session, node);
+
+  if (node.children.length === 0) {
+    const exit = session.scormVersion === '1.2' ? nodeState.cmiData['cmi.core.exit'] : nodeState.cmiData['cmi.exit'];
+    nodeState.suspended = exit === 'suspend';
+
+    // A suspended SCO hasn't finished its attempt, so nothing is assumed yet
+    if (node.sequencing.tracked && !nodeState.suspended) {
+      if (!node.sequencing.completionSetByContent && nodeState.completionStatus === 'unknown') {
+        nodeState.completionStatus = 'completed';
+        if (session.scormVersion === '1.2') {
+          // The SCO sees the LMS-assigned status when it is revisited
+          nodeState.cmiData = { ...nodeState.cmiData, 'cmi.core.lesson_status': 'completed' };
+        }
+      }
+      if (!node.sequencing.objectiveSetByContent && nodeState.successStatus === 'unknown') {
+        nodeState.successStatus = 'passed';
+      }
+    }
+  } else {
+    nodeState.suspended = node.children.some((child) => state(session, child).suspended);
+  }
+
+  writeObjectives(session, node);
+  rollup(session, node);
+}
+
+function suspend(session: SequencingSession, current: ActivityNode): void {
+  for (const node of ancestorsOf(current, true)) {
+    const nodeState = state(session, node);
+    nodeState.suspended = true;
+    nodeState.active = false;
+  }
+  session.suspendedActivity = current.id;
+}
+
+/**
+ * Ends the sequencing session; returns true so callers can mark it ended
+ */
+function endSession(session: SequencingSession): boolean {
+  for (const node of session.activities.values()) {
+    const nodeState = state(session, node);
+    nodeState.active = false;
+    nodeState.suspended = false;
+  }
+  session.suspendedActivity = null;
+  rollup(session, session.root);
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Tracking data, rules and rollup
+
+/**
+ * Maps a SCO's run-time data onto its activity's tracking state
+ */
+function recordActivityData(
+  session: SequencingSession,
+  activityId: string,
+  cmiData: Record<string, string>
+): void {
+  const node = session.activities.get(activityId);
+  if (!node) return;
+
+  const nodeState = state(session, node);
+  nodeState.cmiData = cmiData;
+
+  if (session.scormVersion === '1.2') {
+    nodeState.cmiData = applyMasteryScore(cmiData, node.launch.masteryScore);
+    recordScorm12Data(nodeState, nodeState.cmiData);
+    rollup(session, node);
+    return;
+  }
+
+  const completion = cmiData['cmi.completion_status'];
+  nodeState.completionStatus =
+    completion === 'completed' ? 'completed'
+    : completion === 'incomplete' || completion === 'not attempted' ? 'incomplete'
+    : 'unknown';
+
+  const success = cmiData['cmi.success_status'];
+  nodeState.successStatus = success === 'passed' || success === 'failed' ? success : 'unknown';
+
+  nodeState.scoreScaled = parseDecimal(cmiData['cmi.score.scaled']);
+  if (nodeState.scoreScaled === null) {
+    // Fall back to raw/max for SCOs that don't report a scaled score
+    const raw = parseDecimal(cmiData['cmi.score.raw']);
+    const max = parseDecimal(cmiData['cmi.score.max']);
+    if (raw !== null && max) {
+      nodeState.scoreScaled = Math.max(-1, Math.min(1, raw / max));
+    }
+  }
+  nodeState.progressMeasure = parseDecimal(cmiData['cmi.progress_measure']);
+
+  // Secondary objectives reported through cmi.objectives
+  const objectives: Record<string, ObjectiveState> = {};
+  for (const [key, id] of Object.entries(cmiData)) {
+    const match = /^cmi\.objectives\.(\d+)\.id$/.exec(key);
+    if (!match) continue;
+    const prefix = `cmi.objectives.${match[1]}`;
+    const objectiveSuccess = cmiData[`${prefix}.success_status`];
+    objectives[id] = {
+      satisfied: objectiveSuccess === 'passed' ? true : objectiveSuccess === 'failed' ? false : null,
+      measure: parseDecimal(cmiData[`${prefix}.score.scaled`]),
+    };
+  }
+  nodeState.objectives = objectives;
+
+  writeObjectives(session, node);
+  rollup(session, node);
+}
+
+/**
+ * Adds the session time a SCO reported when its session ended to the
+ * activity's total; returns the seconds added
+ */
+function recordSessionTime(
+  session: SequencingSession,
+  activityId: string,
+  cmiData: Record<string, string>
+): number {
+  const node = session.activities.get(activityId);
+  const seconds = parseTimespan(session.scormVersion, cmiData[sessionTimeElement(session)]);
+  if (!node || seconds === null) return 0;
+
+  state(session, node).timeSpent += seconds;
+  return seconds;
+}
+
+function sessionTimeElement(session: SequencingSession): string {
+  return session.scormVersion === '1.2' ? 'cmi.core.session_time' : 'cmi.session_time';
+}
+
+/**
+ * SCORM 1.2 RTE 3.4: when the item has a mastery score and the SCO reported
+ * a raw score without deciding the outcome itself, the LMS sets lesson_status
+ * to passed or failed. A SCO still in progress (incomplete) is left alone.
+ */
+function applyMasteryScore(
+  cmiData: Record<string, string>,
+  masteryScore: number | null
+): Record<string, string> {
+  const raw = parseDecimal(cmiData['cmi.core.score.raw']);
+  const lessonStatus = cmiData['cmi.core.lesson_status'];
+
+  if (masteryScore === null || raw === null) return cmiData;
+  if (lessonStatus && !['not attempted', 'completed'].includes(lessonStatus)) return cmiData;
+
+  return { ...cmiData, 'cmi.core.lesson_status': raw >= masteryScore ? 'passed' : 'failed' };
+}
+
+/**
+ * Maps SCORM 1.2 cmi.core.* values onto a SCO's tracking state
+ */
+function recordScorm12Data(nodeState: ActivityState, cmiData: Record<string, string>): void {
+  const lessonStatus = cmiData['cmi.core.lesson_status'];
+  nodeState.completionStatus =
+    lessonStatus === 'completed' || lessonStatus === 'passed' || lessonStatus === 'failed' ? 'completed'
+    : lessonStatus === 'incomplete' || lessonStatus === 'browsed' ? 'incomplete'
+    : 'unknown';
+  nodeState.successStatus = lessonStatus === 'passed' || lessonStatus === 'failed' ? lessonStatus : 'unknown';
+
+  const raw = parseDecimal(cmiData['cmi.core.score.raw']);
+  const max = parseDecimal(cmiData['cmi.core.score.max']) || 100;
+  nodeState.scoreScaled = raw !== null ? Math.max(0, Math.min(1, raw / max)) : null;
+  nodeState.progressMeasure = null;
+  nodeState.objectives = {};
+}
+
+/**
+ * Status of an activity's primary objective (or a named objective), reading
+ * through to shared global objectives where mapped
+ */
+function objectiveStatus(
+  session: SequencingSession,
+  node: ActivityNode,
+  objectiveId?: string
+): ObjectiveState {
+  const nodeState = state(session, node);
+  const definition = objectiveId
+    ? [node.sequencing.primaryObjective, ...node.sequencing.objectives].find((o) => o.id === objectiveId)
+    : undefined;
+  const objective = definition || node.sequencing.primaryObjective;
+
+  const local: ObjectiveState = objective.primary
+    ? {
+        satisfied:
+          nodeState.successStatus === 'passed' ? true
+          : nodeState.successStatus === 'failed' ? false
+          : null,
+        measure: nodeState.scoreScaled,
+      }
+    : { ...(nodeState.objectives[objective.id] || { satisfied: null, measure: null }) };
+
+  for (const map of objective.mapInfo) {
+    const global = session.globalObjectives[map.targetObjectiveId];
+    if (!global) continue;
+    if (map.readSatisfiedStatus && global.satisfied !== null && local.satisfied === null) {
+      local.satisfied = global.satisfied;
+    }
+    if (map.readNormalizedMeasure && global.measure !== null && local.measure === null) {
+      local.measure = global.measure;
+    }
+  }
+
+  if (objective.satisfiedByMeasure && local.measure !== null) {
+    local.satisfied = local.measure >= objective.minNormalizedMeasure;
+  }
+
+  return local;
+}
+
+function writeObjectives(session: SequencingSession, node: ActivityNode): void {
+  for (const objective of [node.sequencing.primaryObjective, ...node.sequencing.objectives]) {
+    if (objective.mapInfo.length === 0) continue;
+    const status = objectiveStatus(session, node, objective.id || undefined);
+
+    for (const map of objective.mapInfo) {
+      const global = session.globalObjectives[map.targetObjectiveId] || { satisfied: null, measure: null };
+      if (map.writeSatisfiedStatus && status.satisfied !== null) {
+        global.satisfied = status.satisfied;
+      }
+      if (map.writeNormalizedMeasure && status.measure !== null) {
+        global.measure = status.measure;
+      }
+      session.globalObjectives[map.targetObjectiveId] = global;
+    }
+  }
+}
+
+function firedRuleAction(
+  session: SequencingSession,
+  node: ActivityNode,
+  rules: SequencingRule[],
+  actions: string[]
+): string | null {
+  for (const rule of rules) {
+    if (!actions.includes(rule.action)) continue;
+    if (evaluateConditions(session, node, rule.conditions, rule.conditionCombination) === true) {
+      return rule.action;
+    }
+  }
+  return null;
+}
+
+/**
+ * Three-valued rule evaluation: true, false or null (unknown)
+ */
+function evaluateConditions(
+  session: SequencingSession,
+  node: ActivityNode,
+  conditions: RuleCondition[],
+  combination: 'all' | 'any'
+): boolean | null {
+  if (conditions.length === 0) return null;
+
+  const results = conditions.map((c) => {
+    const value = evaluateCondition(session, node, c);
+    if (c.operator === 'not' && value !== null) return !value;
+    return value;
+  });
+
+  if (combination === 'all') {
+    if (results.some((r) => r === false)) return false;
+    if (results.some((r) => r === null)) return null;
+    return true;
+  }
+
+  if (results.some((r) => r === true)) return true;
+  if (results.some((r) => r === null)) return null;
+  return false;
+}
+
+function evaluateCondition(
+  session: SequencingSession,
+  node: ActivityNode,
+  condition: RuleCondition
+): boolean | null {
+  const nodeState = state(session, node);
+  const objective = objectiveStatus(session, node, condition.referencedObjective);
+  const threshold = condition.measureThreshold ?? 0;
+
+  switch (condition.condition) {
+    case 'satisfied':
+      return objective.satisfied;
+    case 'objectiveStatusKnown':
+      return objective.satisfied !== null;
+    case 'objectiveMeasureKnown':
+      return objective.measure !== null;
+    case 'objectiveMeasureGreaterThan':
+      return objective.measure !== null ? objective.measure > threshold : null;
+    case 'objectiveMeasureLessThan':
+      return objective.measure !== null ? objective.measure < threshold : null;
+    case 'completed':
+      return nodeState.completionStatus === 'unknown' ? null : nodeState.completionStatus === 'completed';
+    case 'activityProgressKnown':
+      return nodeState.completionStatus !== 'unknown';
+    case 'attempted':
+      return nodeState.attemptCount > 0;
+    case 'attemptLimitExceeded':
+      return node.sequencing.attemptLimit !== null && nodeState.attemptCount >= node.sequencing.attemptLimit;
+    case 'always':
+      return true;
+    default:
+      // timeLimitExceeded and outsideAvailableTimeRange: no time limits are tracked
+      return false;
+  }
+}
+
+/**
+ * Rolls tracking status up from an activity's parent to the root
+ */
+function rollup(session: SequencingSession, node: ActivityNode): void {
+  for (let ancestor: ActivityNode | null = node.children.length > 0 ? node : node.parent; ancestor; ancestor = ancestor.parent) {
+    rollupActivity(session, ancestor);
+    writeObjectives(session, ancestor);
+  }
+}
+
+function rollupActivity(session: SequencingSession, node: ActivityNode): void {
+  if (session.scormVersion === '1.2' && node === session.root) {
+    rollupScos(session);
+    return;
+  }
+
+  const nodeState = state(session, node);
+  const tracked = node.children.filter((c) => c.sequencing.tracked);
+
+  // Measure: weighted average of the children's primary objective measures
+  let totalWeight = 0;
+  let weighted = 0;
+  let measured = false;
+  for (const child of tracked) {
+    const weight = child.sequencing.objectiveMeasureWeight;
+    if (weight <= 0) continue;
+    totalWeight += weight;
+    const measure = objectiveStatus(session, child).measure;
+    if (measure !== null) {
+      weighted += measure * weight;
+      measured = true;
+    }
+  }
+  nodeState.scoreScaled = measured && totalWeight > 0 ? weighted / totalWeight : null;
+
+  // Objective rollup
+  const primary = node.sequencing.primaryObjective;
+  nodeState.successStatus = 'unknown';
+  if (primary.satisfiedByMeasure && nodeState.scoreScaled !== null) {
+    nodeState.successStatus = nodeState.scoreScaled >= primary.minNormalizedMeasure ? 'passed' : 'failed';
+  } else {
+    const contributing = tracked.filter((c) => c.sequencing.rollupObjectiveSatisfied);
+    if (rollupRulesFire(session, node, contributing, 'notSatisfied', 'objectiveStatusKnown')) {
+      nodeState.successStatus = 'failed';
+    }
+    if (rollupRulesFire(session, node, contributing, 'satisfied', 'satisfied')) {
+      nodeState.successStatus = 'passed';
+    }
+  }
+
+  // Progress rollup
+  const contributing = tracked.filter((c) => c.sequencing.rollupProgressCompletion);
+  nodeState.completionStatus = 'unknown';
+  if (rollupRulesFire(session, node, contributing, 'incomplete', 'activityProgressKnown')) {
+    nodeState.completionStatus = 'incomplete';
+  }
+  if (rollupRulesFire(session, node, contributing, 'completed', 'completed')) {
+    nodeState.completionStatus = 'completed';
+  }
+
+  // Progress measure: share of completed children
+  nodeState.progressMeasure = contributing.length > 0
+    ? contributing.filter((c) => state(session, c).completionStatus === 'completed').length / contributing.length
+    : null;
+}
+
+/**
+ * SCORM 1.2 attempt result from the course's configured roll-up:
+ * - average: mean score of the SCOs that reported one
+ * - all_complete: share of SCOs completed, passed once all are
+ * - weighted: weighted mean score, unscored SCOs counting as zero
+ */
+function rollupScos(session: SequencingSession): void {
+  const rootState = state(session, session.root);
+  const scos = leavesOf(session.root).filter((leaf) => leaf.href !== null);
+  const states = scos.map((sco) => state(session, sco));
+  const { method, weights } = session.scoRollup;
+
+  if (states.length === 0) return;
+
+  const completed = states.filter((s) => s.completionStatus === 'completed').length;
+  const allCompleted = completed === states.length;
+  const started = states.some((s) => s.attemptCount > 0 || s.completionStatus !== 'unknown');
+
+  rootState.completionStatus = allCompleted ? 'completed' : started ? 'incomplete' : 'unknown';
+  rootState.progressMeasure = completed / states.length;
+
+  if (method === 'all_complete') {
+    rootState.scoreScaled = completed / states.length;
+    rootState.successStatus = allCompleted ? 'passed' : 'unknown';
+    return;
+  }
+
+  if (method === 'weighted') {
+    let totalWeight = 0;
+    let weighted = 0;
+    scos.forEach((sco, i) => {
+      const weight = weights[sco.id] ?? 1;
+      if (weight <= 0) return;
+      totalWeight += weight;
+      weighted += (states[i].scoreScaled ?? 0) * weight;
+    });
+    rootState.scoreScaled = totalWeight > 0 && states.some((s) => s.scoreScaled !== null)
+      ? weighted / totalWeight
+      : null;
+  } else {
+    const scores = states.map((s) => s.scoreScaled).filter((s): s is number => s !== null);
+    rootState.scoreScaled = scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : null;
+  }
+
+  rootState.successStatus =
+    states.some((s) => s.successStatus === 'failed') ? 'failed'
+    : allCompleted && states.some((s) => s.successStatus === 'passed') ? 'passed'
+    : 'unknown';
+}
+
+/**
+ * Evaluates the activity's rollup rules for one action, falling back to the
+ * default rule ("all children <defaultCondition>") when none is defined
+ */
+function rollupRulesFire(
+  session: SequencingSession,
+  node: ActivityNode,
+  children: ActivityNode[],
+  action: RollupRule['action'],
+  defaultCondition: string
+): boolean {
+  if (children.length === 0) return false;
+
+  const rules = node.sequencing.rollupRules.filter((r) => r.action === action);
+  const effective: RollupRule[] = rules.length > 0
+    ? rules
+    : [{
+        childActivitySet: 'all',
+        minimumCount: 0,
+        minimumPercent: 0,
+        conditionCombination: 'any',
+        conditions: [{ condition: defaultCondition, operator: 'noOp' }],
+        action,
+      }];
+
+  return effective.some((rule) => {
+    const results = children.map((child) =>
+      evaluateConditions(session, child, rule.conditions, rule.conditionCombination)
+    );
+    const matched = results.filter((r) => r === true).length;
+
+    switch (rule.childActivitySet) {
+      case 'all':
+        return matched === results.length;
+      case 'any':
+        return matched > 0;
+      case 'none':
+        return results.every((r) => r === false);
+      case 'atLeastCount':
+        return matched >= rule.minimumCount;
+      case 'atLeastPercent':
+        return (matched / results.length) * 100 >= rule.minimumPercent;
+      default:
+        return false;
+    }
+  });
+}
+
+function rolledUpStatus(session: SequencingSession): RolledUpStatus {
+  const rootState = state(session, session.root);
+
+  return {
+    score: rootState.scoreScaled,
+    completionStatus: rootState.completionStatus === 'completed' ? 'completed' : 'incomplete',
+    successStatus: rootState.successStatus === 'unknown' ? null : rootState.successStatus,
+    progressMeasure: rootState.progressMeasure,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tree helpers
+
+function state(session: SequencingSession, node: ActivityNode): ActivityState {
+  let nodeState = session.states.get(node.id);
+  if (!nodeState) {
+    nodeState = {
+      attemptCount: 0,
+      completionStatus: 'unknown',
+      successStatus: 'unknown',
+      scoreScaled: null,
+      progressMeasure: null,
+      active: false,
+      suspended: false,
+      objectives: {},
+      cmiData: {},
+      timeSpent: 0,
+    };
+    session.states.set(node.id, nodeState);
+  }
+  return nodeState;
+}
+
+/**
+ * The activity's ancestors, nearest first (optionally including itself)
+ */
+function ancestorsOf(node: ActivityNode, includeSelf: boolean): ActivityNode[] {
+  const result: ActivityNode[] = [];
+  for (let n: ActivityNode | null = includeSelf ? node : node.parent; n; n = n.parent) {
+    result.push(n);
+  }
+  return result;
+}
+
+function commonAncestor(a: ActivityNode, b: ActivityNode): ActivityNode | null {
+  const ancestorsOfA = new Set(ancestorsOf(a, true));
+  return ancestorsOf(b, true).find((n) => ancestorsOfA.has(n)) || null;
+}
+
+function preorderIndex(session: SequencingSession, node: ActivityNode): number {
+  return Array.from(session.activities.values()).indexOf(node);
+}
+
+function leavesOf(node: ActivityNode): ActivityNode[] {
+  return node.children.length === 0 ? [node] : node.children.flatMap(leavesOf);
+}
+
+function buildToc(session: SequencingSession): TocEntry[] {
+  const entries: TocEntry[] = [];
+  const current = session.currentActivity ? session.activities.get(session.currentActivity) || null : null;
+  const currentActive = current ? state(session, current).active : false;
+
+  const visit = (node: ActivityNode, depth: number) => {
+    if (
+      !node.visible ||
+      firedRuleAction(session, node, node.sequencing.preConditionRules, ['hiddenFromChoice'])
+    ) {
+      return;
+    }
+    const nodeState = state(session, node);
+    entries.push({
+      id: node.id,
+      title: node.title,
+      depth,
+      isLeaf: node.children.length === 0,
+      completionStatus: nodeState.completionStatus,
+      successStatus: nodeState.successStatus,
+      current: node.id === session.currentActivity,
+      choosable: choiceError(session, node, current, currentActive) === null &&
+        (node.children.length > 0 ? node.sequencing.flow : canDeliver(session, node)),
+    });
+    node.children.forEach((child) => visit(child, depth + 1));
+  };
+
+  // The root is the organization itself; list its children unless it's the only activity
+  if (session.root.children.length === 0) {
+    visit(session.root, 0);
+  } else {
+    session.root.children.forEach((child) => visit(child, 0));
+  }
+
+  return entries;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+
+async function loadSession(attemptId: string): Promise<SequencingSession | null> {
+  const attemptResult = await query<{
+    manifest_data: ManifestData | null;
+    launch_path: string;
+    title: string;
+    scorm_version: string;
+    scorm_edition: ScormEdition | null;
+    sco_rollup_method: ScoRollupMethod | null;
+    sco_rollup_weights: Record<string, number> | null;
+    current_activity: string | null;
+    suspended_activity: string | null;
+    global_objectives: Record<string, ObjectiveState> | null;
+  }>(
+    `SELECT c.manifest_data, c.launch_path, c.title, c.scorm_version, c.scorm_edition,
+            c.sco_rollup_method, c.sco_rollup_weights,
+            a.current_activity, a.suspended_activity, a.global_objectives
+     FROM attempts a
+     JOIN launches l ON a.launch_id = l.id
+     JOIN courses c ON l.course_id = c.id
+     WHERE a.id = $1`,
+    [attemptId]
+  );
+
+  if (attemptResult.rows.length === 0) return null;
+
+  const row = attemptResult.rows[0];
+  const scormVersion = runtimeVersion(row.scorm_version);
+  const manifest: ManifestData = row.manifest_data || {
+    title: row.title,
+    scormVersion,
+    edition: row.scorm_edition,
+    launchPath: row.launch_path,
+    identifier: 'unknown',
+    organizations: [],
+    resources: [],
+  };
+
+  const root = buildActivityTree(manifest);
+  const activities = new Map<string, ActivityNode>();
+  const index = (node: ActivityNode) => {
+    activities.set(node.id, node);
+    node.children.forEach(index);
+  };
+  index(root);
+
+  const stateResult = await query<{
+    activity_id: string;
+    attempt_count: number;
+    completion_status: ActivityState['completionStatus'];
+    success_status: ActivityState['successStatus'];
+    score_scaled: string | null;
+    progress_measure: string | null;
+    active: boolean;
+    suspended: boolean;
+    objectives: Record<string, ObjectiveState>;
+    cmi_data: Record<string, string>;
+    time_spent: number;
+  }>(
+    `SELECT activity_id, attempt_count, completion_status, success_status, score_scaled,
+            progress_measure, active, suspended, objectives, cmi_data,
+            EXTRACT(EPOCH FROM time_spent)::float8 AS time_spent
+     FROM attempt_activities WHERE attempt_id = $1`,
+    [attemptId]
+  );
+
+  const states = new Map<string, ActivityState>();
+  for (const s of stateResult.rows) {
+    states.set(s.activity_id, {
+      attemptCount: s.attempt_count,
+      completionStatus: s.completion_status,
+      successStatus: s.success_status,
+      scoreScaled: s.score_scaled !== null ? parseFloat(s.score_scaled) : null,
+      progressMeasure: s.progress_measure !== null ? parseFloat(s.progress_measure) : null,
+      active: s.active,
+      suspended: s.suspended,
+      objectives: s.objectives || {},
+      cmiData: s.cmi_data || {},
+      timeSpent: s.time_spent || 0,
+    });
+  }
+
+  return {
+    attemptId,
+    scormVersion,
+    scoRollup: {
+      method: row.sco_rollup_method || 'average',
+      weights: row.sco_rollup_weights || {},
+    },
+    root,
+    activities,
+    states,
+    currentActivity: row.current_activity,
+    suspendedActivity: row.suspended_activity,
+    globalObjectives: row.global_objectives || {},
+  };
+}
+
+async function saveSession(session: SequencingSession, ended: boolean): Promise<void> {
+  const rows = Array.from(session.states.entries()).map(([activityId, s]) => ({
+    activity_id: activityId,
+    attempt_count: s.attemptCount,
+    completion_status: s.completionStatus,
+    success_status: s.successStatus,
+    score_scaled: s.scoreScaled,
+    progress_measure: s.progressMeasure,
+    active: s.active,
+    suspended: s.suspended,
+    objectives: s.objectives,
+    cmi_data: s.cmiData,
+    time_spent: s.timeSpent,
+  }));
+
+  if (rows.length > 0) {
+    await query(
+      `INSERT INTO attempt_activities (attempt_id, activity_id, attempt_count, completion_status,
+         success_status, score_scaled, progress_measure, active, suspended, objectives, cmi_data,
+         time_spent)
+       SELECT $1, r.activity_id, r.attempt_count, r.completion_status, r.success_status,
+              r.score_scaled, r.progress_measure, r.active, r.suspended, r.objectives, r.cmi_data,
+              make_interval(secs => r.time_spent)
+       FROM jsonb_to_recordset($2::jsonb) AS r(
+         activity_id text, attempt_count int, completion_status text, success_status text,
+         score_scaled numeric, progress_measure numeric, active boolean, suspended boolean,
+         objectives jsonb, cmi_data jsonb, time_spent float8)
+       ON CONFLICT (attempt_id, activity_id) DO UPDATE SET
+         attempt_count = EXCLUDED.attempt_count,
+         completion_status = EXCLUDED.completion_status,
+         success_status = EXCLUDED.success_status,
+         score_scaled = EXCLUDED.score_scaled,
+         progress_measure = EXCLUDED.progress_measure,
+         active = EXCLUDED.active,
+         suspended = EXCLUDED.suspended,
+         objectives = EXCLUDED.objectives,
+         cmi_data = EXCLUDED.cmi_data,
+         time_spent = EXCLUDED.time_spent,
+         updated_at = CURRENT_TIMESTAMP`,
+      [session.attemptId, JSON.stringify(rows)]
+    );
+  }
+
+  await query(
+    `UPDATE attempts SET
+       current_activity = $2,
+       suspended_activity = $3,
+       global_objectives = $4,
+       finished_at = CASE WHEN $5::boolean AND $3::text IS NULL THEN CURRENT_TIMESTAMP ELSE finished_at END,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [
+      session.attemptId,
+      session.currentActivity,
+      session.suspendedActivity,
+      JSON.stringify(session.globalObjectives),
+      ended,
+    ]
+  );
+}
+
+function parseDecimal(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
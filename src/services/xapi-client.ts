@@ -1,7 +1,7 @@
 import { query } from '../db/index.js';
 import { config } from '../config.js';
 
-interface XapiStatementData {
+export interface XapiStatementData {
   verb: 'launched' | 'completed' | 'progressed' | 'passed' | 'failed' | 'scored';
   score?: number | null;
   success?: boolean;
@@ -0,0 +1,287 @@
+import fs from 'fs';
+import path from 'path';
+import vm from 'vm';
+import { describe, expect, it } from 'vitest';
+import {
+  formatTimespan,
+  parseTimespan,
+  runtimeVersion,
+  ScormVersion,
+  validateCmiData,
+} from '../src/services/cmi-schema.js';
+
+/**
+ * Error code validateCmiData gives a single element, or null when it's
+ * stored. Records in collections that need their id first get one.
+ */
+function codeFor(version: ScormVersion, element: string, value: string): string | null {
+  const input: Record<string, string> = { [element]: value };
+  if (version === '2004') {
+    for (const record of ['cmi.objectives.0', 'cmi.interactions.0', 'cmi.interactions.0.objectives.0']) {
+      if (element.startsWith(`${record}.`) && element !== `${record}.id`) input[`${record}.id`] = 'record-id';
+    }
+  }
+
+  const { data, errors } = validateCmiData(version, input);
+  const error = errors.find((e) => e.element === element);
+  if (error) return error.code;
+  expect(data[element]).toBe(value);
+  return null;
+}
+
+describe('validateCmiData', () => {
+  describe('SCORM 1.2', () => {
+    it.each([
+      ['cmi.core.lesson_status', 'passed', null],
+      ['cmi.core.lesson_status', 'browsed', null],
+      ['cmi.core.lesson_status', 'not attempted', '405'],
+      ['cmi.core.lesson_status', 'Passed', '405'],
+      ['cmi.core.exit', 'time-out', null],
+      ['cmi.core.exit', 'timeout', '405'],
+      ['cmi.core.exit', 'normal', '405'],
+      ['cmi.core.exit', '', null],
+      ['cmi.core.score.raw', '85.5', null],
+      ['cmi.core.score.raw', '', null],
+      ['cmi.core.score.raw', '101', '405'],
+      ['cmi.core.score.raw', 'high', '405'],
+      ['cmi.core.session_time', '0001:30:05.25', null],
+      ['cmi.core.session_time', '01:30:05', null],
+      ['cmi.core.session_time', 'PT1H30M', '405'],
+      ['cmi.core.lesson_location', 'x'.repeat(255), null],
+      ['cmi.core.lesson_location', 'x'.repeat(256), '405'],
+      ['cmi.suspend_data', 'x'.repeat(4096), null],
+      ['cmi.suspend_data', 'x'.repeat(4097), '405'],
+      ['cmi.student_preference.audio', '-1', null],
+      ['cmi.student_preference.audio', '101', '405'],
+      ['cmi.student_preference.text', '0.5', '405'],
+      ['cmi.objectives.0.id', 'obj-1', null],
+      ['cmi.objectives.0.id', 'obj 1', '405'],
+      ['cmi.objectives.0.status', 'not attempted', null],
+      ['cmi.interactions.0.type', 'numeric', null],
+      ['cmi.interactions.0.type', 'long-fill-in', '405'],
+      ['cmi.interactions.0.result', 'wrong', null],
+      ['cmi.interactions.0.result', 'incorrect', '405'],
+      ['cmi.interactions.0.result', '0.75', null],
+      ['cmi.interactions.0.time', '13:45:00', null],
+      ['cmi.interactions.0.time', '2024-01-01T13:45:00', '405'],
+      ['cmi.core.student_id', 'someone', '403'],
+      ['cmi.core._children', 'x', '402'],
+      ['cmi.core.unknown', 'x', '401'],
+      ['cmi.completion_status', 'completed', '401'],
+    ])('%s = %j gives %s', (element, value, code) => {
+      expect(codeFor('1.2', element, value)).toBe(code);
+    });
+  });
+
+  describe('SCORM 2004', () => {
+    it.each([
+      ['cmi.completion_status', 'completed', null],
+      ['cmi.completion_status', 'not attempted', null],
+      ['cmi.completion_status', 'passed', '406'],
+      ['cmi.success_status', 'unknown', null],
+      ['cmi.success_status', 'completed', '406'],
+      ['cmi.exit', 'timeout', null],
+      ['cmi.exit', 'time-out', '406'],
+      ['cmi.exit', 'normal', null],
+      ['cmi.score.scaled', '-1', null],
+      ['cmi.score.scaled', '1.01', '407'],
+      ['cmi.score.scaled', 'half', '406'],
+      ['cmi.score.raw', '-250', null],
+      ['cmi.progress_measure', '0.5', null],
+      ['cmi.progress_measure', '2', '407'],
+      ['cmi.session_time', 'PT1H30M5.25S', null],
+      ['cmi.session_time', 'P1DT2H', null],
+      ['cmi.session_time', 'P', '406'],
+      ['cmi.session_time', 'PT', '406'],
+      ['cmi.session_time', '0001:30:05', '406'],
+      ['cmi.location', 'x'.repeat(1000), null],
+      ['cmi.location', 'x'.repeat(1001), '407'],
+      ['cmi.suspend_data', 'x'.repeat(64000), null],
+      ['cmi.suspend_data', 'x'.repeat(64001), '407'],
+      ['cmi.learner_preference.audio_captioning', '-1', null],
+      ['cmi.learner_preference.audio_captioning', '2', '406'],
+      ['cmi.learner_preference.language', 'x'.repeat(251), '407'],
+      ['cmi.comments_from_learner.0.timestamp', '2024-01-01T13:45:00.5Z', null],
+      ['cmi.comments_from_learner.0.timestamp', '2024-01-01 13:45', '406'],
+      ['cmi.comments_from_learner.0.comment', 'x'.repeat(4001), '407'],
+      ['cmi.objectives.0.id', 'urn:objective:1', null],
+      ['cmi.objectives.0.id', '', '406'],
+      ['cmi.objectives.0.id', 'x'.repeat(4001), '407'],
+      ['cmi.objectives.0.success_status', 'passed', null],
+      ['cmi.interactions.0.type', 'long-fill-in', null],
+      ['cmi.interactions.0.type', 'essay', '406'],
+      ['cmi.interactions.0.result', 'incorrect', null],
+      ['cmi.interactions.0.result', 'wrong', '406'],
+      ['cmi.interactions.0.latency', 'PT5S', null],
+      ['cmi.interactions.0.objectives.0.id', 'obj-1', null],
+      ['adl.nav.request', 'continue', null],
+      ['adl.nav.request', '{target=sco-2}choice', null],
+      ['adl.nav.request', 'start', '406'],
+      ['cmi.learner_id', 'someone', '404'],
+      ['cmi.objectives._count', '3', '404'],
+      ['cmi.core.lesson_status', 'passed', '401'],
+    ])('%s = %j gives %s', (element, value, code) => {
+      expect(codeFor('2004', element, value)).toBe(code);
+    });
+  });
+
+  it('accepts numbers and booleans as their string form', () => {
+    expect(validateCmiData('2004', { 'cmi.score.raw': 42 })).toEqual({ data: { 'cmi.score.raw': '42' }, errors: [] });
+  });
+
+  it('rejects values that are not scalars', () => {
+    const { data, errors } = validateCmiData('2004', { 'cmi.location': { page: 1 } });
+    expect(data).toEqual({});
+    expect(errors).toEqual([expect.objectContaining({ element: 'cmi.location', code: '406' })]);
+  });
+
+  it.each([null, 'cmi.location=1', ['cmi.location']])('rejects %j as run-time data', (input) => {
+    expect(validateCmiData('1.2', input)).toEqual({
+      data: {},
+      errors: [expect.objectContaining({ element: '', code: '201' })],
+    });
+  });
+
+  it('rejects records that follow a missing record', () => {
+    const { data, errors } = validateCmiData('1.2', {
+      'cmi.objectives.0.id': 'first',
+      'cmi.objectives.2.id': 'third',
+      'cmi.objectives.2.status': 'passed',
+    });
+
+    expect(data).toEqual({ 'cmi.objectives.0.id': 'first' });
+    expect(errors.map((e) => [e.element, e.code])).toEqual([
+      ['cmi.objectives.2.id', '201'],
+      ['cmi.objectives.2.status', '201'],
+    ]);
+  });
+
+  it('requires 2004 objective and interaction records to set their id', () => {
+    const { data, errors } = validateCmiData('2004', {
+      'cmi.interactions.0.type': 'choice',
+      'cmi.objectives.0.id': 'obj-1',
+      'cmi.objectives.0.success_status': 'passed',
+    });
+
+    expect(data).toEqual({ 'cmi.objectives.0.id': 'obj-1', 'cmi.objectives.0.success_status': 'passed' });
+    expect(errors).toEqual([expect.objectContaining({ element: 'cmi.interactions.0.type', code: '408' })]);
+  });
+
+  it('enforces the 2004 collection sizes', () => {
+    const input: Record<string, string> = {};
+    for (let i = 0; i <= 10; i++) input[`cmi.interactions.0.objectives.${i}.id`] = `obj-${i}`;
+
+    const { data, errors } = validateCmiData('2004', { 'cmi.interactions.0.id': 'q1', ...input });
+
+    expect(Object.keys(data)).toHaveLength(11);
+    expect(errors).toEqual([expect.objectContaining({ element: 'cmi.interactions.0.objectives.10.id', code: '351' })]);
+  });
+});
+
+describe('parseTimespan', () => {
+  it.each([
+    ['1.2', '0000:00:00', 0],
+    ['1.2', '01:30:05.25', 5405.25],
+    ['1.2', '9999:59:59.99', 35999999.99],
+    ['1.2', '1:30:05', null],
+    ['1.2', 'PT1H', null],
+    ['2004', 'PT0S', 0],
+    ['2004', 'PT1H30M5.25S', 5405.25],
+    ['2004', 'P1DT1S', 86401],
+    ['2004', 'P1Y2M3D', (365 + 60 + 3) * 86400],
+    ['2004', 'PT90M', 5400],
+    ['2004', 'PT', null],
+    ['2004', 'P', null],
+    ['2004', '01:30:05', null],
+    ['2004', '', null],
+  ] as [ScormVersion, string, number | null][])('%s %j is %s seconds', (version, value, seconds) => {
+    const parsed = parseTimespan(version, value);
+    if (seconds === null) {
+      expect(parsed).toBeNull();
+    } else {
+      expect(parsed).toBeCloseTo(seconds, 5);
+    }
+  });
+
+  it('treats a missing value as no time', () => {
+    expect(parseTimespan('2004', undefined)).toBeNull();
+  });
+});
+
+describe('formatTimespan', () => {
+  it.each([
+    ['1.2', 0, '0000:00:00'],
+    ['1.2', 5405.25, '0001:30:05.25'],
+    ['1.2', 59.999, '0000:01:00'],
+    ['1.2', 1e9, '9999:46:40'],
+    ['1.2', -5, '0000:00:00'],
+    ['2004', 0, 'PT0H0M0S'],
+    ['2004', 5405.25, 'PT1H30M5.25S'],
+    ['2004', 90061, 'PT25H1M1S'],
+  ] as [ScormVersion, number, string][])('%s %s seconds is %j', (version, seconds, formatted) => {
+    expect(formatTimespan(version, seconds)).toBe(formatted);
+  });
+
+  it.each(['1.2', '2004'] as ScormVersion[])('round-trips %s values through parseTimespan', (version) => {
+    for (const seconds of [0, 0.5, 61.25, 3600, 86399.99]) {
+      expect(parseTimespan(version, formatTimespan(version, seconds))).toBeCloseTo(seconds, 5);
+    }
+  });
+});
+
+describe('runtimeVersion', () => {
+  it.each([
+    ['2004', '2004'],
+    ['2004 4th Edition', '2004'],
+    ['1.2', '1.2'],
+    ['', '1.2'],
+    [null, '1.2'],
+  ])('runs stored version %j as %s', (stored, version) => {
+    expect(runtimeVersion(stored)).toBe(version);
+  });
+});
+
+describe("player's SCORM 2004 element table", () => {
+  interface PlayerElement {
+    name: string;
+    access: string;
+    validate?: (value: string) => string | null;
+  }
+
+  // The player validates SetValue calls with its own copy of the 2004 rules
+  function loadPlayerElements(): PlayerElement[] {
+    const html = fs.readFileSync(path.join(__dirname, '../src/public/player.html'), 'utf-8');
+    const start = html.indexOf('// Data types: each returns an error code');
+    const end = html.indexOf('const SCORM_2004_CHILDREN');
+    expect(start).toBeGreaterThan(-1);
+    expect(end).toBeGreaterThan(start);
+
+    return vm.runInNewContext(`${html.slice(start, end)}; SCORM_2004_ELEMENTS`) as PlayerElement[];
+  }
+
+  const playerElements = loadPlayerElements();
+
+  const probes = [
+    '', 'x', 'a b', '-2', '-1', '0', '0.5', '1', '2', '101', 'completed', 'incomplete', 'not attempted',
+    'passed', 'failed', 'unknown', 'timeout', 'time-out', 'suspend', 'logout', 'normal', 'correct',
+    'incorrect', 'wrong', 'neutral', 'choice', 'long-fill-in', 'other', 'PT1H30M5.25S', 'P', 'PT',
+    '2024-01-01T13:45:00Z', '01:30:05', 'continue', 'exitAll', '{target=sco-2}choice', 'x'.repeat(251),
+    'x'.repeat(1001), 'x'.repeat(4001), 'x'.repeat(64001),
+  ];
+
+  it.each(playerElements.map((e) => [e.name, e]))('%s matches the server rules', (name, element) => {
+    const concrete = name.replace(/\.n\./, '.0.').replace(/\.m\./, '.0.');
+
+    if (element.access === 'ro') {
+      expect(codeFor('2004', concrete, 'x')).toBe('404');
+      return;
+    }
+
+    for (const value of probes) {
+      expect([value.slice(0, 20), element.validate ? element.validate(value) : null]).toEqual([
+        value.slice(0, 20),
+        codeFor('2004', concrete, value),
+      ]);
+    }
+  });
+});
@@ -0,0 +1,222 @@
+import AdmZip from 'adm-zip';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  extractScormPackage,
+  ExtractionLimits,
+  ExtractionReport,
+  PackageRejectionReason,
+} from '../src/services/content-manager.js';
+
+const MANIFEST = '<?xml version="1.0"?><manifest identifier="course"/>';
+
+const LIMITS: ExtractionLimits = {
+  maxTotalBytes: 8 * 1024 * 1024,
+  maxFiles: 20,
+  maxCompressionRatio: 100,
+};
+
+let workDir: string;
+let targetDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-manager-'));
+  targetDir = path.join(workDir, 'course');
+});
+
+afterEach(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * Zip with a manifest and the given entries. AdmZip cleans up names passed
+ * to addFile, so hostile names are set on the entry afterwards.
+ */
+function packageZip(files: Record<string, string | Buffer>, edit?: (zip: AdmZip) => void): AdmZip {
+  const zip = new AdmZip();
+  zip.addFile('imsmanifest.xml', Buffer.from(MANIFEST));
+  for (const [name, content] of Object.entries(files)) {
+    zip.addFile(name, Buffer.isBuffer(content) ? content : Buffer.from(content));
+  }
+  edit?.(zip);
+  return zip;
+}
+
+function rename(zip: AdmZip, from: string, to: string): void {
+  zip.getEntry(from)!.entryName = to;
+}
+
+async function extract(zip: AdmZip, limits: ExtractionLimits = LIMITS): Promise<ExtractionReport> {
+  const zipPath = path.join(workDir, 'package.zip');
+  await fs.writeFile(zipPath, zip.toBuffer());
+  return extractScormPackage(zipPath, targetDir, limits);
+}
+
+/**
+ * Rewrites a written zip through AdmZip so header fields edited on the
+ * loaded entries (declared sizes, flags) end up in the file
+ */
+function reload(zip: AdmZip, edit: (zip: AdmZip) => void): AdmZip {
+  const loaded = new AdmZip(zip.toBuffer());
+  edit(loaded);
+  return new AdmZip(loaded.toBuffer());
+}
+
+async function expectRejected(report: ExtractionReport, reason: PackageRejectionReason, entry?: string) {
+  expect(report.accepted).toBe(false);
+  expect(report.rejections).toContainEqual(expect.objectContaining(entry ? { reason, entry } : { reason }));
+  await expect(fs.readdir(targetDir)).rejects.toMatchObject({ code: 'ENOENT' });
+}
+
+describe('extractScormPackage', () => {
+  it('extracts a package', async () => {
+    const report = await extract(packageZip({ 'index.html': '<html></html>', 'media/clip.txt': 'clip' }));
+
+    expect(report).toEqual({ accepted: true, fileCount: 3, totalBytes: MANIFEST.length + 13 + 4, rejections: [] });
+    expect(await fs.readFile(path.join(targetDir, 'media/clip.txt'), 'utf-8')).toBe('clip');
+  });
+
+  it('rejects a file that is not a zip', async () => {
+    const zipPath = path.join(workDir, 'package.zip');
+    await fs.writeFile(zipPath, 'not a zip');
+
+    const report = await extractScormPackage(zipPath, targetDir, LIMITS);
+
+    await expectRejected(report, 'invalid_zip');
+  });
+
+  it.each([
+    ['../evil.html'],
+    ['content/../../evil.html'],
+    ['..\\evil.html'],
+    ['content/..\\..\\evil.html'],
+  ])('rejects the traversing entry %s', async (name) => {
+    const report = await extract(packageZip({ 'evil.html': 'x' }, (zip) => rename(zip, 'evil.html', name)));
+
+    await expectRejected(report, 'path_traversal', name);
+    await expect(fs.access(path.join(workDir, 'evil.html'))).rejects.toThrow();
+  });
+
+  it.each([['/etc/evil.html'], ['C:/evil.html'], ['c:evil.html'], ['D:\\evil.html']])(
+    'rejects the absolute entry %s',
+    async (name) => {
+      const report = await extract(packageZip({ 'evil.html': 'x' }, (zip) => rename(zip, 'evil.html', name)));
+
+      await expectRejected(report, 'absolute_path', name);
+    }
+  );
+
+  it('rejects symbolic links', async () => {
+    const zip = packageZip({ link: '/etc/passwd' }, (z) => {
+      z.getEntry('link')!.attr = (0o120777 << 16) >>> 0;
+    });
+
+    await expectRejected(await extract(zip), 'symlink', 'link');
+  });
+
+  it('rejects encrypted entries', async () => {
+    const zip = reload(packageZip({ 'secret.html': 'x' }), (z) => {
+      z.getEntry('secret.html')!.header.flags |= 0x1;
+    });
+
+    await expectRejected(await extract(zip), 'encrypted_entry', 'secret.html');
+  });
+
+  it.each([['run.php'], ['scripts/INSTALL.SH'], ['.htaccess'], ['bin/tool.exe']])(
+    'rejects the server-side or executable file %s',
+    async (name) => {
+      await expectRejected(await extract(packageZip({ [name]: 'x' })), 'blocked_file_type', name);
+    }
+  );
+
+  it('rejects packages with too many files', async () => {
+    const files = Object.fromEntries(Array.from({ length: 5 }, (_, i) => [`page${i}.html`, 'x']));
+
+    const report = await extract(packageZip(files), { ...LIMITS, maxFiles: 5 });
+
+    await expectRejected(report, 'too_many_files');
+  });
+
+  it('rejects packages whose declared size is over the limit', async () => {
+    const report = await extract(packageZip({ 'video.bin': Buffer.alloc(2048, 1) }), {
+      ...LIMITS,
+      maxTotalBytes: 1024,
+    });
+
+    await expectRejected(report, 'too_large');
+  });
+
+  it('stops a package that expands past the limit while declaring less', async () => {
+    const zip = reload(packageZip({ 'bomb.bin': Buffer.alloc(4 * 1024 * 1024) }), (z) => {
+      z.getEntry('bomb.bin')!.header.size = 10;
+    });
+
+    const report = await extract(zip, { ...LIMITS, maxTotalBytes: 1024 * 1024, maxCompressionRatio: 10000 });
+
+    await expectRejected(report, 'too_large', 'bomb.bin');
+    expect(report.rejections).toHaveLength(1);
+  });
+
+  it('stops an entry that expands past the compression ratio', async () => {
+    const report = await extract(packageZip({ 'bomb.bin': Buffer.alloc(4 * 1024 * 1024) }));
+
+    await expectRejected(report, 'compression_ratio', 'bomb.bin');
+  });
+
+  it('stops a lying entry by its compression ratio too', async () => {
+    const zip = reload(packageZip({ 'bomb.bin': Buffer.alloc(4 * 1024 * 1024) }), (z) => {
+      z.getEntry('bomb.bin')!.header.size = 10;
+    });
+
+    await expectRejected(await extract(zip), 'compression_ratio', 'bomb.bin');
+  });
+
+  it('leaves small entries alone whatever their ratio', async () => {
+    const report = await extract(packageZip({ 'blank.txt': Buffer.alloc(512 * 1024) }));
+
+    expect(report.accepted).toBe(true);
+  });
+
+  it('removes what it already extracted when a later entry is rejected', async () => {
+    // AdmZip writes entries in name order, so index.html is extracted first
+    const files = { 'index.html': '<html></html>', 'z-bomb.bin': Buffer.alloc(4 * 1024 * 1024) };
+    const zip = reload(packageZip(files), (z) => {
+      z.getEntry('z-bomb.bin')!.header.size = 10;
+    });
+
+    const report = await extract(zip, { ...LIMITS, maxTotalBytes: 1024 * 1024, maxCompressionRatio: 10000 });
+
+    await expectRejected(report, 'too_large', 'z-bomb.bin');
+  });
+
+  it('rejects packages without a manifest at the root', async () => {
+    const zip = new AdmZip();
+    zip.addFile('course/imsmanifest.xml', Buffer.from(MANIFEST));
+
+    await expectRejected(await extract(zip), 'manifest_missing');
+  });
+
+  it.each([
+    ['cmi5.xml', 'cmi5'],
+    ['tincan.xml', 'xAPI (Tin Can)'],
+    ['course.crs', 'AICC'],
+  ])('names the %s package format it does not support', async (descriptor, format) => {
+    const zip = new AdmZip();
+    zip.addFile(descriptor, Buffer.from('<courseStructure/>'));
+
+    const report = await extract(zip);
+
+    await expectRejected(report, 'unsupported_format', descriptor);
+    expect(report.rejections[0].message).toContain(format);
+  });
+
+  it('reports every rejected entry at once', async () => {
+    const zip = packageZip({ 'a.html': 'x', 'b.php': 'x' }, (z) => rename(z, 'a.html', '../a.html'));
+
+    const report = await extract(zip);
+
+    expect(report.rejections.map((r) => r.reason).sort()).toEqual(['blocked_file_type', 'path_traversal']);
+  });
+});
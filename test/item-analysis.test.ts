@@ -0,0 +1,234 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { query } from '../src/db/index.js';
+import { getItemAnalysis, itemAnalysisToCsv, ItemStats } from '../src/services/item-analysis.js';
+
+vi.mock('../src/db/index.js', () => ({ query: vi.fn() }));
+
+interface Answer {
+  attempt: string;
+  score: number | null;
+  result: string | null;
+  response?: string;
+  index?: number;
+  interaction?: string;
+  latency?: number;
+}
+
+function interactionRows(answers: Answer[]) {
+  return answers.map((a) => ({
+    attempt_id: a.attempt,
+    activity_id: 'sco-1',
+    interaction_id: a.interaction || 'q1',
+    interaction_index: a.index ?? 0,
+    type: 'choice',
+    description: 'Question one',
+    learner_response: a.response ?? (a.result === 'correct' ? 'a' : 'b'),
+    result: a.result,
+    latency_seconds: a.latency ?? null,
+    attempt_score: a.score === null ? null : String(a.score),
+    learner_id: `learner-${a.attempt}`,
+  }));
+}
+
+async function analyse(answers: Answer[]): Promise<ItemStats[]> {
+  vi.mocked(query).mockResolvedValueOnce({ rows: interactionRows(answers) } as never);
+  return getItemAnalysis('course-1');
+}
+
+function item(overrides: Partial<ItemStats> = {}): ItemStats {
+  return {
+    activityId: 'sco-1',
+    interactionId: 'q1',
+    type: 'choice',
+    description: 'Question one',
+    attempts: 4,
+    learners: 3,
+    percentCorrect: 66.66666,
+    responses: [
+      { response: 'a', count: 3 },
+      { response: 'b', count: 1 },
+    ],
+    averageLatencySeconds: 12.345,
+    discrimination: 0.5,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.mocked(query).mockReset();
+});
+
+describe('getItemAnalysis', () => {
+  it('summarises each interaction', async () => {
+    const [stats] = await analyse([
+      { attempt: 'a1', score: 90, result: 'correct', latency: 10 },
+      { attempt: 'a2', score: 50, result: 'incorrect', latency: 20 },
+      { attempt: 'a3', score: 70, result: 'correct' },
+      { attempt: 'a4', score: 60, result: null, response: 'c' },
+    ]);
+
+    expect(stats).toMatchObject({
+      activityId: 'sco-1',
+      interactionId: 'q1',
+      attempts: 4,
+      learners: 4,
+      averageLatencySeconds: 15,
+      responses: [
+        { response: 'a', count: 2 },
+        { response: 'b', count: 1 },
+        { response: 'c', count: 1 },
+      ],
+    });
+    expect(stats.percentCorrect).toBeCloseTo(66.667, 3);
+  });
+
+  it('passes the course and filters to the query', async () => {
+    vi.mocked(query).mockResolvedValueOnce({ rows: [] } as never);
+
+    await getItemAnalysis('course-1', {
+      consumerId: 'consumer-1',
+      from: new Date('2024-01-01T00:00:00Z'),
+      to: new Date('2024-02-01T00:00:00Z'),
+    });
+
+    expect(vi.mocked(query).mock.calls[0][1]).toEqual([
+      'course-1',
+      'consumer-1',
+      '2024-01-01T00:00:00.000Z',
+      '2024-02-01T00:00:00.000Z',
+    ]);
+  });
+});
+
+describe('discrimination index', () => {
+  // Ten scored attempts: 27% puts the top two (s1, s2) in the upper group
+  // and the bottom two (s9, s10) in the lower group
+  const scores = [95, 90, 80, 75, 70, 65, 60, 55, 40, 30];
+
+  function attempts(correct: (attempt: number) => boolean): Answer[] {
+    return scores.map((score, i) => ({
+      attempt: `s${i + 1}`,
+      score,
+      result: correct(i + 1) ? 'correct' : 'incorrect',
+    }));
+  }
+
+  it('is 1 when only the upper group answers correctly', async () => {
+    const [stats] = await analyse(attempts((n) => n <= 2));
+    expect(stats.discrimination).toBe(1);
+  });
+
+  it('is -1 when only the lower group answers correctly', async () => {
+    const [stats] = await analyse(attempts((n) => n >= 9));
+    expect(stats.discrimination).toBe(-1);
+  });
+
+  it('ignores the middle of the distribution', async () => {
+    const [stats] = await analyse(attempts((n) => n >= 3 && n <= 8));
+    expect(stats.discrimination).toBe(0);
+  });
+
+  it('is the difference in proportion correct between the groups', async () => {
+    // Upper: s1 correct, s2 incorrect (0.5); lower: s9 and s10 incorrect (0)
+    const [stats] = await analyse(attempts((n) => n === 1 || n === 5));
+    expect(stats.discrimination).toBe(0.5);
+  });
+
+  it("counts an attempt's last answer to an item", async () => {
+    const [stats] = await analyse([
+      ...attempts((n) => n <= 2),
+      { attempt: 's1', score: 95, result: 'incorrect', index: 1 },
+      { attempt: 's10', score: 30, result: 'correct', index: 1 },
+    ]);
+
+    // Upper: s1 now incorrect, s2 correct (0.5); lower: s9 incorrect, s10 correct (0.5)
+    expect(stats.discrimination).toBe(0);
+  });
+
+  it('leaves out answers without a result', async () => {
+    const rows = attempts((n) => n <= 2);
+    rows[1].result = null;
+
+    const [stats] = await analyse(rows);
+
+    // Upper: only s1 has a result, and it's correct; lower: both incorrect
+    expect(stats.discrimination).toBe(1);
+  });
+
+  it('is null when a group has no judged answers for the item', async () => {
+    const stats = await analyse([
+      ...attempts((n) => n <= 2),
+      { attempt: 's1', score: 95, result: 'correct', interaction: 'q2' },
+      { attempt: 's3', score: 80, result: 'incorrect', interaction: 'q2' },
+    ]);
+
+    expect(stats.map((s) => [s.interactionId, s.discrimination])).toEqual([
+      ['q1', 1],
+      ['q2', null],
+    ]);
+  });
+
+  it('is null with too few scored attempts to form groups', async () => {
+    const [stats] = await analyse(attempts((n) => n <= 2).slice(0, 3));
+    expect(stats.discrimination).toBeNull();
+  });
+
+  it('only ranks scored attempts', async () => {
+    const rows = [
+      ...attempts((n) => n <= 2),
+      { attempt: 'unscored', score: null, result: 'correct' },
+    ];
+
+    const [stats] = await analyse(rows);
+    expect(stats.discrimination).toBe(1);
+  });
+});
+
+describe('itemAnalysisToCsv', () => {
+  it('writes a header and one rounded row per item with CRLF line endings', () => {
+    expect(itemAnalysisToCsv([item()])).toBe(
+      'SCO,Interaction ID,Type,Description,Attempts,Learners,Percent Correct,Average Latency (s),Discrimination,Responses\r\n' +
+        'sco-1,q1,choice,Question one,4,3,66.7,12.3,0.5,a: 3; b: 1\r\n'
+    );
+  });
+
+  it('leaves missing values empty', () => {
+    const csv = itemAnalysisToCsv([
+      item({ type: null, description: null, percentCorrect: null, averageLatencySeconds: null, discrimination: null, responses: [] }),
+    ]);
+    expect(csv.split('\r\n')[1]).toBe('sco-1,q1,,,4,3,,,,');
+  });
+
+  it.each([
+    ['=SUM(A1:A9)', "'=SUM(A1:A9)"],
+    ['+1', "'+1"],
+    ['-1+2', "'-1+2"],
+    ['@cmd', "'@cmd"],
+    ['\tindented', "'\tindented"],
+    ['plain text', 'plain text'],
+    ['a=b', 'a=b'],
+  ])('neutralises formula text %j in descriptions', (description, cell) => {
+    const row = itemAnalysisToCsv([item({ description })]).split('\r\n')[1];
+    expect(row.split(',')[3]).toBe(cell);
+  });
+
+  it.each([
+    ['say "hi"', '"say ""hi"""'],
+    ['one, two', '"one, two"'],
+    ['line\nbreak', '"line\nbreak"'],
+    ['=HYPERLINK("http://x")', `"'=HYPERLINK(""http://x"")"`],
+  ])('quotes %j', (description, cell) => {
+    const row = itemAnalysisToCsv([item({ description })]).split('\r\n')[1];
+    expect(row).toContain(`,${cell},4,3,`);
+  });
+
+  it('neutralises formulas in interaction ids', () => {
+    const row = itemAnalysisToCsv([item({ interactionId: '=q1' })]).split('\r\n')[1];
+    expect(row.startsWith("sco-1,'=q1,")).toBe(true);
+  });
+
+  it('neutralises a response column that starts with a formula', () => {
+    const csv = itemAnalysisToCsv([item({ responses: [{ response: '=1+1', count: 2 }] })]);
+    expect(csv.split('\r\n')[1].endsWith(",'=1+1: 2")).toBe(true);
+  });
+});
@@ -0,0 +1,239 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { validatePackage, ValidationReport } from '../src/services/package-validator.js';
+
+const SCORM_2004_ROOT = `<manifest identifier="course" version="1"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss">`;
+
+const SCORM_12_ROOT = `<manifest identifier="course" version="1"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">`;
+
+function manifest(version: '1.2' | '2004', organization: string, resources: string): string {
+  const schemaVersion = version === '1.2' ? '1.2' : '2004 4th Edition';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+${version === '1.2' ? SCORM_12_ROOT : SCORM_2004_ROOT}
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>${schemaVersion}</schemaversion>
+  </metadata>
+  <organizations default="org">
+    <organization identifier="org">
+      <title>Course</title>
+      ${organization}
+    </organization>
+  </organizations>
+  <resources>
+    ${resources}
+  </resources>
+</manifest>`;
+}
+
+const SCO_ITEM = '<item identifier="item1" identifierref="res1"><title>Lesson</title></item>';
+const SCO_RESOURCE = `<resource identifier="res1" type="webcontent" adlcp:scormType="sco" href="index.html">
+      <file href="index.html"/>
+    </resource>`;
+
+let packageDir: string | undefined;
+
+async function validate(files: Record<string, string>): Promise<ValidationReport> {
+  packageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'package-validator-'));
+  for (const [name, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(packageDir, name)), { recursive: true });
+    await fs.writeFile(path.join(packageDir, name), content);
+  }
+  return validatePackage(packageDir);
+}
+
+function codes(report: ValidationReport): string[] {
+  return report.findings.map((f) => `${f.severity}:${f.code}`);
+}
+
+afterEach(async () => {
+  if (packageDir) await fs.rm(packageDir, { recursive: true, force: true });
+  packageDir = undefined;
+});
+
+describe('validatePackage', () => {
+  it('accepts a well-formed single SCO package', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest('2004', SCO_ITEM, SCO_RESOURCE),
+      'index.html': '<html></html>',
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.findings).toEqual([]);
+    expect(report).toMatchObject({
+      scormVersion: '2004',
+      edition: '2004 4th Edition',
+      title: 'Course',
+      counts: { organizations: 1, items: 1, resources: 1, scos: 1, files: 2 },
+    });
+  });
+
+  it('reports a missing manifest', async () => {
+    const report = await validate({ 'index.html': '<html></html>' });
+
+    expect(report.valid).toBe(false);
+    expect(codes(report)).toEqual(['error:manifest_missing']);
+  });
+
+  it('reports a manifest that is not well-formed XML', async () => {
+    const report = await validate({ 'imsmanifest.xml': '<manifest><organizations></manifest>' });
+
+    expect(codes(report)).toEqual(['error:manifest_invalid']);
+  });
+
+  it('reports identifiers used more than once, once each', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest(
+        '2004',
+        `${SCO_ITEM}<item identifier="item1" identifierref="res1"><title>Again</title></item>
+         <item identifier="res1" identifierref="res1"><title>Clash</title></item>`,
+        SCO_RESOURCE
+      ),
+      'index.html': '<html></html>',
+    });
+
+    const duplicates = report.findings.filter((f) => f.code === 'duplicate_identifier');
+    expect(report.valid).toBe(false);
+    expect(duplicates.map((f) => f.identifier).sort()).toEqual(['item1', 'res1']);
+    expect(duplicates.every((f) => f.severity === 'error')).toBe(true);
+  });
+
+  it('reports a launched resource without an href', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest(
+        '2004',
+        SCO_ITEM,
+        '<resource identifier="res1" type="webcontent" adlcp:scormType="sco"><file href="index.html"/></resource>'
+      ),
+      'index.html': '<html></html>',
+    });
+
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({ severity: 'error', code: 'missing_resource_href', identifier: 'item1' })
+    );
+  });
+
+  it('reports a launch href missing from the package as an error and a listed file as a warning', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest(
+        '2004',
+        SCO_ITEM,
+        `<resource identifier="res1" type="webcontent" adlcp:scormType="sco" href="Index.html?page=1">
+          <file href="Index.html"/>
+          <file href="images/logo.png"/>
+        </resource>`
+      ),
+      'index.html': '<html></html>',
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({ severity: 'error', code: 'file_missing', file: 'Index.html' })
+    );
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({ severity: 'warning', code: 'file_missing', file: 'images/logo.png' })
+    );
+    expect(report.findings.find((f) => f.severity === 'error')?.message).toContain('paths are case-sensitive');
+  });
+
+  it('reports unreferenced files but not schema files or metadata locations', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest(
+        '2004',
+        SCO_ITEM,
+        `<resource identifier="res1" type="webcontent" adlcp:scormType="sco" href="index.html">
+          <metadata><adlcp:location>metadata/lom.xml</adlcp:location></metadata>
+          <file href="index.html"/>
+        </resource>`
+      ),
+      'index.html': '<html></html>',
+      'metadata/lom.xml': '<lom/>',
+      'imscp_v1p1.xsd': '<xs:schema/>',
+      'notes/draft.txt': 'leftover',
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.findings).toEqual([
+      expect.objectContaining({ severity: 'warning', code: 'file_unreferenced', file: 'notes/draft.txt' }),
+    ]);
+  });
+
+  it('rejects 2004 items that neither have children nor launch a resource', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest('2004', `${SCO_ITEM}<item identifier="empty"><title>Empty</title></item>`, SCO_RESOURCE),
+      'index.html': '<html></html>',
+    });
+
+    expect(report.valid).toBe(false);
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({ severity: 'error', code: 'invalid_structure', identifier: 'empty' })
+    );
+  });
+
+  it('rejects 2004 items that have children and also reference a resource', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest(
+        '2004',
+        `<item identifier="module" identifierref="res1"><title>Module</title>${SCO_ITEM}</item>`,
+        SCO_RESOURCE
+      ),
+      'index.html': '<html></html>',
+    });
+
+    expect(report.findings).toContainEqual(
+      expect.objectContaining({ severity: 'error', code: 'invalid_structure', identifier: 'module' })
+    );
+  });
+
+  it('only warns about empty items in SCORM 1.2', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest(
+        '1.2',
+        `${SCO_ITEM}<item identifier="empty"><title>Empty</title></item>`,
+        SCO_RESOURCE
+      ),
+      'index.html': '<html></html>',
+    });
+
+    expect(report.valid).toBe(true);
+    expect(report.scormVersion).toBe('1.2');
+    expect(codes(report)).toEqual(['warning:invalid_structure']);
+  });
+
+  it('reports references to organizations and resources that do not exist', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest(
+        '2004',
+        '<item identifier="item1" identifierref="missing"><title>Lesson</title></item>',
+        `<resource identifier="res1" type="webcontent" adlcp:scormType="sco" href="index.html">
+          <file href="index.html"/>
+          <dependency identifierref="shared"/>
+        </resource>`
+      ).replace('default="org"', 'default="other"'),
+      'index.html': '<html></html>',
+    });
+
+    const references = report.findings.filter((f) => f.code === 'unknown_reference').map((f) => f.identifier);
+    expect(references.sort()).toEqual(['item1', 'other', 'res1']);
+  });
+
+  it('lists errors before warnings', async () => {
+    const report = await validate({
+      'imsmanifest.xml': manifest('2004', `${SCO_ITEM}<item identifier="empty"/>`, SCO_RESOURCE),
+      'index.html': '<html></html>',
+      'extra.txt': '',
+    });
+
+    const severities = report.findings.map((f) => f.severity);
+    expect(severities).toEqual([...severities].sort());
+    expect(severities).toContain('warning');
+    expect(severities[0]).toBe('error');
+  });
+});
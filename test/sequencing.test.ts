@@ -0,0 +1,599 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { query } from '../src/db/index.js';
+import { parseManifest } from '../src/services/content-manager.js';
+import {
+  commitActivity,
+  navigate,
+  NavigationRequest,
+  NavigationResult,
+  ScoRollupMethod,
+} from '../src/services/sequencing.js';
+
+vi.mock('../src/db/index.js', () => ({ query: vi.fn() }));
+
+interface CourseRow {
+  manifest_data: unknown;
+  launch_path: string;
+  title: string;
+  scorm_version: string;
+  scorm_edition: string | null;
+  sco_rollup_method: ScoRollupMethod | null;
+  sco_rollup_weights: Record<string, number> | null;
+}
+
+interface ActivityRow {
+  activity_id: string;
+  completion_status: string;
+  success_status: string;
+  score_scaled: string | null;
+  progress_measure: string | null;
+  cmi_data: Record<string, string>;
+  [column: string]: unknown;
+}
+
+/**
+ * The attempts and attempt_activities rows of one attempt, standing in for
+ * the database the sequencing engine loads and saves its session through
+ */
+interface StoredAttempt {
+  course: CourseRow;
+  currentActivity: string | null;
+  suspendedActivity: string | null;
+  globalObjectives: Record<string, { satisfied: boolean | null; measure: number | null }>;
+  finished: boolean;
+  activities: Map<string, ActivityRow>;
+}
+
+const attempts = new Map<string, StoredAttempt>();
+let nextAttempt = 0;
+let manifestDir: string;
+
+beforeAll(async () => {
+  manifestDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sequencing-'));
+
+  vi.mocked(query).mockImplementation((async (text: string, params: unknown[] = []) => {
+    const attempt = attempts.get(params[0] as string);
+    if (!attempt) return { rows: [] };
+
+    if (text.includes('c.manifest_data')) {
+      return {
+        rows: [
+          {
+            ...attempt.course,
+            current_activity: attempt.currentActivity,
+            suspended_activity: attempt.suspendedActivity,
+            global_objectives: attempt.globalObjectives,
+          },
+        ],
+      };
+    }
+
+    if (text.includes('FROM attempt_activities')) {
+      return { rows: Array.from(attempt.activities.values()) };
+    }
+
+    if (text.includes('INSERT INTO attempt_activities')) {
+      for (const row of JSON.parse(params[1] as string)) {
+        attempt.activities.set(row.activity_id, {
+          ...row,
+          score_scaled: row.score_scaled === null ? null : String(row.score_scaled),
+          progress_measure: row.progress_measure === null ? null : String(row.progress_measure),
+        });
+      }
+      return { rows: [] };
+    }
+
+    if (text.includes('UPDATE attempts SET')) {
+      attempt.currentActivity = params[1] as string | null;
+      attempt.suspendedActivity = params[2] as string | null;
+      attempt.globalObjectives = JSON.parse(params[3] as string);
+      attempt.finished ||= params[4] === true && params[2] === null;
+      return { rows: [] };
+    }
+
+    throw new Error(`Unexpected query: ${text}`);
+  }) as never);
+});
+
+afterAll(async () => {
+  await fs.rm(manifestDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// Manifests
+
+function sco(id: string, extra = ''): string {
+  return `<item identifier="${id}" identifierref="r-${id}"><title>${id}</title>${extra}</item>`;
+}
+
+function sequencing(content: string): string {
+  return `<imsss:sequencing>${content}</imsss:sequencing>`;
+}
+
+const FLOW = '<imsss:controlMode choice="true" flow="true"/>';
+
+function rule(kind: 'preConditionRule' | 'postConditionRule', condition: string, action: string): string {
+  return `<imsss:sequencingRules><imsss:${kind}>
+    <imsss:ruleConditions><imsss:ruleCondition ${condition}/></imsss:ruleConditions>
+    <imsss:ruleAction action="${action}"/>
+  </imsss:${kind}></imsss:sequencingRules>`;
+}
+
+function resources(items: string): string {
+  return Array.from(items.matchAll(/identifierref="r-([^"]+)"/g))
+    .map(([, id]) => `<resource identifier="r-${id}" type="webcontent" adlcp:scormType="sco" href="${id}.html"/>`)
+    .join('');
+}
+
+function scorm2004Manifest(items: string, organizationSequencing = ''): string {
+  return `<?xml version="1.0"?>
+<manifest identifier="course" xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3" xmlns:imsss="http://www.imsglobal.org/xsd/imsss">
+  <metadata><schema>ADL SCORM</schema><schemaversion>2004 4th Edition</schemaversion></metadata>
+  <organizations default="org">
+    <organization identifier="org"><title>Course</title>${items}${organizationSequencing}</organization>
+  </organizations>
+  <resources>${resources(items)}</resources>
+</manifest>`;
+}
+
+function scorm12Manifest(items: string): string {
+  return `<?xml version="1.0"?>
+<manifest identifier="course" xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+  <metadata><schema>ADL SCORM</schema><schemaversion>1.2</schemaversion></metadata>
+  <organizations default="org">
+    <organization identifier="org"><title>Course</title>${items}</organization>
+  </organizations>
+  <resources>${resources(items)}</resources>
+</manifest>`;
+}
+
+/**
+ * Parses the manifest the way an upload does and opens an attempt on it
+ */
+async function startAttempt(
+  xml: string,
+  scoRollup: { method: ScoRollupMethod; weights?: Record<string, number> } = { method: 'average' }
+): Promise<string> {
+  const attemptId = `attempt-${++nextAttempt}`;
+  const manifestPath = path.join(manifestDir, `${attemptId}.xml`);
+  await fs.writeFile(manifestPath, xml);
+  const manifest = await parseManifest(manifestPath);
+
+  attempts.set(attemptId, {
+    course: {
+      manifest_data: JSON.parse(JSON.stringify(manifest)),
+      launch_path: manifest.launchPath,
+      title: manifest.title,
+      scorm_version: manifest.scormVersion,
+      scorm_edition: manifest.edition,
+      sco_rollup_method: scoRollup.method,
+      sco_rollup_weights: scoRollup.weights || null,
+    },
+    currentActivity: null,
+    suspendedActivity: null,
+    globalObjectives: {},
+    finished: false,
+    activities: new Map(),
+  });
+
+  return attemptId;
+}
+
+async function request(
+  attemptId: string,
+  navigationRequest: NavigationRequest,
+  options: { target?: string; cmiData?: Record<string, string> } = {}
+) {
+  const current = attempts.get(attemptId)!.currentActivity;
+  const result = await navigate(attemptId, navigationRequest, {
+    target: options.target,
+    activityId: options.cmiData && current ? current : undefined,
+    cmiData: options.cmiData,
+  });
+  expect(result).not.toBeNull();
+  return result!;
+}
+
+function toc(navigation: NavigationResult) {
+  return Object.fromEntries(navigation.toc.map((e) => [e.id, e]));
+}
+
+const PASSED = { 'cmi.completion_status': 'completed', 'cmi.success_status': 'passed' };
+
+// ---------------------------------------------------------------------------
+// SCORM 2004
+
+describe('SCORM 2004 navigation', () => {
+  it('flows through the activities and ends the session after the last one', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2') + sco('sco3'), sequencing(FLOW)));
+
+    const start = await request(attemptId, 'start');
+    expect(start.navigation).toMatchObject({
+      delivery: { activityId: 'sco1', href: 'sco1.html', cmiData: {} },
+      canContinue: true,
+      canPrevious: false,
+    });
+
+    const second = await request(attemptId, 'continue', {
+      cmiData: { ...PASSED, 'cmi.score.scaled': '0.8', 'cmi.session_time': 'PT1M30S' },
+    });
+    expect(second.navigation.delivery?.activityId).toBe('sco2');
+    expect(second.navigation.canPrevious).toBe(true);
+    expect(second.sessionSeconds).toBe(90);
+    expect(toc(second.navigation).sco1).toMatchObject({ completionStatus: 'completed', successStatus: 'passed' });
+    expect(second.status).toMatchObject({ completionStatus: 'incomplete', successStatus: null });
+
+    await request(attemptId, 'continue', { cmiData: { ...PASSED, 'cmi.score.scaled': '0.6' } });
+    const end = await request(attemptId, 'continue', { cmiData: { ...PASSED, 'cmi.score.scaled': '1' } });
+
+    expect(end.navigation).toMatchObject({ delivery: null, ended: true, canContinue: false });
+    expect(end.status.completionStatus).toBe('completed');
+    expect(end.status.successStatus).toBe('passed');
+    expect(end.status.score).toBeCloseTo(0.8, 5);
+    expect(end.status.progressMeasure).toBe(1);
+    expect(attempts.get(attemptId)!.finished).toBe(true);
+  });
+
+  it('goes back with previous and keeps the time spent on an activity', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2'), sequencing(FLOW)));
+
+    await request(attemptId, 'start');
+    await request(attemptId, 'continue', { cmiData: { 'cmi.session_time': 'PT2M' } });
+    const back = await request(attemptId, 'previous', {
+      cmiData: { 'cmi.completion_status': 'incomplete', 'cmi.session_time': 'PT30S' },
+    });
+
+    expect(back.navigation.delivery?.activityId).toBe('sco1');
+    expect(toc(back.navigation).sco2.completionStatus).toBe('incomplete');
+    expect(attempts.get(attemptId)!.activities.get('sco2')!.time_spent).toBe(30);
+  });
+
+  it('lets the learner choose where to start when the organization does not flow', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2')));
+
+    const start = await request(attemptId, 'start');
+    expect(start.navigation).toMatchObject({ delivery: null, error: null, ended: false, canContinue: false });
+    expect(start.navigation.toc.map((e) => [e.id, e.choosable])).toEqual([
+      ['sco1', true],
+      ['sco2', true],
+    ]);
+
+    const chosen = await request(attemptId, 'choice', { target: 'sco2' });
+    expect(chosen.navigation.delivery?.activityId).toBe('sco2');
+
+    const unknown = await request(attemptId, 'choice', { target: 'nowhere' });
+    expect(unknown.navigation.error).toBe('Unknown activity');
+  });
+
+  it('refuses continue when the organization does not flow', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2')));
+
+    await request(attemptId, 'choice', { target: 'sco1' });
+    const result = await request(attemptId, 'continue', { cmiData: {} });
+
+    expect(result.navigation.error).toBe('Flow navigation is not allowed here');
+  });
+
+  it('launches a lone SCO and ends the session when it exits', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('only')));
+
+    expect((await request(attemptId, 'start')).navigation.delivery?.activityId).toBe('only');
+
+    const exit = await request(attemptId, 'exit', { cmiData: { 'cmi.completion_status': 'completed' } });
+    expect(exit.navigation.ended).toBe(true);
+    expect(exit.status.completionStatus).toBe('completed');
+    expect(attempts.get(attemptId)!.finished).toBe(true);
+  });
+
+  it('suspends the attempt and resumes the suspended activity with its data', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2'), sequencing(FLOW)));
+
+    await request(attemptId, 'start');
+    await request(attemptId, 'continue', { cmiData: PASSED });
+    const suspended = await request(attemptId, 'suspendAll', {
+      cmiData: { 'cmi.location': 'page-4', 'cmi.exit': 'suspend', 'cmi.session_time': 'PT1M' },
+    });
+
+    expect(suspended.navigation.ended).toBe(true);
+    expect(attempts.get(attemptId)).toMatchObject({ suspendedActivity: 'sco2', finished: false });
+
+    const resumed = await request(attemptId, 'resumeAll');
+    expect(resumed.navigation.delivery).toMatchObject({
+      activityId: 'sco2',
+      cmiData: { 'cmi.location': 'page-4', 'cmi.exit': 'suspend' },
+      totalTime: 'PT0H1M0S',
+    });
+    expect(resumed.navigation.delivery?.cmiData).not.toHaveProperty('cmi.session_time');
+  });
+
+  it('reports resumeAll without a suspended activity', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1')));
+
+    expect((await request(attemptId, 'resumeAll')).navigation.error).toBe('There is no suspended activity to resume');
+  });
+});
+
+describe('SCORM 2004 sequencing rules', () => {
+  it('skips activities whose skip pre-condition fires', async () => {
+    const items = sco('sco1') + sco('sco2', sequencing(rule('preConditionRule', 'condition="always"', 'skip'))) + sco('sco3');
+    const attemptId = await startAttempt(scorm2004Manifest(items, sequencing(FLOW)));
+
+    await request(attemptId, 'start');
+    const next = await request(attemptId, 'continue', { cmiData: PASSED });
+
+    expect(next.navigation.delivery?.activityId).toBe('sco3');
+  });
+
+  it('hides and disables activities by pre-condition', async () => {
+    const items =
+      sco('sco1') +
+      sco('hidden', sequencing(rule('preConditionRule', 'condition="always"', 'hiddenFromChoice'))) +
+      sco('disabled', sequencing(rule('preConditionRule', 'condition="always"', 'disabled')));
+    const attemptId = await startAttempt(scorm2004Manifest(items, sequencing(FLOW)));
+
+    const start = await request(attemptId, 'start');
+    expect(start.navigation.toc.map((e) => [e.id, e.choosable])).toEqual([
+      ['sco1', true],
+      ['disabled', false],
+    ]);
+
+    expect((await request(attemptId, 'choice', { target: 'hidden' })).navigation.error).toBe(
+      'Activity is hidden from choice'
+    );
+    expect((await request(attemptId, 'choice', { target: 'disabled' })).navigation.error).toBe(
+      'Activity is disabled'
+    );
+  });
+
+  it('enables an activity once a shared global objective is satisfied', async () => {
+    const writer = sequencing(`<imsss:objectives><imsss:primaryObjective objectiveID="p1">
+      <imsss:mapInfo targetObjectiveID="g1" writeSatisfiedStatus="true"/>
+    </imsss:primaryObjective></imsss:objectives>`);
+    const reader = sequencing(`${rule('preConditionRule', 'condition="objectiveStatusKnown" operator="not"', 'disabled')}
+      <imsss:objectives><imsss:primaryObjective objectiveID="p2">
+        <imsss:mapInfo targetObjectiveID="g1" readSatisfiedStatus="true"/>
+      </imsss:primaryObjective></imsss:objectives>`);
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1', writer) + sco('sco2', reader), sequencing(FLOW)));
+
+    await request(attemptId, 'start');
+    expect((await request(attemptId, 'choice', { target: 'sco2' })).navigation.error).toBe('Activity is disabled');
+
+    await commitActivity(attemptId, 'sco1', PASSED);
+    expect(attempts.get(attemptId)!.globalObjectives).toEqual({ g1: { satisfied: true, measure: null } });
+
+    const chosen = await request(attemptId, 'choice', { target: 'sco2' });
+    expect(chosen.navigation.delivery?.activityId).toBe('sco2');
+  });
+
+  it('retries an activity when its post-condition fires', async () => {
+    const retry = sequencing(rule('postConditionRule', 'condition="satisfied" operator="not"', 'retry'));
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1', retry) + sco('sco2'), sequencing(FLOW)));
+
+    await request(attemptId, 'start');
+    const failed = await request(attemptId, 'continue', {
+      cmiData: { 'cmi.completion_status': 'completed', 'cmi.success_status': 'failed' },
+    });
+    expect(failed.navigation.delivery).toMatchObject({ activityId: 'sco1', cmiData: {} });
+    expect(attempts.get(attemptId)!.activities.get('sco1')!.attempt_count).toBe(2);
+
+    const passed = await request(attemptId, 'continue', { cmiData: PASSED });
+    expect(passed.navigation.delivery?.activityId).toBe('sco2');
+  });
+});
+
+describe('SCORM 2004 rollup', () => {
+  it('is satisfied by default only once every child is', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2')));
+
+    expect(await commitActivity(attemptId, 'sco1', PASSED)).toMatchObject({ successStatus: null });
+    expect(await commitActivity(attemptId, 'sco2', PASSED)).toMatchObject({
+      completionStatus: 'completed',
+      successStatus: 'passed',
+    });
+  });
+
+  it('fails by default once every child is known and one failed', async () => {
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2')));
+
+    await commitActivity(attemptId, 'sco1', PASSED);
+    const status = await commitActivity(attemptId, 'sco2', {
+      'cmi.completion_status': 'completed',
+      'cmi.success_status': 'failed',
+    });
+
+    expect(status).toMatchObject({ completionStatus: 'completed', successStatus: 'failed' });
+  });
+
+  it('applies the rollup rules the manifest defines', async () => {
+    const rollupRules = sequencing(`<imsss:rollupRules>
+      <imsss:rollupRule childActivitySet="any">
+        <imsss:rollupConditions><imsss:rollupCondition condition="satisfied"/></imsss:rollupConditions>
+        <imsss:rollupAction action="satisfied"/>
+      </imsss:rollupRule>
+      <imsss:rollupRule childActivitySet="atLeastCount" minimumCount="2">
+        <imsss:rollupConditions><imsss:rollupCondition condition="completed"/></imsss:rollupConditions>
+        <imsss:rollupAction action="completed"/>
+      </imsss:rollupRule>
+    </imsss:rollupRules>`);
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2') + sco('sco3'), rollupRules));
+
+    expect(await commitActivity(attemptId, 'sco1', PASSED)).toMatchObject({
+      completionStatus: 'incomplete',
+      successStatus: 'passed',
+    });
+    expect(await commitActivity(attemptId, 'sco2', { 'cmi.completion_status': 'completed' })).toMatchObject({
+      completionStatus: 'completed',
+      successStatus: 'passed',
+    });
+  });
+
+  it('judges a measure-satisfied objective on the weighted child measures', async () => {
+    const root = sequencing(`<imsss:objectives>
+      <imsss:primaryObjective satisfiedByMeasure="true"><imsss:minNormalizedMeasure>0.6</imsss:minNormalizedMeasure></imsss:primaryObjective>
+    </imsss:objectives>`);
+    const heavy = sequencing('<imsss:rollupRules objectiveMeasureWeight="3"/>');
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('sco2', heavy), root));
+
+    await commitActivity(attemptId, 'sco1', { 'cmi.score.scaled': '1' });
+    const status = await commitActivity(attemptId, 'sco2', { 'cmi.score.scaled': '0.4' });
+
+    // (1 * 1 + 0.4 * 3) / 4
+    expect(status!.score).toBeCloseTo(0.55, 5);
+    expect(status!.successStatus).toBe('failed');
+  });
+
+  it('leaves untracked activities out of the rollup', async () => {
+    const untracked = sequencing('<imsss:deliveryControls tracked="false"/>');
+    const attemptId = await startAttempt(scorm2004Manifest(sco('sco1') + sco('extra', untracked)));
+
+    expect(await commitActivity(attemptId, 'sco1', PASSED)).toMatchObject({
+      completionStatus: 'completed',
+      successStatus: 'passed',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// SCORM 1.2
+
+describe('SCORM 1.2 mastery score', () => {
+  const mastery = (score: string) => `<adlcp:masteryscore>${score}</adlcp:masteryscore>`;
+
+  async function commitScore(cmiData: Record<string, string>) {
+    const attemptId = await startAttempt(scorm12Manifest(sco('sco1', mastery('80')) + sco('sco2')));
+    const status = await commitActivity(attemptId, 'sco1', cmiData);
+    return { status, cmiData: attempts.get(attemptId)!.activities.get('sco1')!.cmi_data, attemptId };
+  }
+
+  it.each([
+    [{ 'cmi.core.score.raw': '85' }, 'passed'],
+    [{ 'cmi.core.score.raw': '80' }, 'passed'],
+    [{ 'cmi.core.score.raw': '79.5' }, 'failed'],
+    [{ 'cmi.core.score.raw': '85', 'cmi.core.lesson_status': 'completed' }, 'passed'],
+    [{ 'cmi.core.score.raw': '40', 'cmi.core.lesson_status': 'not attempted' }, 'failed'],
+  ])('judges %j as %s', async (cmiData, lessonStatus) => {
+    const result = await commitScore(cmiData);
+
+    expect(result.cmiData['cmi.core.lesson_status']).toBe(lessonStatus);
+    expect(result.status!.score).toBeCloseTo(parseFloat(cmiData['cmi.core.score.raw']) / 100, 5);
+  });
+
+  it.each([
+    [{ 'cmi.core.score.raw': '95', 'cmi.core.lesson_status': 'incomplete' }, 'incomplete'],
+    [{ 'cmi.core.score.raw': '50', 'cmi.core.lesson_status': 'passed' }, 'passed'],
+    [{ 'cmi.core.lesson_status': 'completed' }, 'completed'],
+  ])('leaves %j as the SCO set it', async (cmiData, lessonStatus) => {
+    expect((await commitScore(cmiData)).cmiData['cmi.core.lesson_status']).toBe(lessonStatus);
+  });
+
+  it('leaves SCOs without a mastery score alone', async () => {
+    const attemptId = await startAttempt(scorm12Manifest(sco('sco1', mastery('80')) + sco('sco2')));
+    await commitActivity(attemptId, 'sco2', { 'cmi.core.score.raw': '95' });
+
+    expect(attempts.get(attemptId)!.activities.get('sco2')!.cmi_data).toEqual({ 'cmi.core.score.raw': '95' });
+  });
+
+  it('passes the mastery score to the SCO on delivery', async () => {
+    const attemptId = await startAttempt(scorm12Manifest(sco('sco1', mastery('80'))));
+
+    const start = await request(attemptId, 'start');
+    expect(start.navigation.delivery?.launch.masteryScore).toBe(80);
+  });
+});
+
+describe('SCORM 1.2 navigation', () => {
+  it('flows between SCOs and keeps their data when revisited', async () => {
+    const attemptId = await startAttempt(scorm12Manifest(sco('sco1') + sco('sco2')));
+
+    expect((await request(attemptId, 'start')).navigation.delivery?.activityId).toBe('sco1');
+
+    const next = await request(attemptId, 'continue', {
+      cmiData: { 'cmi.core.lesson_location': 'page-3', 'cmi.core.session_time': '0000:01:30' },
+    });
+    expect(next.navigation.delivery?.activityId).toBe('sco2');
+    expect(next.sessionSeconds).toBe(90);
+    // LMSFinish without a status leaves the SCO completed
+    expect(toc(next.navigation).sco1.completionStatus).toBe('completed');
+
+    const back = await request(attemptId, 'previous', { cmiData: {} });
+    expect(back.navigation.delivery).toMatchObject({
+      activityId: 'sco1',
+      cmiData: { 'cmi.core.lesson_location': 'page-3', 'cmi.core.lesson_status': 'completed' },
+      totalTime: '0000:01:30',
+    });
+  });
+});
+
+describe('SCORM 1.2 SCO rollup', () => {
+  const course = scorm12Manifest(sco('sco1') + sco('sco2') + sco('sco3'));
+
+  async function rollUp(
+    method: ScoRollupMethod,
+    commits: Record<string, Record<string, string>>,
+    weights?: Record<string, number>
+  ) {
+    const attemptId = await startAttempt(course, { method, weights });
+    let status = null;
+    for (const [activityId, cmiData] of Object.entries(commits)) {
+      status = await commitActivity(attemptId, activityId, cmiData);
+    }
+    return status!;
+  }
+
+  const partial = {
+    sco1: { 'cmi.core.lesson_status': 'passed', 'cmi.core.score.raw': '90' },
+    sco2: { 'cmi.core.lesson_status': 'completed', 'cmi.core.score.raw': '60' },
+  };
+  const complete = { ...partial, sco3: { 'cmi.core.lesson_status': 'completed' } };
+
+  it('averages the SCOs that reported a score', async () => {
+    const status = await rollUp('average', partial);
+
+    expect(status.score).toBeCloseTo(0.75, 5);
+    expect(status).toMatchObject({ completionStatus: 'incomplete', successStatus: null });
+    expect(status.progressMeasure).toBeCloseTo(2 / 3, 5);
+  });
+
+  it('passes an average once every SCO is complete and one passed', async () => {
+    expect(await rollUp('average', complete)).toMatchObject({ completionStatus: 'completed', successStatus: 'passed' });
+  });
+
+  it('fails whenever a SCO failed', async () => {
+    const status = await rollUp('average', {
+      ...complete,
+      sco3: { 'cmi.core.lesson_status': 'failed', 'cmi.core.score.raw': '20' },
+    });
+
+    expect(status).toMatchObject({ completionStatus: 'completed', successStatus: 'failed' });
+  });
+
+  it('scores all_complete by the share of SCOs completed', async () => {
+    const incomplete = await rollUp('all_complete', partial);
+    expect(incomplete.score).toBeCloseTo(2 / 3, 5);
+    expect(incomplete.successStatus).toBeNull();
+
+    expect(await rollUp('all_complete', complete)).toMatchObject({
+      score: 1,
+      completionStatus: 'completed',
+      successStatus: 'passed',
+    });
+  });
+
+  it('weights SCO scores, counting unscored SCOs as zero', async () => {
+    const status = await rollUp('weighted', partial, { sco1: 2, sco2: 1 });
+
+    // (0.9 * 2 + 0.6 * 1 + 0 * 1) / 4
+    expect(status.score).toBeCloseTo(0.6, 5);
+  });
+
+  it('leaves SCOs weighted zero out of the weighted score', async () => {
+    const status = await rollUp('weighted', partial, { sco1: 1, sco2: 1, sco3: 0 });
+
+    expect(status.score).toBeCloseTo(0.75, 5);
+  });
+});